@@ -1,15 +1,182 @@
-import React, { useState, useCallback, useRef } from 'react'
+import React, { useState, useCallback, useRef, useEffect } from 'react'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls } from '@react-three/drei'
 import * as THREE from 'three'
 import Needle from './components/Needle'
 import Arm from './components/Arm'
 import SliderControls from './components/SliderControls'
+import FailureOverlay from './components/FailureOverlay'
+import DebriefReport from './components/DebriefReport'
+import AttemptRecorder from './components/AttemptRecorder'
+import ReplayDriver from './components/ReplayDriver'
+import ReplayControls from './components/ReplayControls'
+import SitePicker from './components/SitePicker'
+import PatientPicker from './components/PatientPicker'
+import GaugePicker from './components/GaugePicker'
+import ProcedureBar from './components/ProcedureBar'
+import SectionViews from './components/SectionViews'
+import UltrasoundPanel from './components/UltrasoundPanel'
+import SoundControls from './components/SoundControls'
+import TrainingModePicker from './components/TrainingModePicker'
+import TutorialCard from './components/TutorialCard'
+import LanguagePicker from './components/LanguagePicker'
+import KeyboardHelp from './components/KeyboardHelp'
+import LiveAnnouncer from './components/LiveAnnouncer'
+import HistoryDashboard from './components/HistoryDashboard'
+import ScenarioPicker from './components/ScenarioPicker'
+import ShareLink, { type ShareNotice } from './components/ShareLink'
+import CameraAnimator from './components/CameraAnimator'
+import NeedleTipView from './components/NeedleTipView'
+import type { Mode, Phase, TrainingMode } from './types'
+import { createVeinModel, measureVeinContact, readTissue, type TissueReading } from './lib/tissue'
+import { createVeinDeformation, stepVeinDeformation } from './lib/veinMechanics'
+import { createSkinTent, stepSkinTent, tentedTip } from './lib/skinTenting'
+import { bevelPosition, createFlashbackState, resetFlashback, stepFlashback } from './lib/flashback'
+import { DEFAULT_FEEDBACK_SETTINGS, playFeedback, type FeedbackSettings } from './lib/feedback'
+import { catheterLengthInVein, traceCatheter, type CatheterBlock, type CatheterStatus } from './lib/catheter'
+import { constrainToShaft, findSkinEntry, pivotAtSkinEntry, type SkinEntry } from './lib/skinEntry'
+import type { SectionProbe } from './lib/sectionViews'
+import { probeFor, type UltrasoundProbe } from './lib/ultrasound'
+import {
+    KEY_ADVANCE_STEP,
+    KEY_BINDINGS,
+    KEY_DEPTH_STEP,
+    KEY_MOVE_STEP,
+    KEY_SLIDER_STEP,
+    keyboardAction,
+    type KeyboardAction,
+} from './lib/keyboard'
+import { createAttemptRecord, type AttemptRecord } from './lib/history'
+import { clearAttempts, loadAttempts, saveAttempt } from './lib/historyStore'
+import {
+    CATHETER_ADVANCE_DONE,
+    CATHETER_ADVANCE_START,
+    STYLET_FULL_WITHDRAW,
+    STYLET_WITHDRAW_DONE,
+    canAdvanceCatheter,
+    detectTissueFailure,
+    isFailurePhase,
+    isStyletReinserted,
+} from './lib/outcomes'
+import {
+    CATHETER_FULL_ADVANCE,
+    DEFAULT_PASS_CRITERIA,
+    createAttemptLog,
+    logStep,
+    scoreAttempt,
+    type AttemptLog,
+} from './lib/scoring'
+import type { Scenario } from './lib/scenario'
+import {
+    CAMERA_PRESETS,
+    DEFAULT_CAMERA_PRESET,
+    TIP_VIEW_RECT,
+    cameraPresetPosition,
+    createCameraMove,
+    type CameraMove,
+    type CameraPreset,
+} from './lib/cameraPresets'
+import { decodeDeepLink, encodeDeepLink, type DeepLink, type DeepLinkError } from './lib/deepLink'
+import {
+    createRecording,
+    phaseMarkers,
+    recordingDuration,
+    sampleRecording,
+    type Recording,
+} from './lib/recording'
+import {
+    DEFAULT_SITE_ID,
+    getSite,
+    siteTargetWorld,
+    siteVeinYaw,
+    siteVeinPath,
+    siteVeinRadius,
+    type PunctureSite,
+    type SiteId,
+} from './lib/sites'
+import { DEFAULT_PATIENT_ID, getPatient, type PatientId, type PatientProfile } from './lib/patients'
+import { DEFAULT_GAUGE_ID, gaugeDimensions, getGauge, gaugeLengthScale, type Gauge, type GaugeId } from './lib/gauges'
+import {
+    createProcedure,
+    isProcedureComplete,
+    isStepDone,
+    isTourniquetOn,
+    procedureChecklist,
+    recordProcedureStep,
+    type ProcedureAction,
+    type ProcedureState,
+} from './lib/procedure'
+import { engorgedRadius, engorgementAt } from './lib/tourniquet'
+import {
+    DEFAULT_NEEDLE_POSE,
+    NEEDLE_ANGLE_MAX,
+    NEEDLE_ANGLE_MIN,
+    NEEDLE_ANGLE_STEP,
+    NEEDLE_ROLL_STEP,
+    NEEDLE_YAW_LIMIT,
+    NEEDLE_YAW_STEP,
+    bevelDeviation,
+    isBevelDown,
+    needleEuler,
+    needleForward,
+    wrapDegrees,
+    type NeedlePose,
+} from './lib/needlePose'
+import { armLocalToWorld, worldDirectionToArmLocal, worldToArmLocal } from './lib/anatomy'
+import { I18nContext, MESSAGES, detectLocale, type Locale } from './lib/i18n'
+import {
+    EXAM_TIME_LIMIT,
+    TRAINING_AIDS,
+    allowedProcedureActions,
+    createExamResult,
+    currentTutorialStep,
+    isControlUnlocked,
+    restrictAids,
+    type ExamResult,
+    type TrainingAids,
+} from './lib/training'
 
-type Phase = 'pre-puncture' | 'punctured' | 'advancing' | 'completed'
-type Mode = 'camera' | 'needle'
+// 針先の速さを平滑化する時定数（秒）
+const TIP_SPEED_SMOOTHING = 0.15
 
-const DEFAULT_NEEDLE_ANGLE_DEG = 15
+// 穿刺部位のターゲットを基準にした、針の初期位置・カメラ注視点のオフセット（カメラ位置は視点プリセットで決まる）
+const NEEDLE_START_OFFSET = new THREE.Vector3(1.5, 1.98, 1.2)
+const CAMERA_TARGET_OFFSET = new THREE.Vector3(0, -0.02, -0.1)
+
+// 視点プリセットに移動するキー
+const PRESET_KEYS: Record<CameraPreset, KeyboardAction> = {
+    'top-down': 'view-top-down',
+    'cross-section': 'view-cross-section',
+    'operator': 'view-operator',
+}
+
+// 針を動かせる範囲（X方向は手背〜肘窩の部位まで届く範囲）
+function clampNeedlePos(p: THREE.Vector3): THREE.Vector3 {
+    p.x = Math.max(-8.5, Math.min(9, p.x))
+    p.y = Math.max(-1.5, Math.min(4, p.y))
+    p.z = Math.max(-0.5, Math.min(3.0, p.z))
+    return p
+}
+
+function needleStartFor(site: PunctureSite, patient: PatientProfile, scenario: Scenario | null = null) {
+    const offset = scenario?.needleOffset ? new THREE.Vector3(...scenario.needleOffset) : NEEDLE_START_OFFSET
+    return siteTargetWorld(site, patient).add(offset)
+}
+
+function cameraTargetFor(site: PunctureSite, patient: PatientProfile) {
+    return siteTargetWorld(site, patient).add(CAMERA_TARGET_OFFSET)
+}
+
+function cameraPositionFor(site: PunctureSite, patient: PatientProfile, preset: CameraPreset = DEFAULT_CAMERA_PRESET) {
+    return cameraPresetPosition(preset, cameraTargetFor(site, patient))
+}
+
+interface ReplayState {
+    recording: Recording
+    time: number
+    playing: boolean
+    speed: number
+}
 
 /**
  * 3Dシーン
@@ -30,9 +197,22 @@ function SimulatorScene({
     outerOffset,
     phase,
     mode,
+    site,
+    patient,
+    gauge,
+    tourniquet,
+    engorgement,
+    traction,
+    probe,
+    aids,
     cameraRef,
     controlsRef,
-    onPuncture,
+    skinEntryRef,
+    sectionProbeRef,
+    catheterRef,
+    onSkinEntryChange,
+    onTissueChange,
+    onCameraGrab,
 }: {
     needlePos: THREE.Vector3
     needleRot: THREE.Euler
@@ -40,17 +220,124 @@ function SimulatorScene({
     outerOffset: number
     phase: Phase
     mode: Mode
+    site: PunctureSite
+    patient: PatientProfile
+    gauge: Gauge
+    tourniquet: boolean
+    engorgement: number
+    traction: boolean
+    probe: UltrasoundProbe | null
+    aids: TrainingAids
     cameraRef: React.MutableRefObject<THREE.Camera | null>
     controlsRef: React.MutableRefObject<any>
-    onPuncture: () => void
+    skinEntryRef: React.MutableRefObject<SkinEntry | null>
+    sectionProbeRef: React.MutableRefObject<SectionProbe | null>
+    catheterRef: React.MutableRefObject<CatheterStatus | null>
+    onSkinEntryChange: (entry: SkinEntry | null) => void
+    onTissueChange: (reading: TissueReading) => void
+    onCameraGrab: () => void
 }) {
-    useFrame(() => {
-        if (phase !== 'pre-puncture') return
-        const tipWorld = needlePos.clone()
-        const veinWorldApprox = new THREE.Vector3(0.0, -0.78, 0.30)
-        const dist = tipWorld.distanceTo(veinWorldApprox)
-        if (dist < 0.5) {
-            onPuncture()
+    const veinModel = React.useMemo(
+        () => createVeinModel(siteVeinPath(site, patient), siteVeinRadius(site, patient), patient, gauge),
+        [site, patient, gauge],
+    )
+    // 針の接触による静脈の変形と、刺入点の皮膚のテンティング（毎フレーム書き換える）
+    const deformation = React.useMemo(() => createVeinDeformation(), [veinModel])
+    const skinTent = React.useMemo(() => createSkinTent(), [site, patient])
+    const flashback = React.useMemo(() => createFlashbackState(), [veinModel])
+    // 駆血で怒張した血管の太さと変形を判定にも反映する
+    const engorgedVein = React.useMemo(
+        () => ({ ...veinModel, radius: engorgedRadius(veinModel.radius, engorgement), deformation }),
+        [veinModel, engorgement, deformation],
+    )
+    const cameraTarget = React.useMemo(() => cameraTargetFor(site, patient).toArray(), [site, patient])
+    const lastReading = useRef<TissueReading | null>(null)
+    const skinRef = useRef<THREE.Group>(null)
+    const { catheterLength, outerRadius: needleRadius } = gaugeDimensions(gauge)
+    const shaftLength = catheterLength + 1.1
+    const lastTip = useRef<THREE.Vector3 | null>(null)
+    const tipSpeed = useRef(0)
+
+    // 毎フレーム、皮膚と静脈の変形を進めてから刃面がどの組織層にあるかを判定（層が変わった時だけ通知）
+    useFrame((_, frameDelta) => {
+        const delta = Math.min(frameDelta, 0.1)
+        // 針の進行方向（ローカル-Y）と、内筒オフセットを反映した先端位置
+        const forward = new THREE.Vector3(0, -1, 0).applyEuler(needleRot)
+        const needleTip = needlePos.clone().addScaledVector(forward, innerOffset)
+
+        // 針先の速さ（ドラッグのイベント間隔でばらつかないよう平滑化する）
+        if (lastTip.current && delta > 0) {
+            const instant = lastTip.current.distanceTo(needleTip) / delta
+            tipSpeed.current += (instant - tipSpeed.current) * (1 - Math.exp(-delta / TIP_SPEED_SMOOTHING))
+        }
+        lastTip.current = needleTip
+        const speed = tipSpeed.current
+
+        // 皮膚を貫くまでは皮膚と皮下組織が針先と一緒に押し込まれている
+        const localTip = worldToArmLocal(needleTip)
+        stepSkinTent(skinTent, localTip, worldDirectionToArmLocal(forward), patient.arm, speed, delta)
+        const tipWorld = armLocalToWorld(tentedTip(skinTent, localTip, localTip))
+
+        // 皮膚を貫いている間は、凹んだ後の皮膚メッシュに対して針のシャフトの刺入点を求める（貫いた・抜いた時に通知）
+        const entry = skinTent.pierced && skinRef.current
+            ? findSkinEntry(skinRef.current, needleTip, forward, shaftLength)
+            : null
+        const lastEntry = skinEntryRef.current
+        skinEntryRef.current = entry
+        if ((lastEntry === null) !== (entry === null)) onSkinEntryChange(entry)
+
+        const contact = measureVeinContact(engorgedVein, tipWorld, forward)
+        stepVeinDeformation(
+            deformation,
+            contact.offset,
+            contact.pressAngle,
+            engorgedVein.radius,
+            engorgedVein.wallThickness,
+            speed,
+            traction,
+            delta,
+        )
+
+        const reading = readTissue(engorgedVein, tipWorld, forward)
+
+        // 逆血：刃面が内腔に入るとチャンバーへ、外筒の先端まで内腔に入ると外筒へ流れ込む（針を抜くまで残る）
+        if (phase === 'pre-puncture' && !skinTent.pierced) {
+            resetFlashback(flashback)
+        } else {
+            const catheterTip = needlePos.clone().addScaledVector(forward, outerOffset - CATHETER_ADVANCE_START)
+            const catheterInLumen = readTissue(engorgedVein, catheterTip, forward).tipLayer === 'lumen'
+            stepFlashback(flashback, bevelPosition(reading), catheterInLumen, gauge, engorgement, delta)
+        }
+
+        // 外筒を操作している間は、外筒が血管の中をどこまで進めるかを辿る
+        if (phase === 'punctured' || phase === 'advancing') {
+            const trace = traceCatheter(engorgedVein, needlePos, forward, CATHETER_FULL_ADVANCE * gaugeLengthScale(gauge))
+            catheterRef.current = {
+                limit: trace.limit,
+                block: trace.block,
+                inVein: catheterLengthInVein(engorgedVein, trace, forward, outerOffset, catheterLength),
+            }
+        } else if (phase === 'pre-puncture') {
+            catheterRef.current = null
+        }
+
+        sectionProbeRef.current = {
+            tip: worldToArmLocal(tipWorld),
+            forward: worldDirectionToArmLocal(forward),
+            vein: engorgedVein,
+            needleRadius,
+        }
+
+        const last = lastReading.current
+        if (
+            !last ||
+            last.tipLayer !== reading.tipLayer ||
+            last.heelLayer !== reading.heelLayer ||
+            last.belowVein !== reading.belowVein ||
+            Math.round(last.veinCrossing) !== Math.round(reading.veinCrossing)
+        ) {
+            lastReading.current = reading
+            onTissueChange(reading)
         }
     })
 
@@ -61,10 +348,11 @@ function SimulatorScene({
             {/* カメラモード時のみOrbitControls有効 */}
             <OrbitControls
                 ref={controlsRef}
-                target={[0, -0.8, 0.2]}
+                target={cameraTarget}
                 enableDamping
                 dampingFactor={0.1}
                 enabled={mode === 'camera'}
+                onStart={onCameraGrab}
             />
 
             {/* ライティング */}
@@ -83,7 +371,20 @@ function SimulatorScene({
             <hemisphereLight args={['#d0e8ff', '#404040', 0.5]} />
 
             {/* 腕モデル */}
-            <Arm phase={phase} />
+            <Arm
+                phase={phase}
+                site={site}
+                patient={patient}
+                tourniquet={tourniquet}
+                engorgement={engorgement}
+                deformation={deformation}
+                skinTent={skinTent}
+                traction={traction}
+                skinRef={skinRef}
+                probe={probe}
+                showGuide={aids.guide}
+                seeThroughSkin={aids.seeThroughSkin}
+            />
 
             {/* 留置針モデル */}
             <Needle
@@ -91,7 +392,8 @@ function SimulatorScene({
                 outerOffset={outerOffset}
                 position={[needlePos.x, needlePos.y, needlePos.z]}
                 rotation={[needleRot.x, needleRot.y, needleRot.z]}
-                showFlashback={phase === 'punctured'}
+                gauge={gauge}
+                flashback={flashback}
             />
 
             {/* 処置台 */}
@@ -103,90 +405,6 @@ function SimulatorScene({
     )
 }
 
-/**
- * 2Dクロスセクション・ミニマップ
- * 腕の断面図に血管と針の位置を表示
- */
-function CrossSectionMinimap({ needleZ, needleY }: { needleZ: number; needleY: number }) {
-    const size = 130
-    const cx = size / 2
-    const cy = size / 2
-    const armRx = 48  // 腕楕円の横幅
-    const armRy = 32  // 腕楕円の縦幅
-
-    // 血管のワールドZ=0.30 → ミニマップ座標
-    // Z座標: 0=腕の中心, 正=上面(カメラ手前), ミニマップでは上
-    // 腕の表面Z≈0.59(center), 血管Z=0.30
-    const veinFraction = 0.30 / 0.59  // 血管の腕内相対位置
-    const veinMapX = cx + 3
-    const veinMapY = cy - armRy * veinFraction * 0.7
-
-    // 針のZ位置をミニマップ座標にマッピング
-    // Z: -0.5~3.0 → 腕の外から腕の下まで
-    // 腕の上面≈0.59, 下面≈-0.59
-    const needleZNorm = (needleZ - (-0.5)) / 3.5  // 0~1に正規化
-    const needleMapY = cy + armRy + 10 - needleZNorm * (armRy * 2 + 20)
-
-    // 針のY位置（高さ）→ ミニマップでは左右にマッピング
-    // Y: -1.5~4.0 → ミニマップ横方向
-    const needleYNorm = (needleY - (-1.5)) / 5.5
-    const needleMapX = cx - armRx + needleYNorm * armRx * 2
-
-    return (
-        <div className="absolute bottom-24 right-3 z-20 pointer-events-none">
-            <div className="bg-black/60 backdrop-blur-md rounded-xl border border-white/15 p-2">
-                <div className="text-[8px] text-white/40 text-center mb-1 tracking-wider">断面図</div>
-                <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
-                    {/* 背景グリッド */}
-                    <line x1={cx} y1={4} x2={cx} y2={size - 4} stroke="rgba(255,255,255,0.05)" strokeWidth={0.5} />
-                    <line x1={4} y1={cy} x2={size - 4} y2={cy} stroke="rgba(255,255,255,0.05)" strokeWidth={0.5} />
-
-                    {/* 腕の断面（楕円） */}
-                    <ellipse
-                        cx={cx} cy={cy} rx={armRx} ry={armRy}
-                        fill="rgba(240,188,138,0.25)"
-                        stroke="rgba(240,188,138,0.5)"
-                        strokeWidth={1.5}
-                    />
-
-                    {/* 皮下組織のリング */}
-                    <ellipse
-                        cx={cx} cy={cy} rx={armRx - 4} ry={armRy - 3}
-                        fill="none"
-                        stroke="rgba(240,188,138,0.15)"
-                        strokeWidth={0.5}
-                        strokeDasharray="3 3"
-                    />
-
-                    {/* 血管 */}
-                    <circle
-                        cx={veinMapX} cy={veinMapY} r={5}
-                        fill="rgba(204,34,34,0.7)"
-                        stroke="#cc2222"
-                        strokeWidth={1}
-                    />
-                    <text x={veinMapX + 9} y={veinMapY + 3} fill="rgba(204,34,34,0.6)" fontSize={7}>静脈</text>
-
-                    {/* 針位置マーカー */}
-                    <circle
-                        cx={needleMapX} cy={needleMapY} r={4}
-                        fill="rgba(102,255,170,0.6)"
-                        stroke="#66ffaa"
-                        strokeWidth={1.5}
-                    />
-                    {/* 針の十字線 */}
-                    <line x1={needleMapX - 7} y1={needleMapY} x2={needleMapX + 7} y2={needleMapY} stroke="#66ffaa" strokeWidth={0.5} opacity={0.5} />
-                    <line x1={needleMapX} y1={needleMapY - 7} x2={needleMapX} y2={needleMapY + 7} stroke="#66ffaa" strokeWidth={0.5} opacity={0.5} />
-
-                    {/* ラベル */}
-                    <text x={4} y={12} fill="rgba(255,255,255,0.3)" fontSize={7}>上</text>
-                    <text x={4} y={size - 5} fill="rgba(255,255,255,0.3)" fontSize={7}>下</text>
-                </svg>
-            </div>
-        </div>
-    )
-}
-
 /**
  * メインアプリケーション
  */
@@ -195,18 +413,104 @@ function App() {
     const [mode, setMode] = useState<Mode>('camera')
     const [innerOffset, setInnerOffset] = useState(0)
     const [outerOffset, setOuterOffset] = useState(0)
-    const [needleAngle, setNeedleAngle] = useState(DEFAULT_NEEDLE_ANGLE_DEG)
-    const [needlePos, setNeedlePos] = useState(new THREE.Vector3(1.5, 1.2, 1.5))
+    const [needlePose, setNeedlePose] = useState<NeedlePose>(DEFAULT_NEEDLE_POSE)
+    // シナリオを選んでいる間は、部位と患者をシナリオで上書きした値にする
+    const [scenario, setScenario] = useState<Scenario | null>(null)
+    const [scenarioOpen, setScenarioOpen] = useState(false)
+    const [siteId, setSiteId] = useState<SiteId>(DEFAULT_SITE_ID)
+    const site = scenario?.site ?? getSite(siteId)
+    const [patientId, setPatientId] = useState<PatientId>(DEFAULT_PATIENT_ID)
+    const patient = scenario?.patient ?? getPatient(patientId)
+    // 針の振り角は、部位の静脈の走行の向きから測る
+    const veinYaw = React.useMemo(() => siteVeinYaw(site, patient), [site, patient])
+    const [gaugeId, setGaugeId] = useState<GaugeId>(DEFAULT_GAUGE_ID)
+    const gauge = getGauge(gaugeId)
+    const [needlePos, setNeedlePos] = useState(() => needleStartFor(getSite(DEFAULT_SITE_ID), getPatient(DEFAULT_PATIENT_ID)))
+    const [tissue, setTissue] = useState<TissueReading | null>(null)
+    const [replay, setReplay] = useState<ReplayState | null>(null)
+    const [procedure, setProcedure] = useState<ProcedureState>(createProcedure)
+    const [traction, setTraction] = useState(false)
+    const [probe, setProbe] = useState<UltrasoundProbe | null>(null)
+    const [feedback, setFeedback] = useState<FeedbackSettings>(DEFAULT_FEEDBACK_SETTINGS)
+    const [locale, setLocale] = useState<Locale>(detectLocale)
+    const [keyboardHelp, setKeyboardHelp] = useState(false)
+    const messages = MESSAGES[locale]
+    const { controls } = messages
+
+    // 文書の言語とタイトルを表示言語に合わせる
+    useEffect(() => {
+        document.documentElement.lang = locale
+        document.title = messages.app.title
+    }, [locale, messages])
+    const [training, setTraining] = useState<TrainingMode>('practice')
+    const aids = scenario ? restrictAids(TRAINING_AIDS[training], scenario.aids) : TRAINING_AIDS[training]
+    // 試験と、制限時間のあるシナリオは時間を計る（練習の形式を問わない）
+    const timed = training === 'exam' || scenario?.timeLimit != null
+    const examTimeLimit = scenario?.timeLimit ?? EXAM_TIME_LIMIT
+    const passCriteria = scenario?.pass ?? DEFAULT_PASS_CRITERIA
+    // 制限時間は手順を最初から始めた時刻から計る
+    const [examStartedAt, setExamStartedAt] = useState(() => performance.now())
+    const [examResults, setExamResults] = useState<ExamResult[]>([])
+    const [examResult, setExamResult] = useState<ExamResult | null>(null)
+
+    // 駆血帯を巻いてからは時計を進め、静脈の怒張と駆血時間の表示を更新する
+    const [now, setNow] = useState(() => performance.now())
+    const procedureComplete = isProcedureComplete(procedure, phase)
+    const clockRunning = isStepDone(procedure, 'tourniquet-on') && !procedureComplete
+    useEffect(() => {
+        if (!clockRunning) return
+        setNow(performance.now())
+        const id = setInterval(() => setNow(performance.now()), 250)
+        return () => clearInterval(id)
+    }, [clockRunning])
+    const engorgement = engorgementAt(procedure, now)
 
-    // 針の回転を角度から計算
-    const needleRot = React.useMemo(() => {
-        const angleRad = (needleAngle * Math.PI) / 180
-        return new THREE.Euler(0, 0, -(Math.PI / 2) + angleRad)
-    }, [needleAngle])
+    // 試行の記録（リプレイ用）
+    const recordingRef = useRef<Recording>(createRecording(DEFAULT_GAUGE_ID))
+    const replayFrame = React.useMemo(
+        () => (replay ? sampleRecording(replay.recording, replay.time) : null),
+        [replay],
+    )
+    const replayRecording = replay?.recording
+    const replayMarkers = React.useMemo(
+        () => (replayRecording ? phaseMarkers(replayRecording) : []),
+        [replayRecording],
+    )
+
+    // 3Dシーンに表示する状態（リプレイ中は記録から再生）
+    const viewNeedlePos = React.useMemo(
+        () => (replayFrame ? new THREE.Vector3(...replayFrame.needlePos) : needlePos),
+        [replayFrame, needlePos],
+    )
+    const viewNeedlePose = replayFrame ? replayFrame.needlePose : needlePose
+    const viewInnerOffset = replayFrame ? replayFrame.innerOffset : innerOffset
+    const viewOuterOffset = replayFrame ? replayFrame.outerOffset : outerOffset
+    const viewPhase = replayFrame ? replayFrame.phase : phase
+    const viewEngorgement = replayFrame ? replayFrame.engorgement : engorgement
+    const viewGauge = replay ? getGauge(replay.recording.gauge) : gauge
+
+    // 針の回転を姿勢（刺入角度・振り角・刃面の回転）から計算
+    const needleRot = React.useMemo(() => needleEuler(viewNeedlePose, veinYaw), [viewNeedlePose, veinYaw])
 
     // ドラッグ管理
     const cameraRef = useRef<THREE.Camera | null>(null)
     const controlsRef = useRef<any>(null)
+
+    // 視点プリセットへの移動（CameraAnimator が毎フレーム進め、ドラッグするか視点を直接合わせると止まる）
+    const cameraMoveRef = useRef<CameraMove | null>(null)
+    const moveCamera = useCallback((preset: CameraPreset) => {
+        const controls = controlsRef.current
+        if (!controls) return
+        cameraMoveRef.current = createCameraMove(
+            controls.object.position,
+            controls.target,
+            cameraPositionFor(site, patient, preset),
+            cameraTargetFor(site, patient),
+        )
+    }, [site, patient])
+    const handleCameraGrab = useCallback(() => { cameraMoveRef.current = null }, [])
+    // 針先を追う小窓
+    const [tipView, setTipView] = useState(false)
     const isDragging = useRef(false)
     const lastPointer = useRef<{ x: number; y: number }>({ x: 0, y: 0 })
     const isOverUI = useRef(false)
@@ -214,6 +518,124 @@ function App() {
     const activeTouchCount = useRef(0)
     const isAdvancing = useRef(false)
 
+    // 採点用の試行記録
+    const attemptLog = useRef<AttemptLog>(createAttemptLog(DEFAULT_GAUGE_ID))
+    // 手技が最後（ライン接続）まで終わったら採点する
+    const report = React.useMemo(
+        () => (procedureComplete ? scoreAttempt(attemptLog.current, procedure, messages.scoring, passCriteria) : null),
+        [procedureComplete, procedure, messages, passCriteria],
+    )
+    const retreatDistance = useRef(0)
+    // 内筒を最も引き抜いた位置（押し戻しの判定に使う）
+    const styletWithdrawn = useRef(0)
+    // 針のシャフトが皮膚を貫いている点（3Dシーンが毎フレーム更新する）
+    const skinEntryRef = useRef<SkinEntry | null>(null)
+    // 断面図・縦断図に切り出す針先と静脈の状態（3Dシーンが毎フレーム更新する）
+    const sectionProbeRef = useRef<SectionProbe | null>(null)
+    // 外筒を進められる範囲と血管内に入っている長さ（3Dシーンが毎フレーム更新する）
+    const catheterRef = useRef<CatheterStatus | null>(null)
+    const [catheterBlock, setCatheterBlock] = useState<CatheterBlock | null>(null)
+
+    // チュートリアルでいま行う手順と、使える操作
+    const tutorialStep = currentTutorialStep(procedure, phase, mode, tissue)
+    const setupUnlocked = isControlUnlocked(training, tutorialStep, 'setup')
+    const needleUnlocked = isControlUnlocked(training, tutorialStep, 'needle')
+
+    // 針の操作がロックされている間は穿刺モードにしない
+    useEffect(() => {
+        if (!needleUnlocked) setMode('camera')
+    }, [needleUnlocked])
+
+    // 試行が終わった（完了・失敗・時間切れ）
+    const attemptFinished = isFailurePhase(phase) || procedureComplete
+    // 終わった時刻を記録しておき、採点をいつ行っても同じ結果にする
+    useEffect(() => {
+        if (attemptFinished && attemptLog.current.endedAt === null) attemptLog.current.endedAt = performance.now()
+    }, [attemptFinished])
+    // 制限時間を過ぎたら時間切れで終了する
+    const examRunning = timed && !replay && !attemptFinished
+    useEffect(() => {
+        if (!examRunning) return
+        const id = setTimeout(() => {
+            setPhase('time-up')
+            setMode('camera')
+        }, Math.max(0, examTimeLimit - (performance.now() - examStartedAt)))
+        return () => clearTimeout(id)
+    }, [examRunning, examStartedAt, examTimeLimit])
+
+    // 試験：終わった時点（完了・失敗・時間切れ）で結果を1回だけ記録する
+    useEffect(() => {
+        if (training !== 'exam' || !attemptFinished || examResult) return
+        const result = createExamResult(
+            scoreAttempt(attemptLog.current, procedure, messages.scoring, passCriteria),
+            isFailurePhase(phase) ? phase : null,
+            performance.now() - examStartedAt,
+            siteId,
+            patientId,
+            gaugeId,
+        )
+        setExamResult(result)
+        setExamResults((results) => [...results, result])
+    }, [training, attemptFinished, examResult, procedure, phase, examStartedAt, siteId, patientId, gaugeId, messages, passCriteria])
+
+    // 学習の記録：起動時に保存済みの試行を読み込む（保存できない環境では画面内の記録だけを使う）
+    const [history, setHistory] = useState<AttemptRecord[]>([])
+    const [historyStored, setHistoryStored] = useState(true)
+    const [historyOpen, setHistoryOpen] = useState(false)
+    useEffect(() => {
+        let cancelled = false
+        loadAttempts()
+            .then((records) => { if (!cancelled) setHistory((current) => [...records, ...current]) })
+            .catch(() => { if (!cancelled) setHistoryStored(false) })
+        return () => { cancelled = true }
+    }, [])
+
+    // 学習の記録：試行が終わった時点で1回だけ保存する（やり直すまで同じ試行は記録しない）
+    const attemptSaved = useRef(false)
+    useEffect(() => {
+        if (!attemptFinished || attemptSaved.current) return
+        attemptSaved.current = true
+        const record = createAttemptRecord(
+            attemptLog.current,
+            scoreAttempt(attemptLog.current, procedure, messages.scoring, passCriteria),
+            isFailurePhase(phase) ? phase : null,
+            performance.now(),
+            training,
+            siteId,
+            patientId,
+            scenario?.id ?? null,
+        )
+        saveAttempt(record)
+            .then((saved) => setHistory((records) => [...records, saved]))
+            .catch(() => {
+                setHistoryStored(false)
+                setHistory((records) => [...records, record])
+            })
+    }, [attemptFinished, procedure, phase, training, siteId, patientId, messages, passCriteria, scenario])
+
+    const handleHistoryClear = useCallback(() => {
+        setHistory([])
+        clearAttempts().catch(() => setHistoryStored(false))
+    }, [])
+
+    // --- 針の移動：皮下では組織に固定され、針軸方向の前進・後退しかできない ---
+    const moveNeedle = useCallback((move: THREE.Vector3) => {
+        const forward = needleForward(needlePose, veinYaw)
+        const entry = skinEntryRef.current
+        const step = entry ? constrainToShaft(move, forward) : move
+
+        // 皮下で一度引き戻してから再度進めた場合は刺し直しとして記録
+        const along = step.dot(forward)
+        if (entry && along < 0) {
+            retreatDistance.current -= along
+        } else if (along > 0 && retreatDistance.current > 0.05) {
+            attemptLog.current.redirections++
+            retreatDistance.current = 0
+        }
+
+        setNeedlePos((prev) => clampNeedlePos(prev.clone().add(step)))
+    }, [needlePose, veinYaw])
+
     // --- タッチ・マウスドラッグ（穿刺モード時のみ） ---
     const handlePointerDown = useCallback((e: React.PointerEvent) => {
         if (mode !== 'needle' || phase !== 'pre-puncture') return
@@ -242,19 +664,13 @@ function App() {
         camera.matrixWorld.extractBasis(right, up, back)
 
         const sensitivity = 0.01
-        setNeedlePos((prev) => {
-            const newPos = prev.clone()
+        const move = new THREE.Vector3()
             // 画面右ドラッグ → カメラのrightベクトル方向に移動
-            newPos.addScaledVector(right, dx * sensitivity)
+            .addScaledVector(right, dx * sensitivity)
             // 画面上ドラッグ → カメラのupベクトル方向に移動（screen Yは反転）
-            newPos.addScaledVector(up, -dy * sensitivity)
-            // 範囲制限
-            newPos.x = Math.max(-5, Math.min(5, newPos.x))
-            newPos.y = Math.max(-1.5, Math.min(4, newPos.y))
-            newPos.z = Math.max(-0.5, Math.min(3.0, newPos.z))
-            return newPos
-        })
-    }, [mode, phase])
+            .addScaledVector(up, -dy * sensitivity)
+        moveNeedle(move)
+    }, [mode, phase, moveNeedle])
 
     const handlePointerUp = useCallback(() => {
         isDragging.current = false
@@ -265,12 +681,8 @@ function App() {
         if (mode !== 'needle') return
         e.preventDefault()
         const delta = e.deltaY * -0.002
-        setNeedlePos((prev) => {
-            const p = prev.clone()
-            p.z = Math.max(-0.5, Math.min(3.0, p.z + delta))
-            return p
-        })
-    }, [mode])
+        moveNeedle(new THREE.Vector3(0, 0, delta))
+    }, [mode, moveNeedle])
 
     // --- ピンチ（2本指）で奥行き調整（モバイル対応） ---
     const handleTouchStart = useCallback((e: React.TouchEvent) => {
@@ -292,14 +704,10 @@ function App() {
             const dist = Math.sqrt(dx * dx + dy * dy)
             const delta = (dist - lastPinchDist.current) * 0.005
             lastPinchDist.current = dist
-            setNeedlePos(prev => {
-                const p = prev.clone()
-                // ピンチアウト(広げる)=浅く、ピンチイン(狭める)=深く
-                p.z = Math.max(-0.5, Math.min(3.0, p.z - delta))
-                return p
-            })
+            // ピンチアウト(広げる)=浅く、ピンチイン(狭める)=深く
+            moveNeedle(new THREE.Vector3(0, 0, -delta))
         }
-    }, [mode, phase])
+    }, [mode, phase, moveNeedle])
 
     const handleTouchEnd = useCallback((e: React.TouchEvent) => {
         activeTouchCount.current = e.touches.length
@@ -309,8 +717,9 @@ function App() {
     }, [])
 
     // --- 「針を進める」ボタン：押しながらドラッグで針を進行方向に移動 ---
+    // 逆血確認後も、刃面を血管内に入れるため針軸方向の前進・後退だけは許可する
     const handleAdvanceDown = useCallback((e: React.PointerEvent) => {
-        if (mode !== 'needle' || phase !== 'pre-puncture') return
+        if (mode !== 'needle' || (phase !== 'pre-puncture' && phase !== 'punctured')) return
         isAdvancing.current = true
         lastPointer.current = { x: e.clientX, y: e.clientY }
         ;(e.target as HTMLElement).setPointerCapture(e.pointerId)
@@ -321,20 +730,9 @@ function App() {
         const dy = e.clientY - lastPointer.current.y
         lastPointer.current = { x: e.clientX, y: e.clientY }
 
-        // 針の進行方向ベクトル（角度に基づく）
-        const angleRad = (needleAngle * Math.PI) / 180
-        const forward = new THREE.Vector3(-Math.cos(angleRad), -Math.sin(angleRad), 0)
-
-        setNeedlePos(prev => {
-            const newPos = prev.clone()
-            // 上にドラッグ = 前進、下にドラッグ = 後退
-            newPos.addScaledVector(forward, -dy * 0.008)
-            newPos.x = Math.max(-5, Math.min(5, newPos.x))
-            newPos.y = Math.max(-1.5, Math.min(4, newPos.y))
-            newPos.z = Math.max(-0.5, Math.min(3.0, newPos.z))
-            return newPos
-        })
-    }, [needleAngle])
+        // 上にドラッグ = 前進、下にドラッグ = 後退（針の進行方向は姿勢に基づく）
+        moveNeedle(needleForward(needlePose, veinYaw).multiplyScalar(-dy * 0.008))
+    }, [needlePose, veinYaw, moveNeedle])
 
     const handleAdvanceUp = useCallback(() => {
         isAdvancing.current = false
@@ -345,242 +743,983 @@ function App() {
         if (phase === 'pre-puncture') {
             setPhase('punctured')
             setMode('camera')
-            // カメラを断面図（横アングル）に自動切替
-            requestAnimationFrame(() => {
-                const controls = controlsRef.current
-                if (controls) {
-                    controls.object.position.set(7, 0.3, 1.2)
-                    controls.target.set(0, -0.8, 0.2)
-                    controls.update()
-                }
-            })
+            // カメラを断面図（横アングル）へ移動
+            moveCamera('cross-section')
+        }
+    }, [phase, moveCamera])
+
+    // --- 皮膚を貫いた：刺入点の皮膚面に対して実測した刺入角度を記録 ---
+    const handleSkinEntryChange = useCallback((entry: SkinEntry | null) => {
+        if (replay || !entry) return
+        playFeedback('skin-pop', feedback)
+        if (phase === 'pre-puncture') attemptLog.current.skinEntryAngle = Math.round(entry.angle)
+    }, [replay, phase, feedback])
+
+    // --- 組織層の変化：穿刺成功・失敗の判定 ---
+    const handleTissueChange = useCallback((reading: TissueReading) => {
+        if (replay) return  // リプレイ中は判定しない
+        const log = attemptLog.current
+        const wasOutside = tissue === null || tissue.tipLayer === 'air'
+        setTissue(reading)
+
+        if (phase === 'pre-puncture' && wasOutside && reading.tipLayer !== 'air') {
+            log.skinEntries++
+            log.skinEntryBevel = bevelDeviation(needlePose)
+            logStep(log, 'skin-entry')
+            setProcedure((p) => recordProcedureStep(p, 'puncture'))
+        }
+        // 血管壁を貫いた手応えと、後壁に当たった警告
+        if (phase === 'pre-puncture' && reading.tipLayer === 'lumen') {
+            playFeedback('vein-pop', feedback)
+        }
+        const backWalled = reading.tipLayer === 'posterior-wall' || reading.tipLayer === 'deep'
+        const wasBackWalled = tissue?.tipLayer === 'posterior-wall' || tissue?.tipLayer === 'deep'
+        if (backWalled && !wasBackWalled) {
+            playFeedback('back-wall', feedback)
+        }
+        if (phase === 'pre-puncture' && reading.tipLayer === 'lumen') {
+            log.targetDistance = reading.tip.distanceTo(siteTargetWorld(site, patient))
+            log.veinCrossing = reading.veinCrossing
+            logStep(log, 'flashback')
+            setProcedure((p) => recordProcedureStep(p, 'flashback'))
+        }
+        if (phase === 'punctured' && canAdvanceCatheter(reading)) {
+            logStep(log, 'bevel-seated')
+        }
+
+        const failure = detectTissueFailure(phase, reading, needlePose)
+        if (failure) {
+            setPhase(failure)
+            setMode('camera')
+            return
+        }
+        // 刃先が血管内腔に到達したら穿刺成功
+        if (reading.tipLayer === 'lumen') {
+            handlePuncture()
+        }
+    }, [phase, tissue, needlePose, replay, site, patient, handlePuncture, feedback])
+
+    // --- 針の向きの変更：皮下では刺入点を支点にして針が回る ---
+    const turnNeedle = useCallback((next: NeedlePose) => {
+        const entry = skinEntryRef.current
+        if (entry) {
+            setNeedlePos(clampNeedlePos(pivotAtSkinEntry(entry, needleForward(next, veinYaw), innerOffset)))
         }
-    }, [phase])
+        setNeedlePose(next)
+    }, [innerOffset, veinYaw])
+
+    // --- 穿刺角度の変更（逆血確認後に角度を下げるのは正しい手順） ---
+    const handleAngleChange = useCallback((delta: number) => {
+        turnNeedle({ ...needlePose, angle: THREE.MathUtils.clamp(needlePose.angle + delta, NEEDLE_ANGLE_MIN, NEEDLE_ANGLE_MAX) })
+        if (phase === 'punctured' && delta < 0) {
+            logStep(attemptLog.current, 'angle-lowered')
+        }
+    }, [phase, needlePose, turnNeedle])
+
+    // --- 振り角（血管の走行に対する向き）と刃面の回転の変更 ---
+    const handleYawChange = useCallback((delta: number) => {
+        turnNeedle({ ...needlePose, yaw: THREE.MathUtils.clamp(needlePose.yaw + delta, -NEEDLE_YAW_LIMIT, NEEDLE_YAW_LIMIT) })
+    }, [needlePose, turnNeedle])
+
+    const handleRollChange = useCallback((delta: number) => {
+        setNeedlePose((p) => ({ ...p, roll: wrapDegrees(p.roll + delta) }))
+    }, [])
+
+    // --- 穿刺モード開始で計時スタート ---
+    const handleNeedleMode = useCallback(() => {
+        setMode('needle')
+        if (attemptLog.current.startedAt === null) {
+            attemptLog.current.startedAt = performance.now()
+        }
+    }, [])
 
     // --- スライダー操作 ---
     // 手順: 穿刺後 → 1.外筒を前進 → 2.内筒を引き抜き → 完了
-    const handleOuterChange = useCallback((value: number) => {
+    // 前進・引き抜きの完了位置はゲージの外筒の長さで補正する
+    const lengthScale = gaugeLengthScale(gauge)
+    const handleOuterChange = useCallback((requested: number) => {
+        // 外筒が後壁で折れ曲がる・血管壁に当たる位置から先へは進まない
+        const catheter = catheterRef.current
+        const blocked = catheter !== null && requested > outerOffset && requested > catheter.limit
+        const value = blocked ? Math.max(outerOffset, catheter.limit) : requested
+        setCatheterBlock(blocked ? catheter.block : null)
         setOuterOffset(value)
-        if (value > 1.0 && phase === 'punctured') {
+        const log = attemptLog.current
+        log.maxCatheterAdvance = Math.max(log.maxCatheterAdvance, value)
+        if (phase !== 'punctured') return
+        if (value > CATHETER_ADVANCE_START && !canAdvanceCatheter(tissue)) {
+            setPhase('premature-advance')  // 刃面が血管内に入りきる前に外筒を前進
+            setMode('camera')
+        } else if (value > CATHETER_ADVANCE_DONE * lengthScale) {
             setPhase('advancing')  // 外筒が十分前進 → 内筒引き抜きフェーズへ
+            logStep(log, 'catheter-advanced')
         }
-    }, [phase])
+    }, [phase, tissue, lengthScale, outerOffset])
 
     const handleInnerChange = useCallback((value: number) => {
         setInnerOffset(value)
-        if (value < -2.5 && phase === 'advancing') {
+        if (phase !== 'advancing') return
+        styletWithdrawn.current = Math.min(styletWithdrawn.current, value)
+        if (isStyletReinserted(value, styletWithdrawn.current)) {
+            setPhase('catheter-shear')  // 引き抜いた内筒を外筒に押し戻した
+        } else if (value < STYLET_WITHDRAW_DONE * lengthScale) {
             setPhase('completed')  // 内筒が十分引き抜かれた → 完了
+            playFeedback('success', feedback)
+            const log = attemptLog.current
+            logStep(log, 'stylet-withdrawn')
+            log.finishedAt = performance.now()
+            // 留置した外筒のうち血管内にある長さを実寸（mm）に換算して記録する
+            const catheter = catheterRef.current
+            if (catheter) log.catheterInVein = (catheter.inVein / gaugeDimensions(gauge).catheterLength) * gauge.length
+            setProcedure((p) => recordProcedureStep(p, 'stylet-withdrawal'))
         }
-    }, [phase])
+    }, [phase, lengthScale, gauge, feedback])
 
     // --- リセット ---
-    const handleReset = useCallback(() => {
+    const resetAttempt = useCallback((
+        nextSite: PunctureSite,
+        nextPatient: PatientProfile,
+        nextGauge: GaugeId,
+        nextScenario: Scenario | null,
+    ) => {
         setPhase('pre-puncture')
         setMode('camera')
         setInnerOffset(0)
         setOuterOffset(0)
-        setNeedlePos(new THREE.Vector3(1.5, 1.2, 1.5))
-        setNeedleAngle(DEFAULT_NEEDLE_ANGLE_DEG)
+        setNeedlePos(needleStartFor(nextSite, nextPatient, nextScenario))
+        setNeedlePose(nextScenario?.needle ?? DEFAULT_NEEDLE_POSE)
+        setReplay(null)
+        setTraction(false)
+        setCatheterBlock(null)
+        attemptLog.current = createAttemptLog(nextGauge)
+        recordingRef.current = createRecording(nextGauge)
+        retreatDistance.current = 0
+        styletWithdrawn.current = 0
+        attemptSaved.current = false
+    }, [])
+
+    // 手順（手指衛生〜ライン接続）は試行のやり直しと患者の変更でのみ最初からになる
+    // 部位・ゲージの選択は手順の途中で行うため、変更しても手順の記録は残す
+    const restartProcedure = useCallback(() => {
+        setProcedure(createProcedure())
+        setExamStartedAt(performance.now())
+        setExamResult(null)
     }, [])
 
+    const handleReset = useCallback(() => {
+        resetAttempt(site, patient, gaugeId, scenario)
+        restartProcedure()
+    }, [resetAttempt, restartProcedure, site, patient, gaugeId, scenario])
+
+    // --- 穿刺部位・患者の変更（試行をリセットし、カメラを新しいターゲットに向ける） ---
+    const changeCase = useCallback((
+        nextSite: PunctureSite,
+        nextPatient: PatientProfile,
+        nextGauge: GaugeId = gaugeId,
+        nextScenario: Scenario | null = scenario,
+    ) => {
+        resetAttempt(nextSite, nextPatient, nextGauge, nextScenario)
+        cameraMoveRef.current = null
+        const controls = controlsRef.current
+        if (controls) {
+            controls.object.position.copy(cameraPositionFor(nextSite, nextPatient))
+            controls.target.copy(cameraTargetFor(nextSite, nextPatient))
+            controls.update()
+        }
+    }, [resetAttempt, gaugeId, scenario])
+
+    const handleSiteChange = useCallback((id: SiteId) => {
+        setSiteId(id)
+        changeCase(getSite(id), patient)
+        // プローブは新しい部位の上に当て直す
+        setProbe((p) => p && probeFor(getSite(id), p.view))
+    }, [changeCase, patient])
+
+    const handlePatientChange = useCallback((id: PatientId) => {
+        setPatientId(id)
+        changeCase(site, getPatient(id))
+        restartProcedure()
+    }, [changeCase, restartProcedure, site])
+
+    // --- 練習の形式の変更（手順を最初からやり直す） ---
+    const handleTrainingChange = useCallback((next: TrainingMode) => {
+        setTraining(next)
+        resetAttempt(site, patient, gaugeId, scenario)
+        restartProcedure()
+    }, [resetAttempt, restartProcedure, site, patient, gaugeId, scenario])
+
+    // --- シナリオの選択・解除（部位・患者・ゲージをシナリオに合わせ、手順を最初からやり直す） ---
+    const handleScenarioChange = useCallback((next: Scenario | null) => {
+        setScenario(next)
+        setScenarioOpen(false)
+        const nextSite = next?.site ?? getSite(siteId)
+        const nextPatient = next?.patient ?? getPatient(patientId)
+        const nextGauge = next?.gauge ?? gaugeId
+        if (next) {
+            setSiteId(next.site.id)
+            setPatientId(next.patient.id)
+            setGaugeId(nextGauge)
+        }
+        changeCase(nextSite, nextPatient, nextGauge, next)
+        setProbe((p) => p && probeFor(nextSite, p.view))
+        restartProcedure()
+    }, [changeCase, restartProcedure, siteId, patientId, gaugeId])
+
+    // --- 共有リンク（症例・カメラ・針の状態を URL のハッシュに入れる） ---
+    const [linkError, setLinkError] = useState<DeepLinkError | null>(null)
+
+    const applyDeepLink = useCallback((link: DeepLink) => {
+        const nextSite = link.scenario?.site ?? getSite(link.site)
+        const nextPatient = link.scenario?.patient ?? getPatient(link.patient)
+        setScenario(link.scenario)
+        setScenarioOpen(false)
+        setSiteId(link.site)
+        setPatientId(link.patient)
+        setGaugeId(link.gauge)
+        setTraining(link.training)
+        resetAttempt(nextSite, nextPatient, link.gauge, link.scenario)
+        restartProcedure()
+        setProbe((p) => p && probeFor(nextSite, p.view))
+
+        // 針と手順をリンクの時点に戻す（途中から開いた試行は学習の記録に残さない）
+        setNeedlePos(new THREE.Vector3(...link.needlePos))
+        setNeedlePose(link.needlePose)
+        setOuterOffset(link.outerOffset)
+        setInnerOffset(link.innerOffset)
+        styletWithdrawn.current = link.innerOffset
+        setPhase(link.phase)
+        const at = performance.now()
+        setProcedure(link.steps.reduce((p, step) => recordProcedureStep(p, step, at), createProcedure()))
+        attemptSaved.current = link.phase !== 'pre-puncture'
+
+        // カメラは部位の変更で OrbitControls の注視点が付け直された後に合わせる（起動直後はシーンの準備を待つ）
+        let frames = 0
+        const applyCamera = () => {
+            const controls = controlsRef.current
+            if (!controls) {
+                if (++frames < 120) requestAnimationFrame(applyCamera)
+                return
+            }
+            cameraMoveRef.current = null
+            controls.object.position.set(...link.camera.position)
+            controls.target.set(...link.camera.target)
+            controls.update()
+        }
+        requestAnimationFrame(applyCamera)
+    }, [resetAttempt, restartProcedure])
+
+    // 起動時と、ハッシュが書き換えられた時にリンクを開く（共有リンクの形でないハッシュは無視する）
+    useEffect(() => {
+        const openHash = () => {
+            const result = decodeDeepLink(window.location.hash)
+            if (!result) return
+            if (result.ok) {
+                setLinkError(null)
+                applyDeepLink(result.link)
+            } else {
+                setLinkError(result.error)
+            }
+        }
+        openHash()
+        window.addEventListener('hashchange', openHash)
+        return () => window.removeEventListener('hashchange', openHash)
+    }, [applyDeepLink])
+
+    // 今の状態をアドレスバーに書き、コピーする（コピーできない環境ではアドレスバーから共有してもらう）
+    const handleShare = useCallback(async (): Promise<ShareNotice> => {
+        const controls = controlsRef.current
+        const hash = encodeDeepLink({
+            site: siteId,
+            patient: patientId,
+            gauge: gaugeId,
+            training,
+            scenario,
+            camera: {
+                position: (controls ? controls.object.position : cameraPositionFor(site, patient)).toArray(),
+                target: (controls ? controls.target : cameraTargetFor(site, patient)).toArray(),
+            },
+            needlePos: needlePos.toArray(),
+            needlePose,
+            phase,
+            outerOffset,
+            innerOffset,
+            steps: procedure.events.map((event) => event.step),
+        })
+        window.history.replaceState(null, '', hash)
+        setLinkError(null)
+        try {
+            await navigator.clipboard.writeText(window.location.href)
+            return 'copied'
+        } catch {
+            return 'updated'
+        }
+    }, [siteId, patientId, gaugeId, training, scenario, site, patient, needlePos, needlePose, phase, outerOffset, innerOffset, procedure])
+
+    // --- 手順の操作（手指衛生・駆血帯・消毒・ライン接続など） ---
+    const handleProcedureAction = useCallback((action: ProcedureAction) => {
+        setProcedure((p) => recordProcedureStep(p, action))
+    }, [])
+
+    // --- ゲージの変更（穿刺前のみ、試行をやり直す） ---
+    const handleGaugeChange = useCallback((id: GaugeId) => {
+        setGaugeId(id)
+        resetAttempt(site, patient, id, scenario)
+    }, [resetAttempt, site, patient, scenario])
+
+    // --- リプレイ ---
+    const handleReplayStart = useCallback(() => {
+        setMode('camera')
+        cameraMoveRef.current = null
+        setReplay({ recording: recordingRef.current, time: 0, playing: true, speed: 1 })
+    }, [])
+
+    const handleReplayTick = useCallback((deltaMs: number) => {
+        setReplay((r) => {
+            if (!r) return r
+            const duration = recordingDuration(r.recording)
+            const time = Math.min(duration, r.time + deltaMs)
+            return { ...r, time, playing: time < duration }
+        })
+    }, [])
+
+    const handleReplayPlayPause = useCallback(() => {
+        setReplay((r) => {
+            if (!r) return r
+            // 最後まで再生済みなら先頭から再生し直す
+            const atEnd = r.time >= recordingDuration(r.recording)
+            return { ...r, playing: !r.playing, time: !r.playing && atEnd ? 0 : r.time }
+        })
+    }, [])
+
+    const handleReplaySeek = useCallback((time: number) => {
+        setReplay((r) => (r ? { ...r, time } : r))
+    }, [])
+
+    const handleReplaySpeed = useCallback((speed: number) => {
+        setReplay((r) => (r ? { ...r, speed } : r))
+    }, [])
+
+    const handleReplayExit = useCallback(() => {
+        setReplay(null)
+    }, [])
+
+    // --- キーボード操作：ドラッグ・ボタン・スライダーと同じ操作を1段ずつ行う ---
+    const catheterUnlocked = isControlUnlocked(training, tutorialStep, 'catheter')
+    const styletUnlocked = isControlUnlocked(training, tutorialStep, 'stylet')
+    const handleKeyAction = useCallback((action: KeyboardAction): boolean => {
+        if (action === 'help') {
+            setKeyboardHelp((open) => !open)
+            return true
+        }
+        if (replay) return false
+        const needleActive = mode === 'needle' && (phase === 'pre-puncture' || phase === 'punctured')
+        switch (action) {
+            case 'move-left':
+            case 'move-right':
+            case 'move-up':
+            case 'move-down': {
+                const camera = cameraRef.current
+                if (mode !== 'needle' || phase !== 'pre-puncture' || !camera) return false
+                // 画面上の方向をドラッグと同じくカメラの right/up ベクトルに対応させる
+                const right = new THREE.Vector3()
+                const up = new THREE.Vector3()
+                const back = new THREE.Vector3()
+                camera.matrixWorld.extractBasis(right, up, back)
+                const dx = action === 'move-left' ? -1 : action === 'move-right' ? 1 : 0
+                const dy = action === 'move-down' ? -1 : action === 'move-up' ? 1 : 0
+                moveNeedle(right.multiplyScalar(dx * KEY_MOVE_STEP).addScaledVector(up, dy * KEY_MOVE_STEP))
+                return true
+            }
+            case 'shallower':
+            case 'deeper':
+                if (mode !== 'needle') return false
+                moveNeedle(new THREE.Vector3(0, 0, action === 'shallower' ? KEY_DEPTH_STEP : -KEY_DEPTH_STEP))
+                return true
+            case 'advance':
+            case 'retract':
+                if (!needleActive) return false
+                moveNeedle(needleForward(needlePose, veinYaw).multiplyScalar(action === 'advance' ? KEY_ADVANCE_STEP : -KEY_ADVANCE_STEP))
+                return true
+            case 'angle-up':
+            case 'angle-down':
+                if (!needleActive) return false
+                handleAngleChange(action === 'angle-up' ? NEEDLE_ANGLE_STEP : -NEEDLE_ANGLE_STEP)
+                return true
+            case 'yaw-left':
+            case 'yaw-right':
+                if (!needleActive) return false
+                handleYawChange(action === 'yaw-left' ? -NEEDLE_YAW_STEP : NEEDLE_YAW_STEP)
+                return true
+            case 'roll-left':
+            case 'roll-right':
+                if (!needleActive) return false
+                handleRollChange(action === 'roll-left' ? -NEEDLE_ROLL_STEP : NEEDLE_ROLL_STEP)
+                return true
+            case 'catheter-forward':
+            case 'catheter-back': {
+                if ((phase !== 'punctured' && phase !== 'advancing') || !catheterUnlocked) return false
+                const step = (action === 'catheter-forward' ? KEY_SLIDER_STEP : -KEY_SLIDER_STEP) * lengthScale
+                handleOuterChange(THREE.MathUtils.clamp(outerOffset + step, 0, CATHETER_FULL_ADVANCE * lengthScale))
+                return true
+            }
+            case 'stylet-withdraw':
+            case 'stylet-insert': {
+                if (phase !== 'advancing' || !styletUnlocked) return false
+                const step = (action === 'stylet-withdraw' ? -KEY_SLIDER_STEP : KEY_SLIDER_STEP) * lengthScale
+                handleInnerChange(THREE.MathUtils.clamp(innerOffset + step, STYLET_FULL_WITHDRAW * lengthScale, 0))
+                return true
+            }
+            case 'toggle-mode':
+                if (mode === 'needle' || !needleUnlocked) setMode('camera')
+                else handleNeedleMode()
+                return true
+            case 'reset':
+                handleReset()
+                return true
+            case 'view-top-down':
+                moveCamera('top-down')
+                return true
+            case 'view-cross-section':
+                moveCamera('cross-section')
+                return true
+            case 'view-operator':
+                moveCamera('operator')
+                return true
+            case 'tip-view':
+                if (!aids.tipView) return false
+                setTipView((on) => !on)
+                return true
+        }
+    }, [
+        replay, mode, phase, needlePose, outerOffset, innerOffset, lengthScale, catheterUnlocked, styletUnlocked, needleUnlocked,
+        moveNeedle, handleAngleChange, handleYawChange, handleRollChange, handleOuterChange, handleInnerChange, handleNeedleMode, handleReset,
+        moveCamera, veinYaw, aids,
+    ])
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            const action = keyboardAction(e)
+            if (action && handleKeyAction(action)) e.preventDefault()
+        }
+        window.addEventListener('keydown', onKeyDown)
+        return () => window.removeEventListener('keydown', onKeyDown)
+    }, [handleKeyAction])
+
     return (
-        <div className="w-full h-full relative overflow-hidden bg-gradient-to-br from-slate-950 via-slate-900 to-gray-900">
-            {/* ===== ヘッダー ===== */}
-            <div className="absolute top-0 left-0 right-0 z-10 pointer-events-none">
-                <div className="bg-gradient-to-b from-black/70 via-black/30 to-transparent pt-3 pb-6 px-4">
-                    <h1 className="text-white text-lg font-bold tracking-[0.15em] text-center drop-shadow-lg"
-                        style={{ fontFamily: "'Noto Sans JP', sans-serif" }}>
-                        留置針穿刺シミュレーター
-                    </h1>
-                    <p className="text-blue-300/60 text-[11px] text-center mt-0.5 tracking-wider">
-                        TERUMO SURFLO® — IV Catheter Insertion Simulator
-                    </p>
+        <I18nContext.Provider value={messages}>
+            <div className="w-full h-full relative overflow-hidden bg-gradient-to-br from-slate-950 via-slate-900 to-gray-900">
+                {/* ===== ヘッダー ===== */}
+                <div className="absolute top-0 left-0 right-0 z-10 pointer-events-none">
+                    <div className="bg-gradient-to-b from-black/70 via-black/30 to-transparent pt-3 pb-6 px-4">
+                        <h1 className="text-white text-lg font-bold tracking-[0.15em] text-center drop-shadow-lg"
+                            style={{ fontFamily: "'Noto Sans JP', sans-serif" }}>
+                            {messages.app.title}
+                        </h1>
+                        <p className="text-blue-300/60 text-[11px] text-center mt-0.5 tracking-wider">
+                            {messages.app.subtitle}
+                        </p>
+                    </div>
                 </div>
-            </div>
 
-            {/* ===== 操作ガイド（穿刺前表示） ===== */}
-            {phase === 'pre-puncture' && (
-                <div className="absolute top-20 left-0 right-0 z-10 pointer-events-none">
-                    <div className="text-center">
-                        <div className="inline-flex items-center gap-2.5 bg-white/5 border border-white/10 rounded-2xl px-4 py-2 backdrop-blur-md shadow-lg">
-                            <div className="w-7 h-7 flex items-center justify-center rounded-full bg-white/10">
-                                <svg className="w-3.5 h-3.5 text-blue-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                                    <path strokeLinecap="round" strokeLinejoin="round" d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" />
-                                </svg>
+                {/* ===== チュートリアルの手順案内 ===== */}
+                {training === 'tutorial' && !replay && !isFailurePhase(phase) && (
+                    <TutorialCard step={tutorialStep} />
+                )}
+
+                {/* ===== 操作ガイド（穿刺前表示） ===== */}
+                {training !== 'tutorial' && phase === 'pre-puncture' && !replay && (
+                    <div className="absolute top-20 left-0 right-0 z-10 pointer-events-none">
+                        <div className="text-center">
+                            <div className="inline-flex items-center gap-2.5 bg-white/5 border border-white/10 rounded-2xl px-4 py-2 backdrop-blur-md shadow-lg">
+                                <div className="w-7 h-7 flex items-center justify-center rounded-full bg-white/10">
+                                    <svg className="w-3.5 h-3.5 text-blue-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" />
+                                    </svg>
+                                </div>
+                                <span className="text-white/60 text-xs">
+                                    {mode === 'camera' ? messages.guide.camera : messages.guide.needle}
+                                </span>
                             </div>
-                            <span className="text-white/60 text-xs">
-                                {mode === 'camera'
-                                    ? 'ドラッグで回転 ・ ピンチ/ホイールでズーム ・ アングルを決めて穿刺モードへ'
-                                    : 'ドラッグで移動 ・ ピンチ/ホイールで奥行き ・ 右下の断面図で位置確認'
-                                }
-                            </span>
                         </div>
                     </div>
-                </div>
-            )}
-
-            {/* ===== 右側コントロールパネル ===== */}
-            <div
-                className="absolute top-1/2 right-3 -translate-y-1/2 z-30 flex flex-col items-center gap-3"
-                onPointerEnter={() => { isOverUI.current = true }}
-                onPointerLeave={() => { isOverUI.current = false }}
-            >
-                {/* モード切替ボタン */}
-                <div className="flex flex-col items-center gap-2 bg-black/70 backdrop-blur-md rounded-2xl px-3 py-3 border border-white/20 pointer-events-auto shadow-xl">
-                    <button
-                        onClick={() => setMode('camera')}
-                        className={`w-20 py-2.5 rounded-xl text-xs font-bold transition-all ${mode === 'camera'
-                            ? 'bg-blue-500/50 text-white border-2 border-blue-400/60 shadow-lg shadow-blue-500/20'
-                            : 'bg-white/10 text-white/50 border-2 border-transparent hover:bg-white/15'
-                            }`}
-                    >
-                        カメラ
-                    </button>
-                    <button
-                        onClick={() => setMode('needle')}
-                        className={`w-20 py-2.5 rounded-xl text-xs font-bold transition-all ${mode === 'needle'
-                            ? 'bg-emerald-500/50 text-white border-2 border-emerald-400/60 shadow-lg shadow-emerald-500/20'
-                            : 'bg-white/10 text-white/50 border-2 border-transparent hover:bg-white/15'
-                            }`}
-                    >
-                        穿刺
-                    </button>
-                </div>
+                )}
+
+                {/* ===== 音と振動の設定 ===== */}
+                <SoundControls settings={feedback} onChange={setFeedback} />
+
+                {/* ===== 表示言語 ===== */}
+                <LanguagePicker locale={locale} onChange={setLocale} />
+
+                {/* ===== キーボード操作の一覧 ===== */}
+                <KeyboardHelp open={keyboardHelp} onToggle={() => setKeyboardHelp((open) => !open)} />
+
+                {/* ===== シナリオ ===== */}
+                {!replay && (
+                    <ScenarioPicker
+                        scenario={scenario}
+                        locale={locale}
+                        open={scenarioOpen}
+                        onToggle={() => setScenarioOpen((open) => !open)}
+                        onChange={handleScenarioChange}
+                    />
+                )}
+
+                {/* ===== 共有リンク ===== */}
+                {!replay && (
+                    <ShareLink error={linkError} onShare={handleShare} onDismiss={() => setLinkError(null)} />
+                )}
+
+                {/* ===== 学習の記録 ===== */}
+                <HistoryDashboard
+                    records={history}
+                    stored={historyStored}
+                    open={historyOpen}
+                    onToggle={() => setHistoryOpen((open) => !open)}
+                    onClear={handleHistoryClear}
+                />
+
+                {/* ===== スクリーンリーダー向けの読み上げ ===== */}
+                {!replay && (
+                    <LiveAnnouncer
+                        phase={phase}
+                        tissue={tissue}
+                        catheterBlock={catheterBlock}
+                        lineConnected={isStepDone(procedure, 'line-connection')}
+                    />
+                )}
+
+                {/* ===== 練習の形式（チュートリアル・練習・試験） ===== */}
+                {!replay && (
+                    <TrainingModePicker
+                        training={training}
+                        timed={timed}
+                        examStartedAt={examStartedAt}
+                        examRunning={examRunning}
+                        timeLimit={examTimeLimit}
+                        examResults={examResults}
+                        onChange={handleTrainingChange}
+                    />
+                )}
+
+                {/* ===== 穿刺部位の選択（穿刺前、部位を決定するまで。シナリオでは部位が決まっている） ===== */}
+                {phase === 'pre-puncture' && !replay && setupUnlocked && !scenario && !isStepDone(procedure, 'site-selection') && (
+                    <SitePicker site={site} onChange={handleSiteChange} />
+                )}
+
+                {/* ===== 患者プロファイルの選択（穿刺前、シナリオを使わない時） ===== */}
+                {phase === 'pre-puncture' && !replay && setupUnlocked && !scenario && (
+                    <PatientPicker patient={patient} onChange={handlePatientChange} />
+                )}
+
+                {/* ===== 留置針ゲージの選択（穿刺前、シナリオでゲージが決まっていない時） ===== */}
+                {phase === 'pre-puncture' && !replay && setupUnlocked && !scenario?.gauge && (
+                    <GaugePicker gauge={gauge} onChange={handleGaugeChange} />
+                )}
+
+                {/* ===== 手技全体の手順 ===== */}
+                {!replay && !procedureComplete && (
+                    <ProcedureBar
+                        procedure={procedure}
+                        phase={phase}
+                        now={now}
+                        allowedActions={allowedProcedureActions(training, tutorialStep)}
+                        onAction={handleProcedureAction}
+                    />
+                )}
 
-                {/* 針角度コントロール（穿刺モード時のみ） */}
-                {mode === 'needle' && phase === 'pre-puncture' && (
-                    <div className="flex flex-col items-center gap-1 bg-black/50 backdrop-blur-md rounded-2xl px-3 py-3 border border-white/10 pointer-events-auto">
-                        <span className="text-[9px] text-white/50 font-medium tracking-wider mb-1">穿刺角度</span>
-                        <button
-                            onClick={(e) => { e.stopPropagation(); setNeedleAngle((a) => Math.min(45, a + 5)) }}
-                            className="w-8 h-8 rounded-full bg-yellow-500/20 hover:bg-yellow-500/30 flex items-center justify-center transition-colors active:scale-90 border border-yellow-500/20"
+                {/* ===== 右側コントロールパネル ===== */}
+                {!replay && (
+                    <div
+                        className="absolute top-1/2 right-3 -translate-y-1/2 z-30 flex flex-col items-center gap-3"
+                        onPointerEnter={() => { isOverUI.current = true }}
+                        onPointerLeave={() => { isOverUI.current = false }}
+                    >
+                        {/* モード切替ボタン */}
+                        <div
+                            role="group"
+                            aria-label={controls.modes}
+                            className="flex flex-col items-center gap-2 bg-black/70 backdrop-blur-md rounded-2xl px-3 py-3 border border-white/20 pointer-events-auto shadow-xl"
                         >
-                            <svg className="w-4 h-4 text-yellow-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
-                            </svg>
-                        </button>
-                        <div className="my-1 px-2 py-1 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
-                            <span className="text-sm text-yellow-300 font-mono font-bold">{needleAngle}°</span>
+                            <button
+                                onClick={() => setMode('camera')}
+                                aria-pressed={mode === 'camera'}
+                                aria-keyshortcuts={KEY_BINDINGS['toggle-mode'].label}
+                                className={`w-20 py-2.5 rounded-xl text-xs font-bold transition-all ${mode === 'camera'
+                                    ? 'bg-blue-500/50 text-white border-2 border-blue-400/60 shadow-lg shadow-blue-500/20'
+                                    : 'bg-white/10 text-white/50 border-2 border-transparent hover:bg-white/15'
+                                    }`}
+                            >
+                                {controls.camera}
+                            </button>
+                            <button
+                                onClick={handleNeedleMode}
+                                disabled={!needleUnlocked}
+                                aria-pressed={mode === 'needle'}
+                                aria-keyshortcuts={KEY_BINDINGS['toggle-mode'].label}
+                                className={`w-20 py-2.5 rounded-xl text-xs font-bold transition-all ${mode === 'needle'
+                                    ? 'bg-emerald-500/50 text-white border-2 border-emerald-400/60 shadow-lg shadow-emerald-500/20'
+                                    : needleUnlocked
+                                        ? 'bg-white/10 text-white/50 border-2 border-transparent hover:bg-white/15'
+                                        : 'bg-white/5 text-white/20 border-2 border-transparent'
+                                    }`}
+                            >
+                                {controls.needle}
+                            </button>
                         </div>
-                        <button
-                            onClick={(e) => { e.stopPropagation(); setNeedleAngle((a) => Math.max(5, a - 5)) }}
-                            className="w-8 h-8 rounded-full bg-yellow-500/20 hover:bg-yellow-500/30 flex items-center justify-center transition-colors active:scale-90 border border-yellow-500/20"
+
+                        {/* 視点プリセットと針先の小窓 */}
+                        <div
+                            role="group"
+                            aria-label={controls.views}
+                            className="flex flex-col items-center gap-1.5 bg-black/50 backdrop-blur-md rounded-2xl px-2 py-2 border border-white/10 pointer-events-auto"
                         >
-                            <svg className="w-4 h-4 text-yellow-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
-                            </svg>
-                        </button>
+                            {CAMERA_PRESETS.map((preset) => (
+                                <button
+                                    key={preset}
+                                    onClick={() => moveCamera(preset)}
+                                    aria-label={controls.presetLabels[preset]}
+                                    aria-keyshortcuts={KEY_BINDINGS[PRESET_KEYS[preset]].label}
+                                    title={controls.presetLabels[preset]}
+                                    className="w-[5.5rem] py-1.5 rounded-lg text-[10px] text-white/60 bg-white/5 hover:bg-white/15 transition-colors"
+                                >
+                                    {controls.presets[preset]}
+                                </button>
+                            ))}
+                            {aids.tipView && (
+                                <button
+                                    onClick={() => setTipView((on) => !on)}
+                                    aria-pressed={tipView}
+                                    aria-label={controls.tipViewLabel}
+                                    aria-keyshortcuts={KEY_BINDINGS['tip-view'].label}
+                                    title={controls.tipViewLabel}
+                                    className={`w-[5.5rem] py-1.5 rounded-lg text-[10px] font-bold transition-colors border ${tipView
+                                        ? 'bg-cyan-500/40 text-white border-cyan-400/60'
+                                        : 'bg-white/5 text-white/50 border-transparent hover:bg-white/15'
+                                        }`}
+                                >
+                                    {controls.tipView}
+                                </button>
+                            )}
+                        </div>
+
+                        {/* 皮膚の伸展（穿刺部位の末梢側を引いて静脈を固定する） */}
+                        {(phase === 'pre-puncture' || phase === 'punctured') && needleUnlocked && (
+                            <button
+                                onClick={() => setTraction((t) => !t)}
+                                aria-pressed={traction}
+                                className={`w-[6.5rem] py-2 rounded-xl text-[10px] font-bold transition-all border pointer-events-auto backdrop-blur-md ${traction
+                                    ? 'bg-amber-500/40 text-white border-amber-400/60 shadow-lg shadow-amber-500/20'
+                                    : 'bg-black/50 text-white/50 border-white/10 hover:bg-white/10'
+                                    }`}
+                            >
+                                {controls.traction(traction)}
+                            </button>
+                        )}
+
+                        {/* エコーガイド（穿刺部位に超音波プローブを当てる） */}
+                        {(phase === 'pre-puncture' || phase === 'punctured') && needleUnlocked && aids.ultrasound && (
+                            <button
+                                onClick={() => setProbe((p) => (p ? null : probeFor(site)))}
+                                aria-pressed={probe !== null}
+                                className={`w-[6.5rem] py-2 rounded-xl text-[10px] font-bold transition-all border pointer-events-auto backdrop-blur-md ${probe
+                                    ? 'bg-sky-500/40 text-white border-sky-400/60 shadow-lg shadow-sky-500/20'
+                                    : 'bg-black/50 text-white/50 border-white/10 hover:bg-white/10'
+                                    }`}
+                            >
+                                {controls.echo(probe !== null)}
+                            </button>
+                        )}
+
+                        {/* 針角度コントロール（穿刺モード時のみ） */}
+                        {mode === 'needle' && (phase === 'pre-puncture' || phase === 'punctured') && (
+                            <div className="flex flex-col items-center gap-1 bg-black/50 backdrop-blur-md rounded-2xl px-3 py-3 border border-white/10 pointer-events-auto">
+                                <span className="text-[9px] text-white/50 font-medium tracking-wider mb-1">{controls.angle}</span>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); handleAngleChange(NEEDLE_ANGLE_STEP) }}
+                                    aria-label={controls.angleUp}
+                                    aria-keyshortcuts={KEY_BINDINGS['angle-up'].label}
+                                    className="w-8 h-8 rounded-full bg-yellow-500/20 hover:bg-yellow-500/30 flex items-center justify-center transition-colors active:scale-90 border border-yellow-500/20"
+                                >
+                                    <svg className="w-4 h-4 text-yellow-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
+                                    </svg>
+                                </button>
+                                <div className="my-1 px-2 py-1 rounded-lg bg-yellow-500/10 border border-yellow-500/30" aria-live="polite">
+                                    <span className="text-sm text-yellow-300 font-mono font-bold">{needlePose.angle}°</span>
+                                </div>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); handleAngleChange(-NEEDLE_ANGLE_STEP) }}
+                                    aria-label={controls.angleDown}
+                                    aria-keyshortcuts={KEY_BINDINGS['angle-down'].label}
+                                    className="w-8 h-8 rounded-full bg-yellow-500/20 hover:bg-yellow-500/30 flex items-center justify-center transition-colors active:scale-90 border border-yellow-500/20"
+                                >
+                                    <svg className="w-4 h-4 text-yellow-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                                    </svg>
+                                </button>
+                            </div>
+                        )}
+
+                        {/* 振り角・刃面の向きコントロール（穿刺モード時のみ） */}
+                        {mode === 'needle' && (phase === 'pre-puncture' || phase === 'punctured') && (
+                            <div className="flex flex-col items-center gap-1.5 bg-black/50 backdrop-blur-md rounded-2xl px-2 py-2.5 border border-white/10 pointer-events-auto">
+                                <span className="text-[9px] text-white/50 font-medium tracking-wider">{controls.yaw}</span>
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleYawChange(-NEEDLE_YAW_STEP) }}
+                                        aria-label={controls.yawLeft}
+                                        aria-keyshortcuts={KEY_BINDINGS['yaw-left'].label}
+                                        className="w-6 h-6 rounded-full bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 text-xs transition-colors active:scale-90 border border-cyan-500/20"
+                                    >
+                                        ‹
+                                    </button>
+                                    <span className="w-9 text-center text-xs text-cyan-300 font-mono font-bold" aria-live="polite">{needlePose.yaw}°</span>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleYawChange(NEEDLE_YAW_STEP) }}
+                                        aria-label={controls.yawRight}
+                                        aria-keyshortcuts={KEY_BINDINGS['yaw-right'].label}
+                                        className="w-6 h-6 rounded-full bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 text-xs transition-colors active:scale-90 border border-cyan-500/20"
+                                    >
+                                        ›
+                                    </button>
+                                </div>
+                                <span className="text-[9px] text-white/50 font-medium tracking-wider mt-1">{controls.bevel}</span>
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleRollChange(-NEEDLE_ROLL_STEP) }}
+                                        aria-label={controls.rollLeft}
+                                        aria-keyshortcuts={KEY_BINDINGS['roll-left'].label}
+                                        className="w-6 h-6 rounded-full bg-fuchsia-500/20 hover:bg-fuchsia-500/30 text-fuchsia-300 text-xs transition-colors active:scale-90 border border-fuchsia-500/20"
+                                    >
+                                        ⟲
+                                    </button>
+                                    <span className={`w-9 text-center text-xs font-mono font-bold ${isBevelDown(needlePose) ? 'text-red-300' : 'text-fuchsia-300'}`}>
+                                        {needlePose.roll}°
+                                    </span>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleRollChange(NEEDLE_ROLL_STEP) }}
+                                        aria-label={controls.rollRight}
+                                        aria-keyshortcuts={KEY_BINDINGS['roll-right'].label}
+                                        className="w-6 h-6 rounded-full bg-fuchsia-500/20 hover:bg-fuchsia-500/30 text-fuchsia-300 text-xs transition-colors active:scale-90 border border-fuchsia-500/20"
+                                    >
+                                        ⟳
+                                    </button>
+                                </div>
+                                <span className={`text-[9px] ${isBevelDown(needlePose) ? 'text-red-300' : 'text-white/40'}`} aria-live="polite">
+                                    {bevelDeviation(needlePose) === 0 ? controls.bevelUp : isBevelDown(needlePose) ? controls.bevelDown : controls.bevelTilted}
+                                </span>
+                            </div>
+                        )}
                     </div>
                 )}
-            </div>
 
-            {/* ===== 3Dキャンバス ===== */}
-            <div
-                className="w-full h-full touch-none"
-                onPointerDown={handlePointerDown}
-                onPointerMove={handlePointerMove}
-                onPointerUp={handlePointerUp}
-                onPointerLeave={handlePointerUp}
-                onWheel={handleWheel}
-                onTouchStart={handleTouchStart}
-                onTouchMove={handleTouchMove}
-                onTouchEnd={handleTouchEnd}
-            >
-                <Canvas
-                    shadows
-                    camera={{
-                        fov: 45,
-                        near: 0.05,
-                        far: 100,
-                        position: [7, 0.3, 1.2],
-                    }}
-                    gl={{
-                        antialias: true,
-                        toneMapping: THREE.ACESFilmicToneMapping,
-                        toneMappingExposure: 1.1,
-                    }}
-                    dpr={[1, 2]}
+                {/* ===== 3Dキャンバス ===== */}
+                <div
+                    className="w-full h-full touch-none"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={handlePointerUp}
+                    onWheel={handleWheel}
+                    onTouchStart={handleTouchStart}
+                    onTouchMove={handleTouchMove}
+                    onTouchEnd={handleTouchEnd}
                 >
-                    <SimulatorScene
-                        needlePos={needlePos}
-                        needleRot={needleRot}
-                        innerOffset={innerOffset}
-                        outerOffset={outerOffset}
-                        phase={phase}
-                        mode={mode}
-                        cameraRef={cameraRef}
-                        controlsRef={controlsRef}
-                        onPuncture={handlePuncture}
-                    />
-                </Canvas>
-            </div>
+                    <Canvas
+                        shadows
+                        camera={{
+                            fov: 45,
+                            near: 0.05,
+                            far: 100,
+                            position: cameraPositionFor(site, patient).toArray(),
+                        }}
+                        gl={{
+                            antialias: true,
+                            toneMapping: THREE.ACESFilmicToneMapping,
+                            toneMappingExposure: 1.1,
+                        }}
+                        dpr={[1, 2]}
+                    >
+                        <SimulatorScene
+                            needlePos={viewNeedlePos}
+                            needleRot={needleRot}
+                            innerOffset={viewInnerOffset}
+                            outerOffset={viewOuterOffset}
+                            phase={viewPhase}
+                            mode={mode}
+                            site={site}
+                            patient={patient}
+                            gauge={viewGauge}
+                            tourniquet={!replay && isTourniquetOn(procedure)}
+                            engorgement={viewEngorgement}
+                            traction={!replay && traction}
+                            probe={replay ? null : probe}
+                            aids={aids}
+                            cameraRef={cameraRef}
+                            controlsRef={controlsRef}
+                            skinEntryRef={skinEntryRef}
+                            sectionProbeRef={sectionProbeRef}
+                            catheterRef={catheterRef}
+                            onSkinEntryChange={handleSkinEntryChange}
+                            onTissueChange={handleTissueChange}
+                            onCameraGrab={handleCameraGrab}
+                        />
+                        {replay ? (
+                            <ReplayDriver
+                                frame={replayFrame}
+                                playing={replay.playing}
+                                speed={replay.speed}
+                                controlsRef={controlsRef}
+                                onTick={handleReplayTick}
+                            />
+                        ) : (
+                            <>
+                                <AttemptRecorder
+                                    recording={recordingRef.current}
+                                    attemptLog={attemptLog}
+                                    needlePos={needlePos}
+                                    needlePose={needlePose}
+                                    innerOffset={innerOffset}
+                                    outerOffset={outerOffset}
+                                    phase={phase}
+                                    engorgement={engorgement}
+                                    controlsRef={controlsRef}
+                                />
+                                <CameraAnimator moveRef={cameraMoveRef} controlsRef={controlsRef} />
+                            </>
+                        )}
+                        {tipView && aids.tipView && (
+                            <NeedleTipView needlePos={viewNeedlePos} needleRot={needleRot} innerOffset={viewInnerOffset} />
+                        )}
+                    </Canvas>
+                </div>
 
-            {/* ===== 「針を進める」ボタン（穿刺モード・左側） ===== */}
-            {mode === 'needle' && phase === 'pre-puncture' && (
-                <div className="absolute left-3 top-1/2 -translate-y-1/2 z-30 pointer-events-auto">
+                {/* ===== 針先を追う小窓の枠（中身は NeedleTipView が Canvas に描く） ===== */}
+                {tipView && aids.tipView && (
                     <div
-                        className="flex flex-col items-center gap-2 select-none touch-none cursor-grab active:cursor-grabbing"
-                        onPointerDown={handleAdvanceDown}
-                        onPointerMove={handleAdvanceMove}
-                        onPointerUp={handleAdvanceUp}
-                        onPointerLeave={handleAdvanceUp}
+                        role="img"
+                        aria-label={controls.tipViewLabel}
+                        className="absolute z-[6] pointer-events-none rounded-lg border border-cyan-400/50 shadow-xl"
+                        style={{ right: TIP_VIEW_RECT.right, top: TIP_VIEW_RECT.top, width: TIP_VIEW_RECT.width, height: TIP_VIEW_RECT.height }}
                     >
-                        {/* 上矢印（進行方向） */}
-                        <svg className="w-4 h-4 text-white/40" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
-                        </svg>
-
-                        {/* ボタン本体 */}
-                        <div className="w-14 h-24 rounded-2xl bg-emerald-500/30 border-2 border-emerald-400/50 backdrop-blur-md flex flex-col items-center justify-center gap-1 shadow-lg shadow-emerald-500/10">
-                            <svg className="w-5 h-5 text-emerald-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                                <path strokeLinecap="round" strokeLinejoin="round" d="M12 19V5m0 0l-4 4m4-4l4 4" />
+                        <span className="absolute top-1 left-1.5 text-[9px] text-cyan-200/80">{controls.tipView}</span>
+                    </div>
+                )}
+
+                {/* ===== 「針を進める」ボタン（穿刺モード・左側） ===== */}
+                {mode === 'needle' && (phase === 'pre-puncture' || phase === 'punctured') && (
+                    <div className="absolute left-3 top-1/2 -translate-y-1/2 z-30 pointer-events-auto">
+                        <div
+                            className="flex flex-col items-center gap-2 select-none touch-none cursor-grab active:cursor-grabbing"
+                            role="group"
+                            aria-label={controls.advancePad}
+                            aria-keyshortcuts={`${KEY_BINDINGS['advance'].label} ${KEY_BINDINGS['retract'].label}`}
+                            onPointerDown={handleAdvanceDown}
+                            onPointerMove={handleAdvanceMove}
+                            onPointerUp={handleAdvanceUp}
+                            onPointerLeave={handleAdvanceUp}
+                        >
+                            {/* 上矢印（進行方向） */}
+                            <svg className="w-4 h-4 text-white/40" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
+                            </svg>
+
+                            {/* ボタン本体 */}
+                            <div className="w-14 h-24 rounded-2xl bg-emerald-500/30 border-2 border-emerald-400/50 backdrop-blur-md flex flex-col items-center justify-center gap-1 shadow-lg shadow-emerald-500/10">
+                                <svg className="w-5 h-5 text-emerald-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 19V5m0 0l-4 4m4-4l4 4" />
+                                </svg>
+                                <span className="text-[9px] text-emerald-200 font-bold leading-tight text-center whitespace-pre-line">{controls.advanceNeedle}</span>
+                            </div>
+
+                            {/* 下矢印（後退方向） */}
+                            <svg className="w-4 h-4 text-white/40" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
                             </svg>
-                            <span className="text-[9px] text-emerald-200 font-bold leading-tight text-center">針を<br />進める</span>
+
+                            <span className="text-[8px] text-white/30 mt-1">{controls.dragHint}</span>
                         </div>
+                    </div>
+                )}
 
-                        {/* 下矢印（後退方向） */}
-                        <svg className="w-4 h-4 text-white/40" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
-                        </svg>
+                {/* ===== エコーの Bモード画像とプローブ操作 ===== */}
+                {probe && aids.ultrasound && !isFailurePhase(phase) && !procedureComplete && (
+                    <div className={`absolute left-3 z-20 ${phase === 'pre-puncture' ? 'bottom-24' : 'bottom-52'}`}>
+                        <UltrasoundPanel
+                            probe={probe}
+                            site={site}
+                            sectionRef={sectionProbeRef}
+                            onChange={setProbe}
+                            onClose={() => setProbe(null)}
+                        />
+                    </div>
+                )}
 
-                        <span className="text-[8px] text-white/30 mt-1">ドラッグ↑↓</span>
+                {/* ===== 断面図・縦断図（穿刺モード時、穿刺後も表示し続ける。試験では表示しない） ===== */}
+                {aids.sectionViews && (mode === 'needle' || phase !== 'pre-puncture') && !isFailurePhase(phase) && !procedureComplete && (
+                    <div className={`absolute right-3 z-20 ${phase === 'pre-puncture' ? 'bottom-24' : 'bottom-52'}`}>
+                        <SectionViews probeRef={sectionProbeRef} tissue={tissue} />
                     </div>
-                </div>
-            )}
+                )}
 
-            {/* ===== 2Dクロスセクション・ミニマップ（穿刺モード時） ===== */}
-            {mode === 'needle' && phase === 'pre-puncture' && (
-                <CrossSectionMinimap needleZ={needlePos.z} needleY={needlePos.y} />
-            )}
+                {/* ===== スライダーUI（穿刺後） ===== */}
+                {!replay && (
+                    <SliderControls
+                        phase={phase}
+                        tissue={tissue}
+                        gauge={gauge}
+                        lineConnected={isStepDone(procedure, 'line-connection')}
+                        innerOffset={innerOffset}
+                        outerOffset={outerOffset}
+                        catheterBlock={catheterBlock}
+                        catheterLocked={!isControlUnlocked(training, tutorialStep, 'catheter')}
+                        styletLocked={!isControlUnlocked(training, tutorialStep, 'stylet')}
+                        onInnerChange={handleInnerChange}
+                        onOuterChange={handleOuterChange}
+                        onReset={handleReset}
+                    />
+                )}
 
-            {/* ===== スライダーUI（穿刺後） ===== */}
-            <SliderControls
-                phase={phase}
-                innerOffset={innerOffset}
-                outerOffset={outerOffset}
-                onInnerChange={handleInnerChange}
-                onOuterChange={handleOuterChange}
-                onReset={handleReset}
-            />
+                {/* ===== リプレイのタイムライン ===== */}
+                {replay && replayFrame && (
+                    <ReplayControls
+                        time={replay.time}
+                        duration={recordingDuration(replay.recording)}
+                        playing={replay.playing}
+                        speed={replay.speed}
+                        phase={replayFrame.phase}
+                        markers={replayMarkers}
+                        onPlayPause={handleReplayPlayPause}
+                        onSeek={handleReplaySeek}
+                        onSpeedChange={handleReplaySpeed}
+                        onExit={handleReplayExit}
+                    />
+                )}
 
-            {/* ===== フラッシュバック演出 ===== */}
-            {phase === 'punctured' && (
-                <div className="absolute inset-0 z-[5] pointer-events-none">
-                    <div className="w-full h-full bg-red-600/8 animate-pulse" />
-                </div>
-            )}
-
-            {/* ===== 完了エフェクト ===== */}
-            {phase === 'completed' && (
-                <div className="absolute inset-0 z-[5] pointer-events-none flex items-center justify-center">
-                    <div className="text-center animate-bounce">
-                        <div className="text-6xl mb-4">✅</div>
-                        <div className="text-white text-xl font-bold tracking-wider drop-shadow-lg">留置完了！</div>
-                        <div className="text-green-300/60 text-sm mt-2">外筒が血管内に正しく留置されました</div>
+                {/* ===== フラッシュバック演出 ===== */}
+                {viewPhase === 'punctured' && (
+                    <div className="absolute inset-0 z-[5] pointer-events-none">
+                        <div className="w-full h-full bg-red-600/8 animate-pulse" />
                     </div>
-                </div>
-            )}
-        </div>
+                )}
+
+                {/* ===== 完了（ライン接続まで）：採点結果と手順チェックリストのデブリーフィング ===== */}
+                {procedureComplete && report && !replay && (
+                    <DebriefReport
+                        report={report}
+                        checklist={procedureChecklist(procedure)}
+                        exam={examResult}
+                        onReset={handleReset}
+                        onReplay={handleReplayStart}
+                    />
+                )}
+
+                {/* ===== 失敗時のデブリーフィング ===== */}
+                {isFailurePhase(phase) && !replay && (
+                    <FailureOverlay phase={phase} exam={examResult} onReset={handleReset} onReplay={handleReplayStart} />
+                )}
+            </div>
+        </I18nContext.Provider>
     )
 }
 
@@ -1,16 +1,48 @@
-import { useMemo } from 'react'
+import { useEffect, useMemo, useRef, type Ref } from 'react'
+import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
+import type { Phase } from '../types'
+import {
+    ARM_LENGTH,
+    ARM_POSITION,
+    ARM_ROTATION,
+    FIST_CENTER_Y,
+    armCrossSection,
+    createVeinCurve,
+    fistRadii,
+    pointBelowSkin,
+    type ArmShape,
+} from '../lib/anatomy'
+import { siteTargetLocal, siteVeinPath, siteVeinRadius, type PunctureSite } from '../lib/sites'
+import type { PatientProfile } from '../lib/patients'
+import { TOURNIQUET_WIDTH, TOURNIQUET_Y, engorgedRadius } from '../lib/tourniquet'
+import { deformOffset, type VeinDeformation } from '../lib/veinMechanics'
+import { tentDisplacement, type SkinTent } from '../lib/skinTenting'
+import { IMAGE_DEPTH, PROBE_WIDTH, type UltrasoundProbe } from '../lib/ultrasound'
 
-type Phase = 'pre-puncture' | 'punctured' | 'advancing' | 'completed'
+interface ArmProps {
+    phase: Phase
+    site: PunctureSite
+    patient: PatientProfile
+    tourniquet: boolean   // 駆血帯を巻いているか
+    engorgement: number   // 静脈の怒張の度合い（0〜1）
+    deformation: VeinDeformation  // 針の接触による静脈の変形（毎フレーム更新される）
+    skinTent: SkinTent    // 刺入点の皮膚のテンティング（毎フレーム更新される）
+    traction: boolean     // 皮膚を伸展（トラクション）しているか
+    skinRef?: Ref<THREE.Group>  // 皮膚メッシュ（前腕と拳）のグループ（刺入点の検出に使う）
+    probe: UltrasoundProbe | null  // 当てている超音波プローブ
+    showGuide: boolean      // 穿刺ターゲットのガイドリングを表示するか
+    seeThroughSkin: boolean // 皮膚を半透明にして血管を透かすか（試験では不透明）
+}
 
 /**
  * 人間の腕（肘上〜拳）の3Dモデル
  * 解剖学的な前腕形状＋拳を含むリアルなモデル
  */
-export default function Arm({ phase }: { phase: Phase }) {
+export default function Arm({ phase, site, patient, tourniquet, engorgement, deformation, skinTent, traction, skinRef, probe, showGuide, seeThroughSkin }: ArmProps) {
     // --- 前腕ジオメトリ（解剖学的な形状） ---
     const armGeometry = useMemo(() => {
-        const length = 14
+        const length = ARM_LENGTH
         const segments = 48
         const lengthSegments = 48
 
@@ -26,65 +58,7 @@ export default function Arm({ phase }: { phase: Phase }) {
             const r = Math.sqrt(x * x + z * z)
             const t = (y + length / 2) / length // 0=手首 ~ 1=肘
 
-            // 非線形テーパー：手首が細く、中間部に筋肉の膨らみ、肘に向かって広がる
-            const wristRadius = 0.45
-            const elbowRadius = 0.95
-            const muscleBulge = Math.sin(t * Math.PI * 0.85) * 0.12
-            const taper = wristRadius + (elbowRadius - wristRadius) * t + muscleBulge
-
-            // 断面形状：前腕の解剖学的断面（やや扁平な楕円＋角度依存の変形）
-            const radiusX = 1.15  // 左右にやや広い
-            const radiusTop = 0.65  // 背側（上面）はやや平ら
-            const radiusBottom = 0.75  // 掌側（下面）はやや丸い
-            const radiusZ = z > 0 ? radiusTop : radiusBottom
-
-            let newX = r * Math.cos(angle) * radiusX * taper
-            let newZ = r * Math.sin(angle) * radiusZ * taper
-
-            // 尺骨茎状突起（手首の骨の出っ張り：ulna styloid）
-            if (t < 0.12) {
-                const boneT = 1 - t / 0.12
-                const boneAngle = Math.PI * 0.3  // 尺側の位置
-                const boneDist = Math.cos(angle - boneAngle)
-                if (boneDist > 0.7) {
-                    const bump = boneDist * 0.06 * boneT * boneT
-                    newX += bump * Math.cos(angle)
-                    newZ += bump * Math.sin(angle)
-                }
-            }
-
-            // 橈骨茎状突起（反対側の手首の骨）
-            if (t < 0.1) {
-                const boneT = 1 - t / 0.1
-                const boneAngle = -Math.PI * 0.3
-                const boneDist = Math.cos(angle - boneAngle)
-                if (boneDist > 0.7) {
-                    const bump = boneDist * 0.05 * boneT * boneT
-                    newX += bump * Math.cos(angle)
-                    newZ += bump * Math.sin(angle)
-                }
-            }
-
-            // 中間部の筋肉（屈筋群・伸筋群）の微細な形状
-            if (t > 0.2 && t < 0.7) {
-                const muscleT = Math.sin((t - 0.2) / 0.5 * Math.PI)
-                // 屈筋（掌側やや尺側）
-                const flexorAngle = Math.PI * 0.7
-                const flexor = Math.max(0, Math.cos(angle - flexorAngle)) * 0.04 * muscleT
-                // 伸筋（背側やや橈側）
-                const extensorAngle = -Math.PI * 0.3
-                const extensor = Math.max(0, Math.cos(angle - extensorAngle)) * 0.03 * muscleT
-                const muscleBump = (flexor + extensor) * taper
-                newX += muscleBump * Math.cos(angle)
-                newZ += muscleBump * Math.sin(angle)
-            }
-
-            // 肘付近の広がり（上腕骨内側上顆・外側上顆）
-            if (t > 0.85) {
-                const elbowT = (t - 0.85) / 0.15
-                const elbowBump = Math.abs(Math.cos(angle)) * 0.08 * elbowT * elbowT
-                newX += elbowBump * Math.cos(angle)
-            }
+            const [newX, newZ] = armCrossSection(angle, t, r, patient.arm)
 
             positions.setX(i, newX)
             positions.setZ(i, newZ)
@@ -92,9 +66,10 @@ export default function Arm({ phase }: { phase: Phase }) {
 
         geometry.computeVertexNormals()
         return geometry
-    }, [])
+    }, [patient.arm])
+    useSkinTentDeformation(armGeometry, skinTent, 0)
 
-    // --- 皮膚マテリアル（断面図で血管が見えるよう半透明ベース） ---
+    // --- 皮膚マテリアル（断面図で血管が見えるよう半透明ベース、透かさない時は不透明） ---
     const isPunctured = phase !== 'pre-puncture'
     const skinMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
         color: 0xf0bc8a,
@@ -104,24 +79,35 @@ export default function Arm({ phase }: { phase: Phase }) {
         clearcoatRoughness: 0.9,
         sheen: 0.3,
         sheenColor: new THREE.Color(0xffccaa),
-        transparent: true,
-        opacity: isPunctured ? 0.3 : 0.65,
-        depthWrite: false,
-    }), [isPunctured])
+        transparent: seeThroughSkin,
+        opacity: seeThroughSkin ? (isPunctured ? 0.3 : 0.65) : 1,
+        depthWrite: !seeThroughSkin,
+    }), [isPunctured, seeThroughSkin])
 
     return (
-        <group rotation={[0, 0, Math.PI / 2]} position={[0, -0.8, 0]}>
-            {/* 前腕本体 */}
-            <mesh geometry={armGeometry} material={skinMaterial} castShadow receiveShadow />
+        <group rotation={ARM_ROTATION} position={ARM_POSITION}>
+            <group ref={skinRef}>
+                {/* 前腕本体 */}
+                <mesh geometry={armGeometry} material={skinMaterial} castShadow receiveShadow />
 
-            {/* 拳（手首の先） */}
-            <Fist skinMaterial={skinMaterial} />
+                {/* 拳（手首の先） */}
+                <Fist skinMaterial={skinMaterial} shape={patient.arm} skinTent={skinTent} />
+            </group>
 
-            {/* 尺側皮静脈 */}
-            <Vein />
+            {/* 選択中の穿刺部位の静脈 */}
+            <Vein site={site} patient={patient} engorgement={engorgement} deformation={deformation} />
 
             {/* 穿刺ターゲットマーカー */}
-            <PunctureGuide />
+            {showGuide && <PunctureGuide site={site} patient={patient} />}
+
+            {/* 駆血帯（上腕） */}
+            {tourniquet && <Tourniquet shape={patient.arm} />}
+
+            {/* 皮膚の伸展（穿刺部位の末梢側を親指で引く） */}
+            {traction && <TractionThumb site={site} patient={patient} />}
+
+            {/* 超音波プローブとビームの断面 */}
+            {probe && <UltrasoundProbeModel probe={probe} shape={patient.arm} />}
         </group>
     )
 }
@@ -129,11 +115,12 @@ export default function Arm({ phase }: { phase: Phase }) {
 /**
  * 拳（グー）のモデル
  */
-function Fist({ skinMaterial }: { skinMaterial: THREE.Material }) {
+function Fist({ skinMaterial, shape, skinTent }: { skinMaterial: THREE.Material; shape: ArmShape; skinTent: SkinTent }) {
     const fistGeometry = useMemo(() => {
         // 拳のベース（楕円球体）
         const geometry = new THREE.SphereGeometry(1, 24, 24)
         const positions = geometry.attributes.position
+        const radii = fistRadii(shape)
 
         for (let i = 0; i < positions.count; i++) {
             let x = positions.getX(i)
@@ -141,9 +128,9 @@ function Fist({ skinMaterial }: { skinMaterial: THREE.Material }) {
             let z = positions.getZ(i)
 
             // 拳の形状に変形：横に広く、前後に潰す
-            x *= 0.5   // 腕方向に短い
-            y *= 0.42   // 上下にやや潰す
-            z *= 0.55   // 左右に広い（ナックル幅）
+            x *= radii[0]   // 腕方向に短い
+            y *= radii[1]   // 上下にやや潰す
+            z *= radii[2]   // 左右に広い（ナックル幅）
 
             // 指の関節のこぶ（上面）
             if (y > 0.1) {
@@ -165,57 +152,183 @@ function Fist({ skinMaterial }: { skinMaterial: THREE.Material }) {
 
         geometry.computeVertexNormals()
         return geometry
-    }, [])
+    }, [shape])
+    useSkinTentDeformation(fistGeometry, skinTent, FIST_CENTER_Y)
 
     return (
-        <group position={[0, -7.8, 0]}>
+        <group position={[0, FIST_CENTER_Y, 0]}>
             <mesh geometry={fistGeometry} material={skinMaterial} castShadow />
         </group>
     )
 }
 
 /**
- * 尺側皮静脈 (Basilic Vein) の3Dモデル
- * Z値は腕の中心寄りに配置（断面図で見やすい位置）
+ * 皮膚のテンティング（刺入点の凹み）を皮膚メッシュの頂点に反映する
+ * offsetY: メッシュの原点の腕ローカルY（拳は腕の先に置いている）
  */
-function Vein() {
-    const veinGeometry = useMemo(() => {
-        // Z値は腕断面の中心寄り（表面Zの約65%）
-        const curve = new THREE.CatmullRomCurve3([
-            new THREE.Vector3(-0.08, -6, 0.20),
-            new THREE.Vector3(-0.05, -4, 0.23),
-            new THREE.Vector3(-0.03, -2, 0.27),
-            new THREE.Vector3(0.0,  -0.5, 0.29),
-            new THREE.Vector3(0.02,  0,   0.30),
-            new THREE.Vector3(0.03,  0.5, 0.31),
-            new THREE.Vector3(0.05,  2,   0.33),
-            new THREE.Vector3(0.08,  3,   0.35),
-            new THREE.Vector3(0.10,  4.5, 0.38),
-            new THREE.Vector3(0.12,  6,   0.40),
-        ])
-        return new THREE.TubeGeometry(curve, 80, 0.08, 12, false)
-    }, [])
+function useSkinTentDeformation(geometry: THREE.BufferGeometry, tent: SkinTent, offsetY: number) {
+    const base = useMemo(() => Float32Array.from(geometry.attributes.position.array), [geometry])
+    const applied = useRef({ geometry, depth: 0, contact: new THREE.Vector3() })
+
+    useFrame(() => {
+        const last = applied.current
+        if (last.geometry === geometry && last.depth === tent.depth && last.contact.equals(tent.contact)) return
+        if (last.geometry === geometry && last.depth === 0 && tent.depth === 0) return
+        applied.current = { geometry, depth: tent.depth, contact: tent.contact.clone() }
 
+        const positions = geometry.attributes.position
+        const point = new THREE.Vector3()
+        for (let i = 0; i < positions.count; i++) {
+            point.set(base[i * 3], base[i * 3 + 1] + offsetY, base[i * 3 + 2])
+            const displacement = tentDisplacement(tent, point)
+            positions.setXYZ(
+                i,
+                base[i * 3] + tent.direction.x * displacement,
+                base[i * 3 + 1] + tent.direction.y * displacement,
+                base[i * 3 + 2] + tent.direction.z * displacement,
+            )
+        }
+        positions.needsUpdate = true
+        geometry.computeVertexNormals()
+    })
+}
+
+/**
+ * 穿刺部位の静脈の3Dモデル
+ * 走行・太さ・深さは部位カタログ（sites.ts）と患者プロファイルから生成
+ */
+function Vein({
+    site,
+    patient,
+    engorgement,
+    deformation,
+}: {
+    site: PunctureSite
+    patient: PatientProfile
+    engorgement: number
+    deformation: VeinDeformation
+}) {
+    const baseRadius = siteVeinRadius(site, patient)
+    const { veinGeometry, rings } = useMemo(() => {
+        const curve = createVeinCurve(siteVeinPath(site, patient))
+        const tubularSegments = 80
+        const radialSegments = 12
+        const geometry = new THREE.TubeGeometry(curve, tubularSegments, baseRadius, radialSegments, false)
+
+        // 各頂点について、中心線上の点と断面の向き（横・外向き・走行方向）を求めておく
+        const positions = geometry.attributes.position
+        const normals = geometry.attributes.normal
+        const centers = new Float32Array(positions.count * 3)
+        const frames = new Float32Array(positions.count * 9)
+        const circle = new Float32Array(positions.count * 3)
+        const center = new THREE.Vector3()
+        const outward = new THREE.Vector3()
+        const lateral = new THREE.Vector3()
+        const normal = new THREE.Vector3()
+        for (let i = 0; i <= tubularSegments; i++) {
+            curve.getPointAt(i / tubularSegments, center)
+            const along = geometry.tangents[i]
+            outward.set(center.x, 0, center.z).normalize()
+            lateral.crossVectors(along, outward).normalize()
+            for (let j = 0; j <= radialSegments; j++) {
+                const v = i * (radialSegments + 1) + j
+                normal.fromBufferAttribute(normals, v)
+                center.toArray(centers, v * 3)
+                lateral.toArray(frames, v * 9)
+                outward.toArray(frames, v * 9 + 3)
+                along.toArray(frames, v * 9 + 6)
+                circle[v * 3] = normal.dot(lateral)
+                circle[v * 3 + 1] = normal.dot(outward)
+                circle[v * 3 + 2] = normal.dot(along)
+            }
+        }
+        return { veinGeometry: geometry, rings: { centers, frames, circle } }
+    }, [site, patient, baseRadius])
+
+    // 駆血による怒張と、針の接触による変形（ローリング・扁平化）を毎フレーム頂点に反映する
+    const applied = useRef({ radius: -1, roll: 0, compression: 0, contactFrom: 0, contactTo: 0 })
+    useEffect(() => {
+        applied.current.radius = -1
+    }, [veinGeometry])
+    useFrame(() => {
+        const radius = engorgedRadius(baseRadius, engorgement)
+        const last = applied.current
+        if (
+            last.radius === radius &&
+            last.roll === deformation.roll &&
+            last.compression === deformation.compression &&
+            last.contactFrom === deformation.contactFrom &&
+            last.contactTo === deformation.contactTo
+        ) return
+        applied.current = {
+            radius,
+            roll: deformation.roll,
+            compression: deformation.compression,
+            contactFrom: deformation.contactFrom,
+            contactTo: deformation.contactTo,
+        }
+
+        const { centers, frames, circle } = rings
+        const positions = veinGeometry.attributes.position
+        for (let v = 0; v < positions.count; v++) {
+            const d = deformOffset(deformation, {
+                y: centers[v * 3 + 1],
+                lateral: circle[v * 3] * radius,
+                outward: circle[v * 3 + 1] * radius,
+                along: circle[v * 3 + 2] * radius,
+            })
+            const f = v * 9
+            positions.setXYZ(
+                v,
+                centers[v * 3] + frames[f] * d.lateral + frames[f + 3] * d.outward + frames[f + 6] * d.along,
+                centers[v * 3 + 1] + frames[f + 1] * d.lateral + frames[f + 4] * d.outward + frames[f + 7] * d.along,
+                centers[v * 3 + 2] + frames[f + 2] * d.lateral + frames[f + 5] * d.outward + frames[f + 8] * d.along,
+            )
+        }
+        positions.needsUpdate = true
+        veinGeometry.computeVertexNormals()
+        veinGeometry.computeBoundingSphere()
+    })
+
+    // 皮下脂肪が厚い・虚脱している患者では血管が見えにくい
     const veinMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
         color: 0xcc2222,
         transparent: true,
-        opacity: 0.85,
+        opacity: patient.veinOpacity,
         roughness: 0.7,
         metalness: 0.0,
         depthWrite: false,
-    }), [])
+    }), [patient.veinOpacity])
 
     return <mesh geometry={veinGeometry} material={veinMaterial} />
 }
 
 /**
  * 穿刺位置のガイドマーカー（うっすら光るリング）
+ * 静脈を取り囲むよう、リングの面を血管の走行方向に向ける
  */
-function PunctureGuide() {
+function PunctureGuide({ site, patient }: { site: PunctureSite; patient: PatientProfile }) {
+    const radius = siteVeinRadius(site, patient)
+    const { position, quaternion } = useMemo(() => {
+        const curve = createVeinCurve(siteVeinPath(site, patient))
+        const target = new THREE.Vector3(...siteTargetLocal(site, patient))
+        // ターゲットに最も近い曲線上の位置の接線
+        const samples = curve.getSpacedPoints(100)
+        let best = 0
+        samples.forEach((p, i) => {
+            if (p.distanceToSquared(target) < samples[best].distanceToSquared(target)) best = i
+        })
+        const tangent = curve.getTangentAt(best / 100)
+        return {
+            position: target,
+            quaternion: new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), tangent),
+        }
+    }, [site, patient])
+
     return (
-        <group position={[0.02, 0, 0.30]}>
-            <mesh rotation={[Math.PI / 2, 0, 0]}>
-                <ringGeometry args={[0.12, 0.16, 32]} />
+        <group position={position} quaternion={quaternion}>
+            <mesh>
+                <ringGeometry args={[radius * 1.5, radius * 2, 32]} />
                 <meshBasicMaterial
                     color={0x66ffaa}
                     transparent
@@ -227,3 +340,96 @@ function PunctureGuide() {
         </group>
     )
 }
+
+/**
+ * 駆血帯（上腕に巻くゴムバンド）
+ * 腕の断面形状に沿ってわずかに外側に巻きつける
+ */
+function Tourniquet({ shape }: { shape: ArmShape }) {
+    const geometry = useMemo(() => {
+        const geometry = new THREE.CylinderGeometry(1, 1, TOURNIQUET_WIDTH, 48, 1, true)
+        const positions = geometry.attributes.position
+        const t = (TOURNIQUET_Y + ARM_LENGTH / 2) / ARM_LENGTH
+
+        for (let i = 0; i < positions.count; i++) {
+            const angle = Math.atan2(positions.getZ(i), positions.getX(i))
+            const [x, z] = armCrossSection(angle, t, 1.03, shape)
+            positions.setX(i, x)
+            positions.setZ(i, z)
+        }
+
+        geometry.computeVertexNormals()
+        return geometry
+    }, [shape])
+
+    return (
+        <mesh geometry={geometry} position={[0, TOURNIQUET_Y, 0]} castShadow>
+            <meshStandardMaterial color={0x2f6fd6} roughness={0.6} side={THREE.DoubleSide} />
+        </mesh>
+    )
+}
+
+/**
+ * 皮膚を伸展する親指（穿刺ターゲットの末梢側の皮膚上に置く）
+ */
+function TractionThumb({ site, patient }: { site: PunctureSite; patient: PatientProfile }) {
+    const { position, quaternion } = useMemo(() => {
+        const { y, angle } = site.target
+        const [x, thumbY, z] = pointBelowSkin(y - 0.9, angle, -0.06, patient.arm)
+        // 親指の腹を皮膚に沿わせる（カプセルの軸を腕の軸方向に）
+        const outward = new THREE.Vector3(x, 0, z).normalize()
+        const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(1, 0, 0), outward)
+        return { position: new THREE.Vector3(x, thumbY, z), quaternion }
+    }, [site, patient])
+
+    return (
+        <mesh position={position} quaternion={quaternion} castShadow>
+            <capsuleGeometry args={[0.09, 0.35, 6, 12]} />
+            <meshStandardMaterial color={0xe8b088} roughness={0.7} />
+        </mesh>
+    )
+}
+
+/**
+ * 超音波プローブ（リニア型）と、画像に写るビームの断面
+ * 探触子の長辺は短軸なら腕の周方向、長軸なら腕の軸方向に向ける
+ */
+function UltrasoundProbeModel({ probe, shape }: { probe: UltrasoundProbe; shape: ArmShape }) {
+    const { position, quaternion } = useMemo(() => {
+        const [x, y, z] = pointBelowSkin(probe.y, probe.angle, 0, shape)
+        const outward = new THREE.Vector3(x, 0, z).normalize()
+        const footprint = probe.view === 'long-axis'
+            ? new THREE.Vector3(0, 1, 0)
+            : new THREE.Vector3(0, 1, 0).cross(outward).normalize()
+        const thickness = new THREE.Vector3().crossVectors(footprint, outward)
+        const quaternion = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(footprint, outward, thickness))
+        return { position: new THREE.Vector3(x, y, z), quaternion }
+    }, [probe.y, probe.angle, probe.view, shape])
+
+    // 押し込むほど探触子が皮膚に沈む
+    const sink = probe.pressure * 0.04
+
+    return (
+        <group position={position} quaternion={quaternion}>
+            {/* 本体とケーブル側 */}
+            <mesh position={[0, 0.28 - sink, 0]} castShadow>
+                <boxGeometry args={[PROBE_WIDTH + 0.06, 0.5, 0.18]} />
+                <meshStandardMaterial color={0x3a4450} roughness={0.5} />
+            </mesh>
+            <mesh position={[0, 0.6 - sink, 0]}>
+                <cylinderGeometry args={[0.04, 0.06, 0.18, 12]} />
+                <meshStandardMaterial color={0x222222} roughness={0.6} />
+            </mesh>
+            {/* 探触子の当たり面 */}
+            <mesh position={[0, 0.015 - sink, 0]}>
+                <boxGeometry args={[PROBE_WIDTH, 0.03, 0.14]} />
+                <meshStandardMaterial color={0x9fb4c8} roughness={0.3} />
+            </mesh>
+            {/* ビームの断面（画像に写る範囲） */}
+            <mesh position={[0, -IMAGE_DEPTH / 2, 0]}>
+                <planeGeometry args={[PROBE_WIDTH, IMAGE_DEPTH]} />
+                <meshBasicMaterial color={0x66ccff} transparent opacity={0.15} side={THREE.DoubleSide} depthWrite={false} />
+            </mesh>
+        </group>
+    )
+}
@@ -0,0 +1,72 @@
+import type { MutableRefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import type { Phase } from '../types'
+import { isFailurePhase } from '../lib/outcomes'
+import { RECORDING_INTERVAL, appendFrame, type Recording } from '../lib/recording'
+import type { AttemptLog } from '../lib/scoring'
+import type { NeedlePose } from '../lib/needlePose'
+
+interface AttemptRecorderProps {
+    recording: Recording
+    attemptLog: MutableRefObject<AttemptLog>
+    needlePos: THREE.Vector3
+    needlePose: NeedlePose
+    innerOffset: number
+    outerOffset: number
+    phase: Phase
+    engorgement: number
+    controlsRef: MutableRefObject<any>
+}
+
+/**
+ * 試行中の針・カメラの状態を一定間隔で記録する（Canvas内に配置）
+ * 記録は試行の開始（穿刺モードに入った時）から始め、それまでのカメラ操作は残さない
+ * フェーズが変わった瞬間は間隔に関係なく記録し、試行の終了で記録を締め切る
+ */
+export default function AttemptRecorder({
+    recording,
+    attemptLog,
+    needlePos,
+    needlePose,
+    innerOffset,
+    outerOffset,
+    phase,
+    engorgement,
+    controlsRef,
+}: AttemptRecorderProps) {
+    useFrame(({ camera }) => {
+        if (recording.finished) return
+        const now = performance.now()
+        const finished = phase === 'completed' || isFailurePhase(phase)
+        if (recording.startedAt === null) {
+            // 穿刺モードに入る前に終わった試行（時間切れなど）は、終わった時点の1フレームだけを残す
+            const startedAt = attemptLog.current.startedAt ?? (finished ? now : null)
+            if (startedAt === null) return
+            recording.startedAt = startedAt
+        }
+
+        const t = now - recording.startedAt
+        const last = recording.frames[recording.frames.length - 1]
+        if (last && t - last.t < RECORDING_INTERVAL && last.phase === phase) return
+
+        const target: THREE.Vector3 = controlsRef.current?.target ?? new THREE.Vector3()
+        appendFrame(recording, {
+            t,
+            needlePos: [needlePos.x, needlePos.y, needlePos.z],
+            needlePose,
+            innerOffset,
+            outerOffset,
+            phase,
+            engorgement,
+            cameraPosition: [camera.position.x, camera.position.y, camera.position.z],
+            cameraTarget: [target.x, target.y, target.z],
+        })
+
+        if (finished) {
+            recording.finished = true
+        }
+    })
+
+    return null
+}
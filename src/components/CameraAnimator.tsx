@@ -0,0 +1,25 @@
+import type { MutableRefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { stepCameraMove, type CameraMove } from '../lib/cameraPresets'
+
+interface CameraAnimatorProps {
+    moveRef: MutableRefObject<CameraMove | null>
+    controlsRef: MutableRefObject<any>
+}
+
+/**
+ * 視点プリセットへの移動を毎フレーム進める（Canvas内に配置）
+ * 移動中に視点をドラッグすると、OrbitControls の onStart で moveRef が空になり移動をやめる
+ */
+export default function CameraAnimator({ moveRef, controlsRef }: CameraAnimatorProps) {
+    useFrame((_, frameDelta) => {
+        const move = moveRef.current
+        const controls = controlsRef.current
+        if (!move || !controls) return
+        if (stepCameraMove(move, Math.min(frameDelta, 0.1), controls.object.position, controls.target)) {
+            moveRef.current = null
+        }
+        controls.update()
+    })
+    return null
+}
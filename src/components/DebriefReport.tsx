@@ -0,0 +1,112 @@
+import type { ScoreReport } from '../lib/scoring'
+import type { ChecklistResult } from '../lib/procedure'
+import { formatExamTime, type ExamResult } from '../lib/training'
+import { useMessages } from '../lib/i18n'
+
+interface DebriefReportProps {
+    report: ScoreReport
+    checklist: ChecklistResult
+    exam: ExamResult | null   // 試験モードで終えた場合の結果
+    onReset: () => void
+    onReplay: () => void
+}
+
+/**
+ * 留置完了後のデブリーフィング画面
+ * 項目ごとの得点内訳と合否、手順チェックリストの結果を表示する
+ */
+export default function DebriefReport({ report, checklist, exam, onReset, onReplay }: DebriefReportProps) {
+    const { debrief, scoring, procedure, training } = useMessages()
+    const accent = report.passed
+        ? { border: 'border-green-400/40', text: 'text-green-300', bar: 'bg-green-400' }
+        : { border: 'border-yellow-400/40', text: 'text-yellow-300', bar: 'bg-yellow-400' }
+
+    return (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/40 backdrop-blur-[2px] px-4">
+            <div className={`w-full max-w-sm bg-black/80 backdrop-blur-md rounded-2xl border ${accent.border} shadow-xl p-5`}>
+                {/* 総合スコア */}
+                <div className="text-center">
+                    <div className="text-4xl mb-2">✅</div>
+                    <div className="text-white text-lg font-bold tracking-wider">{debrief.title}</div>
+                    <div className="mt-2 flex items-baseline justify-center gap-1">
+                        <span className={`text-4xl font-mono font-bold ${accent.text}`}>{report.total}</span>
+                        <span className="text-white/40 text-sm font-mono">/ {report.max}</span>
+                    </div>
+                    <div className={`text-xs font-bold tracking-wider mt-1 ${accent.text}`}>
+                        {report.passed ? debrief.passed : debrief.failed}
+                    </div>
+                    {exam && (
+                        <div className="text-[10px] text-indigo-200/80 font-mono mt-1">
+                            {training.examTime(formatExamTime(exam.elapsed))}
+                        </div>
+                    )}
+                </div>
+
+                {/* 項目別の内訳 */}
+                <ul className="mt-4 space-y-2.5">
+                    {report.items.map((item) => (
+                        <li key={item.key}>
+                            <div className="flex items-baseline justify-between gap-2">
+                                <span className="text-white/80 text-xs font-medium">{scoring.labels[item.key]}</span>
+                                <span className="text-white/50 text-[10px] font-mono">{item.value}</span>
+                                <span className="ml-auto text-white/80 text-xs font-mono">{item.score}/{item.max}</span>
+                            </div>
+                            <div className="h-1 mt-1 rounded-full bg-white/10 overflow-hidden">
+                                <div className={`h-full ${accent.bar}`} style={{ width: `${(item.score / item.max) * 100}%` }} />
+                            </div>
+                            <div className="text-white/40 text-[10px] mt-0.5 leading-relaxed">{item.detail}</div>
+                        </li>
+                    ))}
+                </ul>
+
+                {/* 手順チェックリスト */}
+                <div className="mt-4 pt-3 border-t border-white/10">
+                    <div className="flex items-baseline justify-between mb-1.5">
+                        <span className="text-[10px] text-white/60 font-medium tracking-wider">{debrief.checklist}</span>
+                        <span className={`text-[10px] font-mono ${checklist.passed ? 'text-green-300' : 'text-orange-300'}`}>
+                            {checklist.inOrder}/{checklist.items.length}
+                        </span>
+                    </div>
+                    <ul className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+                        {checklist.items.map((item) => (
+                            <li key={item.step} className="text-[10px] leading-relaxed">
+                                <span className={!item.done ? 'text-red-300' : item.missing.length > 0 ? 'text-orange-300' : 'text-green-300'}>
+                                    {!item.done ? '✗' : item.missing.length > 0 ? '!' : '✓'}
+                                </span>
+                                <span className="text-white/60 ml-1">{procedure.steps[item.step]}</span>
+                                {item.done && item.missing.length > 0 && (
+                                    <span className="block text-white/35 pl-3">
+                                        {debrief.doneBefore(item.missing.map((s) => procedure.steps[s]))}
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                <div className="flex justify-center gap-2 mt-5">
+                    <button
+                        onClick={onReplay}
+                        className="px-6 py-2 rounded-full text-sm font-medium
+              bg-purple-500/20 hover:bg-purple-500/30 text-purple-200 hover:text-white
+              border border-purple-400/30 hover:border-purple-400/50
+              backdrop-blur-sm transition-all duration-200
+              active:scale-95"
+                    >
+                        {debrief.replay}
+                    </button>
+                    <button
+                        onClick={onReset}
+                        className="px-6 py-2 rounded-full text-sm font-medium
+              bg-white/10 hover:bg-white/20 text-white/70 hover:text-white
+              border border-white/10 hover:border-white/20
+              backdrop-blur-sm transition-all duration-200
+              active:scale-95"
+                    >
+                        {debrief.again}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
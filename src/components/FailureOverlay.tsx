@@ -0,0 +1,78 @@
+import type { FailurePhase } from '../types'
+import { formatExamTime, type ExamResult } from '../lib/training'
+import { useMessages } from '../lib/i18n'
+
+interface FailureOverlayProps {
+    phase: FailurePhase
+    exam: ExamResult | null   // 試験モードで終えた場合の結果
+    onReset: () => void
+    onReplay: () => void
+}
+
+/**
+ * 失敗時のオーバーレイとデブリーフィング
+ * 何が起きたか・原因・次回のポイントを表示する
+ */
+export default function FailureOverlay({ phase, exam, onReset, onReplay }: FailureOverlayProps) {
+    const { failure, training } = useMessages()
+    const debrief = failure.debriefs[phase]
+
+    return (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/40 backdrop-blur-[2px] px-4">
+            <div className="w-full max-w-sm bg-black/80 backdrop-blur-md rounded-2xl border border-red-400/40 shadow-xl shadow-red-500/10 p-5">
+                <div className="flex items-center gap-2 mb-2">
+                    <span className="w-2 h-2 bg-red-400 rounded-full animate-pulse"></span>
+                    <span className="text-red-300 text-[10px] font-bold tracking-wider">{failure.label}</span>
+                    {exam && (
+                        <span className="ml-auto text-[10px] text-indigo-200/80 font-mono">
+                            {training.examScore(exam.total, exam.max, formatExamTime(exam.elapsed))}
+                        </span>
+                    )}
+                </div>
+                <h2 className="text-white text-lg font-bold tracking-wider">{debrief.title}</h2>
+                <p className="text-white/70 text-xs mt-1.5 leading-relaxed">{debrief.summary}</p>
+
+                <div className="mt-4">
+                    <div className="text-[10px] text-red-300/80 font-medium tracking-wider mb-1">{failure.causes}</div>
+                    <ul className="space-y-1">
+                        {debrief.causes.map((cause) => (
+                            <li key={cause} className="text-white/60 text-xs leading-relaxed">・{cause}</li>
+                        ))}
+                    </ul>
+                </div>
+
+                <div className="mt-3">
+                    <div className="text-[10px] text-emerald-300/80 font-medium tracking-wider mb-1">{failure.tips}</div>
+                    <ul className="space-y-1">
+                        {debrief.tips.map((tip) => (
+                            <li key={tip} className="text-white/60 text-xs leading-relaxed">・{tip}</li>
+                        ))}
+                    </ul>
+                </div>
+
+                <div className="flex justify-center gap-2 mt-5">
+                    <button
+                        onClick={onReplay}
+                        className="px-6 py-2 rounded-full text-sm font-medium
+              bg-purple-500/20 hover:bg-purple-500/30 text-purple-200 hover:text-white
+              border border-purple-400/30 hover:border-purple-400/50
+              backdrop-blur-sm transition-all duration-200
+              active:scale-95"
+                    >
+                        {failure.replay}
+                    </button>
+                    <button
+                        onClick={onReset}
+                        className="px-6 py-2 rounded-full text-sm font-medium
+              bg-white/10 hover:bg-white/20 text-white/70 hover:text-white
+              border border-white/10 hover:border-white/20
+              backdrop-blur-sm transition-all duration-200
+              active:scale-95"
+                    >
+                        {failure.retry}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
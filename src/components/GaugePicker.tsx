@@ -0,0 +1,44 @@
+import { GAUGES, type Gauge, type GaugeId } from '../lib/gauges'
+import { useMessages } from '../lib/i18n'
+
+interface GaugePickerProps {
+    gauge: Gauge
+    onChange: (id: GaugeId) => void
+}
+
+/**
+ * 留置針のゲージ選択（穿刺前のみ表示）
+ * ボタンはハブのカラーコードで色分けする
+ */
+export default function GaugePicker({ gauge, onChange }: GaugePickerProps) {
+    const { pickers, hubColors } = useMessages()
+    return (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 pointer-events-auto">
+            <div className="bg-black/60 backdrop-blur-md rounded-2xl border border-white/15 px-3 py-2 shadow-xl">
+                <div className="flex items-center gap-1.5">
+                    <span className="text-[9px] text-white/50 font-medium tracking-wider mr-1">{pickers.gauge}</span>
+                    {GAUGES.map((g) => {
+                        const color = `#${g.hubColor.toString(16).padStart(6, '0')}`
+                        const selected = g.id === gauge.id
+                        return (
+                            <button
+                                key={g.id}
+                                onClick={() => onChange(g.id)}
+                                className={`w-10 py-1 rounded-lg text-[11px] font-mono font-bold transition-all border ${selected
+                                    ? 'text-white bg-white/15'
+                                    : 'text-white/50 bg-white/5 border-transparent hover:bg-white/10'
+                                    }`}
+                                style={{ borderColor: selected ? color : undefined, boxShadow: `inset 0 -3px 0 ${color}` }}
+                            >
+                                {g.id}
+                            </button>
+                        )
+                    })}
+                </div>
+                <p className="text-[9px] text-white/40 text-center mt-1.5">
+                    {pickers.gaugeSpec(gauge.outerDiameter, gauge.length, hubColors[gauge.id])}
+                </p>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,193 @@
+import React from 'react'
+import {
+    LEARNING_CURVE_WINDOW,
+    exportHistory,
+    learningCurve,
+    summarizeHistory,
+    type AttemptRecord,
+    type LearningCurvePoint,
+} from '../lib/history'
+import { formatExamTime } from '../lib/training'
+import { useMessages } from '../lib/i18n'
+
+interface HistoryDashboardProps {
+    records: AttemptRecord[]
+    stored: boolean          // IndexedDB に保存できているか
+    open: boolean
+    onToggle: () => void
+    onClear: () => void
+}
+
+const CURVE_WIDTH = 300
+const CURVE_HEIGHT = 90
+const CURVE_PAD = 6
+
+/**
+ * 成功率の推移（線）と試行ごとの得点（点）のグラフ
+ */
+function CurveChart({ points }: { points: LearningCurvePoint[] }) {
+    const x = (i: number) => CURVE_PAD + (points.length > 1 ? (i / (points.length - 1)) * (CURVE_WIDTH - CURVE_PAD * 2) : (CURVE_WIDTH - CURVE_PAD * 2) / 2)
+    const y = (ratio: number) => CURVE_HEIGHT - CURVE_PAD - ratio * (CURVE_HEIGHT - CURVE_PAD * 2)
+    const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.successRate).toFixed(1)}`).join(' ')
+    return (
+        <svg width={CURVE_WIDTH} height={CURVE_HEIGHT} viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`} aria-hidden="true">
+            {/* 0%・50%・100% の目盛り */}
+            {[0, 0.5, 1].map((ratio) => (
+                <line key={ratio} x1={0} x2={CURVE_WIDTH} y1={y(ratio)} y2={y(ratio)} stroke="rgba(255,255,255,0.1)" strokeDasharray="3 3" />
+            ))}
+            {points.map((p, i) => (
+                <circle key={p.attempt} cx={x(i)} cy={y(p.score)} r={2} fill="rgba(125,211,252,0.7)" />
+            ))}
+            <path d={line} fill="none" stroke="#6ee7b7" strokeWidth={2} strokeLinejoin="round" />
+        </svg>
+    )
+}
+
+/**
+ * 学習の記録のダッシュボード
+ * 成功率の推移、平均の刺入角度・所要時間、よくある失敗、部位ごとの自己ベストを表示し、記録の書き出しと消去ができる
+ */
+export default function HistoryDashboard({ records, stored, open, onToggle, onClear }: HistoryDashboardProps) {
+    const { history: text, phases, sites } = useMessages()
+    const summary = React.useMemo(() => summarizeHistory(records), [records])
+    const curve = React.useMemo(() => learningCurve(records), [records])
+
+    const handleExport = () => {
+        const url = URL.createObjectURL(new Blob([exportHistory(records)], { type: 'application/json' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `iv-catheter-history-${new Date().toISOString().slice(0, 10)}.json`
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const handleClear = () => {
+        if (window.confirm(text.confirmClear)) onClear()
+    }
+
+    const stats = [
+        { label: text.attempts, value: String(summary.attempts) },
+        { label: text.successRate, value: `${Math.round(summary.successRate * 100)}%` },
+        { label: text.averageAngle, value: summary.averageAngle === null ? '—' : `${summary.averageAngle.toFixed(1)}°` },
+        { label: text.averageTime, value: summary.averageDuration === null ? '—' : formatExamTime(summary.averageDuration) },
+    ]
+
+    return (
+        <>
+            <div className="absolute top-3 left-60 z-30 pointer-events-auto">
+                <button
+                    onClick={onToggle}
+                    aria-label={text.open}
+                    aria-expanded={open}
+                    title={text.open}
+                    className={`w-9 h-9 rounded-full border text-sm transition-colors backdrop-blur-md ${open
+                        ? 'bg-white/20 text-white border-white/30'
+                        : 'bg-black/50 text-white/60 border-white/10 hover:bg-white/10'
+                        }`}
+                >
+                    📈
+                </button>
+            </div>
+
+            {open && (
+                <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 pointer-events-auto px-4">
+                    <div
+                        role="dialog"
+                        aria-label={text.title}
+                        className="w-full max-w-sm max-h-[85vh] overflow-y-auto bg-slate-900/95 backdrop-blur-md rounded-2xl border border-white/15 p-4 shadow-2xl"
+                    >
+                        <div className="flex items-center justify-between mb-3">
+                            <h2 className="text-sm text-white font-bold tracking-wider">{text.title}</h2>
+                            <button onClick={onToggle} className="text-white/50 hover:text-white text-xs px-2 py-1">
+                                {text.close}
+                            </button>
+                        </div>
+
+                        {!stored && (
+                            <div className="mb-3 text-[10px] text-amber-300/80">{text.notSaved}</div>
+                        )}
+
+                        {records.length === 0 ? (
+                            <div className="text-xs text-white/50 text-center py-6">{text.empty}</div>
+                        ) : (
+                            <>
+                                {/* 全体の集計 */}
+                                <div className="grid grid-cols-4 gap-1.5">
+                                    {stats.map((stat) => (
+                                        <div key={stat.label} className="bg-white/5 rounded-lg border border-white/10 px-1.5 py-2 text-center">
+                                            <div className="text-sm text-white font-mono font-bold">{stat.value}</div>
+                                            <div className="text-[8px] text-white/40 mt-0.5">{stat.label}</div>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {/* 学習曲線 */}
+                                <div className="mt-4">
+                                    <div className="text-[10px] text-white/50 mb-1">{text.curve(LEARNING_CURVE_WINDOW)}</div>
+                                    <div className="bg-black/30 rounded-lg border border-white/10 flex justify-center">
+                                        <CurveChart points={curve} />
+                                    </div>
+                                    <div className="flex gap-3 mt-1 text-[9px] text-white/40">
+                                        <span><span className="text-emerald-300">―</span> {text.curveSuccess}</span>
+                                        <span><span className="text-sky-300">●</span> {text.curveScore}</span>
+                                    </div>
+                                </div>
+
+                                {/* よくある失敗 */}
+                                <div className="mt-4">
+                                    <div className="text-[10px] text-white/50 mb-1">{text.failures}</div>
+                                    {summary.failures.length === 0 ? (
+                                        <div className="text-[11px] text-white/40">{text.noFailures}</div>
+                                    ) : (
+                                        <ul className="space-y-0.5">
+                                            {summary.failures.map(({ outcome, count }) => (
+                                                <li key={outcome} className="flex justify-between text-[11px]">
+                                                    <span className="text-red-300/80">{phases[outcome]}</span>
+                                                    <span className="text-white/50 font-mono">{text.count(count)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+
+                                {/* 部位ごとの自己ベスト */}
+                                <div className="mt-4">
+                                    <div className="text-[10px] text-white/50 mb-1">{text.bests}</div>
+                                    <ul className="space-y-0.5">
+                                        {summary.bests.map((best) => (
+                                            <li key={best.site} className="flex justify-between gap-2 text-[11px]">
+                                                <span className="text-white/70">{sites[best.site].name}</span>
+                                                <span className="text-white/50 font-mono">
+                                                    {text.bestScore(best.total, best.max)}
+                                                    {best.duration !== null && ` ・ ${text.bestTime(formatExamTime(best.duration))}`}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            </>
+                        )}
+
+                        {/* 書き出し・消去 */}
+                        <div className="flex gap-2 mt-4">
+                            <button
+                                onClick={handleExport}
+                                disabled={records.length === 0}
+                                className="flex-1 py-2 rounded-xl text-xs font-bold bg-white/10 hover:bg-white/15 text-white/80 border border-white/10 disabled:opacity-40"
+                            >
+                                {text.export}
+                            </button>
+                            <button
+                                onClick={handleClear}
+                                disabled={records.length === 0}
+                                className="flex-1 py-2 rounded-xl text-xs font-bold bg-red-500/15 hover:bg-red-500/25 text-red-200 border border-red-400/30 disabled:opacity-40"
+                            >
+                                {text.clear}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    )
+}
@@ -0,0 +1,62 @@
+import { KEYBOARD_ACTIONS, KEY_BINDINGS } from '../lib/keyboard'
+import { useMessages } from '../lib/i18n'
+
+interface KeyboardHelpProps {
+    open: boolean
+    onToggle: () => void
+}
+
+/**
+ * キーボード操作の一覧（? キーかボタンで開閉する）
+ */
+export default function KeyboardHelp({ open, onToggle }: KeyboardHelpProps) {
+    const text = useMessages().keyboard
+    return (
+        <>
+            <div className="absolute top-3 left-48 z-30 pointer-events-auto">
+                <button
+                    onClick={onToggle}
+                    aria-label={text.open}
+                    aria-expanded={open}
+                    aria-keyshortcuts="Shift+?"
+                    title={`${text.open} (?)`}
+                    className={`w-9 h-9 rounded-full border text-sm transition-colors backdrop-blur-md ${open
+                        ? 'bg-white/20 text-white border-white/30'
+                        : 'bg-black/50 text-white/60 border-white/10 hover:bg-white/10'
+                        }`}
+                >
+                    ⌨
+                </button>
+            </div>
+
+            {open && (
+                <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 pointer-events-auto">
+                    <div
+                        role="dialog"
+                        aria-label={text.title}
+                        className="w-[22rem] max-h-[80vh] overflow-y-auto bg-slate-900/95 backdrop-blur-md rounded-2xl border border-white/15 p-4 shadow-2xl"
+                    >
+                        <div className="flex items-center justify-between mb-3">
+                            <h2 className="text-sm text-white font-bold tracking-wider">{text.title}</h2>
+                            <button onClick={onToggle} className="text-white/50 hover:text-white text-xs px-2 py-1">
+                                {text.close}
+                            </button>
+                        </div>
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5">
+                            {KEYBOARD_ACTIONS.map((action) => (
+                                <div key={action} className="contents">
+                                    <dt>
+                                        <kbd className="inline-block min-w-[2rem] text-center rounded-md bg-white/10 border border-white/20 px-1.5 py-0.5 text-[10px] text-white/80 font-mono">
+                                            {KEY_BINDINGS[action].label}
+                                        </kbd>
+                                    </dt>
+                                    <dd className="text-[11px] text-white/70 self-center">{text.actions[action]}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </div>
+                </div>
+            )}
+        </>
+    )
+}
@@ -0,0 +1,30 @@
+import { LOCALES, LOCALE_NAMES, useMessages, type Locale } from '../lib/i18n'
+
+interface LanguagePickerProps {
+    locale: Locale
+    onChange: (locale: Locale) => void
+}
+
+/**
+ * 表示言語の切り替え
+ */
+export default function LanguagePicker({ locale, onChange }: LanguagePickerProps) {
+    const { app } = useMessages()
+    return (
+        <div className="absolute top-3 right-40 z-30 pointer-events-auto">
+            <select
+                value={locale}
+                onChange={(e) => onChange(e.target.value as Locale)}
+                title={app.language}
+                aria-label={app.language}
+                className="h-9 bg-black/50 backdrop-blur-md rounded-full border border-white/10 px-3 text-[11px] text-white/80 outline-none cursor-pointer hover:bg-white/10"
+            >
+                {LOCALES.map((l) => (
+                    <option key={l} value={l} className="bg-slate-900">
+                        {LOCALE_NAMES[l]}
+                    </option>
+                ))}
+            </select>
+        </div>
+    )
+}
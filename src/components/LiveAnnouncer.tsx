@@ -0,0 +1,66 @@
+import type { Phase } from '../types'
+import { canAdvanceCatheter, isFailurePhase } from '../lib/outcomes'
+import { CROSSING_MAX } from '../lib/needlePose'
+import type { TissueReading } from '../lib/tissue'
+import type { CatheterBlock } from '../lib/catheter'
+import { useMessages, type Messages } from '../lib/i18n'
+
+interface LiveAnnouncerProps {
+    phase: Phase
+    tissue: TissueReading | null
+    catheterBlock: CatheterBlock | null
+    lineConnected: boolean
+}
+
+/**
+ * フェーズと、いま行う操作の案内（画面のステータス表示と同じ内容）
+ */
+function statusText(messages: Messages, phase: Phase, tissue: TissueReading | null, lineConnected: boolean): string {
+    const { phases, slider, sections, tissueLayers } = messages
+    const hint = (() => {
+        switch (phase) {
+            case 'pre-puncture':
+                return tissue && tissue.tipLayer !== 'air' ? sections.tip(tissueLayers[tissue.tipLayer]) : ''
+            case 'punctured':
+                if (tissue?.tipLayer === 'posterior-wall') return ''
+                if (!canAdvanceCatheter(tissue)) return tissue?.bevelInLumen && tissue.veinCrossing > CROSSING_MAX ? slider.crossing : slider.seatBevel
+                return slider.advanceCatheter
+            case 'advancing':
+                return slider.withdrawStylet
+            case 'completed':
+                return lineConnected ? slider.completed : slider.connectLine
+            default:
+                return ''
+        }
+    })()
+    return hint ? `${phases[phase]} — ${hint}` : phases[phase]
+}
+
+/**
+ * すぐに知らせる警告（失敗・後壁への接触・外筒が進まない）
+ */
+function warningText(messages: Messages, phase: Phase, tissue: TissueReading | null, catheterBlock: CatheterBlock | null): string {
+    const { failure, slider } = messages
+    if (isFailurePhase(phase)) return `${failure.label}: ${failure.debriefs[phase].title}`
+    if (phase === 'punctured' && tissue?.tipLayer === 'posterior-wall') return slider.posteriorWall
+    if ((phase === 'punctured' || phase === 'advancing') && catheterBlock) return slider.blocks[catheterBlock]
+    return ''
+}
+
+/**
+ * スクリーンリーダー向けの読み上げ領域（画面には表示しない）
+ * 文言が変わった時だけ読み上げられるので、フェーズや針先の層が変わるたびに案内が届く
+ */
+export default function LiveAnnouncer({ phase, tissue, catheterBlock, lineConnected }: LiveAnnouncerProps) {
+    const messages = useMessages()
+    return (
+        <div className="sr-only">
+            <div role="status" aria-live="polite" aria-atomic="true">
+                {statusText(messages, phase, tissue, lineConnected)}
+            </div>
+            <div role="alert" aria-live="assertive" aria-atomic="true">
+                {warningText(messages, phase, tissue, catheterBlock)}
+            </div>
+        </div>
+    )
+}
@@ -1,39 +1,55 @@
 import { useRef, useMemo } from 'react'
+import { useFrame } from '@react-three/fiber'
 import * as THREE from 'three'
+import { gaugeDimensions, type Gauge } from '../lib/gauges'
+import type { FlashbackState } from '../lib/flashback'
+import { CATHETER_ADVANCE_START } from '../lib/outcomes'
+
+// 内筒ハブのフラッシュバックチャンバー（ハブのレイズ形状の太い区間）
+const CHAMBER_START = 0.48
+const CHAMBER_END = 1.1
+const CHAMBER_BLOOD_RADIUS = 0.052
+
+const BLOOD_COLOR = 0xcc0000
 
 interface NeedleProps {
     innerOffset: number   // 内筒のオフセット（0=完全に挿入、負の値=引き抜き方向）
     outerOffset: number   // 外筒のオフセット（0=初期位置、正の値=前進方向＝先端方向）
     position: [number, number, number]
     rotation: [number, number, number]
-    showFlashback: boolean // フラッシュバック（逆血）の表示
+    gauge: Gauge
+    flashback: FlashbackState  // 逆血の満ち具合（毎フレーム更新される）
 }
 
 /**
  * テルモ サーフロー型留置針の3Dモデル（SVGリファレンス準拠）
  * 内筒（金属針+ハブ）と外筒（カテーテル+ハブ一体型）を構成
+ * 針・カテーテルの太さと長さ、ハブの色はゲージ（gauges.ts）から決まる
  */
-export default function Needle({ innerOffset, outerOffset, position, rotation, showFlashback }: NeedleProps) {
+export default function Needle({ innerOffset, outerOffset, position, rotation, gauge, flashback }: NeedleProps) {
     const groupRef = useRef<THREE.Group>(null)
+    const { innerRadius, outerRadius, catheterLength } = gaugeDimensions(gauge)
+    // 内筒のシャフト末端＝外筒ハブの後端
+    const shaftEnd = catheterLength + 1.1
 
     // ===== 内筒（金属針）のジオメトリ =====
     const innerNeedleGeometry = useMemo(() => {
         const points: THREE.Vector2[] = []
         // 針先端（鋭利な刃面）
         points.push(new THREE.Vector2(0, 0))
-        points.push(new THREE.Vector2(0.008, 0.03))
+        points.push(new THREE.Vector2(innerRadius * 0.5, 0.03))
         // 刃面斜めカット
-        points.push(new THREE.Vector2(0.014, 0.08))
-        points.push(new THREE.Vector2(0.016, 0.12))
+        points.push(new THREE.Vector2(innerRadius * 0.875, 0.08))
+        points.push(new THREE.Vector2(innerRadius, 0.12))
         // 針のシャフト部分（均一な太さ）
-        points.push(new THREE.Vector2(0.016, 0.15))
-        points.push(new THREE.Vector2(0.016, 3.2))
+        points.push(new THREE.Vector2(innerRadius, 0.15))
+        points.push(new THREE.Vector2(innerRadius, shaftEnd))
         // ハブへの接合テーパー
-        points.push(new THREE.Vector2(0.02, 3.25))
-        points.push(new THREE.Vector2(0.022, 3.3))
-        points.push(new THREE.Vector2(0, 3.3))
+        points.push(new THREE.Vector2(innerRadius + 0.004, shaftEnd + 0.05))
+        points.push(new THREE.Vector2(innerRadius + 0.006, shaftEnd + 0.1))
+        points.push(new THREE.Vector2(0, shaftEnd + 0.1))
         return new THREE.LatheGeometry(points, 24)
-    }, [])
+    }, [innerRadius, shaftEnd])
 
     // ===== 内筒ハブ（外筒ハブ幅に揃えた太め形状） =====
     const innerHubGeometry = useMemo(() => {
@@ -73,22 +89,22 @@ export default function Needle({ innerOffset, outerOffset, position, rotation, s
         const points: THREE.Vector2[] = []
         // チューブ先端（閉じ）
         points.push(new THREE.Vector2(0, 0))
-        points.push(new THREE.Vector2(0.024, 0.02))
+        points.push(new THREE.Vector2(outerRadius - 0.001, 0.02))
         // チューブ均一部分
-        points.push(new THREE.Vector2(0.025, 0.05))
-        points.push(new THREE.Vector2(0.025, 2.1))
+        points.push(new THREE.Vector2(outerRadius, 0.05))
+        points.push(new THREE.Vector2(outerRadius, catheterLength))
         // テーパー遷移（チューブ→ハブ）
-        points.push(new THREE.Vector2(0.03, 2.15))
-        points.push(new THREE.Vector2(0.045, 2.25))
+        points.push(new THREE.Vector2(outerRadius + 0.005, catheterLength + 0.05))
+        points.push(new THREE.Vector2(Math.max(0.045, outerRadius + 0.01), catheterLength + 0.15))
         // ハブメインボディ
-        points.push(new THREE.Vector2(0.06, 2.35))
-        points.push(new THREE.Vector2(0.065, 2.4))
+        points.push(new THREE.Vector2(0.06, catheterLength + 0.25))
+        points.push(new THREE.Vector2(0.065, catheterLength + 0.3))
         // ハブ幅を最後まで一定に維持
-        points.push(new THREE.Vector2(0.065, 3.2))
+        points.push(new THREE.Vector2(0.065, shaftEnd))
         // 閉じ
-        points.push(new THREE.Vector2(0, 3.2))
+        points.push(new THREE.Vector2(0, shaftEnd))
         return new THREE.LatheGeometry(points, 24)
-    }, [])
+    }, [outerRadius, catheterLength, shaftEnd])
 
     // ===== マテリアル =====
     const metalMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
@@ -101,24 +117,55 @@ export default function Needle({ innerOffset, outerOffset, position, rotation, s
     }), [])
 
     const innerHubMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
-        color: showFlashback ? 0xcc0000 : 0xf0f0f0,
+        color: 0xf0f0f0,
         metalness: 0.0,
         roughness: 0.3,
         transparent: true,
         opacity: 0.5,
-        transmission: showFlashback ? 0.0 : 0.4,
+        transmission: 0.4,
         clearcoat: 0.5,
-    }), [showFlashback])
+    }), [])
 
+    // フラッシュバック：チャンバーは針側（前端）から、外筒は先端から、血液が満ちていく
+    const bloodMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: BLOOD_COLOR, roughness: 0.4 }), [])
+    const chamberBloodRef = useRef<THREE.Mesh>(null)
+    const catheterBloodRef = useRef<THREE.Mesh>(null)
+    useFrame(() => {
+        const chamber = chamberBloodRef.current
+        if (chamber) {
+            const length = (CHAMBER_END - CHAMBER_START) * flashback.chamber
+            chamber.visible = flashback.chamber > 0
+            chamber.scale.y = Math.max(length, 1e-4)
+            chamber.position.y = CHAMBER_START + length / 2
+        }
+        const catheter = catheterBloodRef.current
+        if (catheter) {
+            const length = catheterLength * flashback.catheter
+            catheter.visible = flashback.catheter > 0
+            catheter.scale.y = Math.max(length, 1e-4)
+            catheter.position.y = length / 2
+        }
+    })
+
+    // 刃面は研磨面として周囲より明るく、ハブの突起は刃面の向きの目印
+    const bevelMaterial = useMemo(() => new THREE.MeshStandardMaterial({
+        color: 0xffffff,
+        metalness: 0.6,
+        roughness: 0.05,
+        side: THREE.DoubleSide,
+    }), [])
+    const bevelMarkerMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: 0x2a2a2a, roughness: 0.5 }), [])
+
+    // 外筒はゲージごとのカラーコード
     const outerMaterial = useMemo(() => new THREE.MeshPhysicalMaterial({
-        color: 0x66baff,
+        color: gauge.hubColor,
         metalness: 0.05,
         roughness: 0.4,
         transparent: true,
         opacity: 0.8,
         clearcoat: 0.3,
         side: THREE.DoubleSide,
-    }), [])
+    }), [gauge.hubColor])
 
     return (
         <group ref={groupRef} position={position} rotation={rotation}>
@@ -127,14 +174,34 @@ export default function Needle({ innerOffset, outerOffset, position, rotation, s
             <group position={[0, -innerOffset, 0]}>
                 {/* 金属針シャフト */}
                 <mesh geometry={innerNeedleGeometry} material={metalMaterial} castShadow />
+                {/* 刃面（ローカル-X側＝ロール0°で上を向く斜めカット） */}
+                <mesh position={[-innerRadius * 0.45, 0.06, 0]} rotation={[0, 0, -0.35]} material={bevelMaterial}>
+                    <planeGeometry args={[innerRadius * 0.9, 0.1]} />
+                </mesh>
                 {/* 内筒ハブ（フラッシュバックチャンバー付き） */}
-                <mesh geometry={innerHubGeometry} material={innerHubMaterial} position={[0, 3.3, 0]} />
+                <group position={[0, shaftEnd + 0.1, 0]}>
+                    <mesh geometry={innerHubGeometry} material={innerHubMaterial} />
+                    {/* チャンバー内の逆血 */}
+                    <mesh ref={chamberBloodRef} material={bloodMaterial} visible={false}>
+                        <cylinderGeometry args={[CHAMBER_BLOOD_RADIUS, CHAMBER_BLOOD_RADIUS, 1, 16]} />
+                    </mesh>
+                </group>
+                {/* 刃面の向きを示すハブの突起（刃面と同じ側） */}
+                <mesh position={[-0.068, shaftEnd + 0.35, 0]} material={bevelMarkerMaterial}>
+                    <boxGeometry args={[0.012, 0.2, 0.02]} />
+                </mesh>
             </group>
 
             {/* === 外筒（カテーテル+ハブ一体型） === */}
             {/* 負のローカルY=先端方向（前進）、offsetを反転してマッピング */}
             <group position={[0, -outerOffset, 0]}>
-                <mesh geometry={outerGeometry} material={outerMaterial} position={[0, 0.15, 0]} />
+                <group position={[0, CATHETER_ADVANCE_START, 0]}>
+                    <mesh geometry={outerGeometry} material={outerMaterial} />
+                    {/* 外筒と内筒の隙間を上がってくる逆血（2回目のフラッシュバック） */}
+                    <mesh ref={catheterBloodRef} material={bloodMaterial} visible={false}>
+                        <cylinderGeometry args={[outerRadius * 0.9, outerRadius * 0.9, 1, 12]} />
+                    </mesh>
+                </group>
             </group>
         </group>
     )
@@ -0,0 +1,44 @@
+import { useMemo } from 'react'
+import * as THREE from 'three'
+import { useFrame, useThree } from '@react-three/fiber'
+import { TIP_VIEW_RECT, aimTipCamera } from '../lib/cameraPresets'
+
+interface NeedleTipViewProps {
+    needlePos: THREE.Vector3
+    needleRot: THREE.Euler
+    innerOffset: number
+}
+
+/**
+ * 針先を追う小窓（Canvas内に配置）
+ * 置いている間はこのコンポーネントが描画を受け持ち、メインの視点を描いた後に右上の小窓へ針先を描く
+ */
+export default function NeedleTipView({ needlePos, needleRot, innerOffset }: NeedleTipViewProps) {
+    const { size } = useThree()
+    const tipCamera = useMemo(() => new THREE.PerspectiveCamera(40, 1, 0.02, 50), [])
+
+    useFrame(({ gl, scene, camera }) => {
+        const forward = new THREE.Vector3(0, -1, 0).applyEuler(needleRot)
+        const tip = needlePos.clone().addScaledVector(forward, innerOffset)
+        aimTipCamera(tipCamera, tip, forward)
+        tipCamera.aspect = TIP_VIEW_RECT.width / TIP_VIEW_RECT.height
+        tipCamera.updateProjectionMatrix()
+
+        gl.setScissorTest(false)
+        gl.setViewport(0, 0, size.width, size.height)
+        gl.render(scene, camera)
+
+        // setViewport・setScissor は左下原点
+        const x = size.width - TIP_VIEW_RECT.right - TIP_VIEW_RECT.width
+        const y = size.height - TIP_VIEW_RECT.top - TIP_VIEW_RECT.height
+        gl.setScissor(x, y, TIP_VIEW_RECT.width, TIP_VIEW_RECT.height)
+        gl.setViewport(x, y, TIP_VIEW_RECT.width, TIP_VIEW_RECT.height)
+        gl.setScissorTest(true)
+        gl.render(scene, tipCamera)
+
+        gl.setScissorTest(false)
+        gl.setViewport(0, 0, size.width, size.height)
+    }, 1)
+
+    return null
+}
@@ -0,0 +1,36 @@
+import { PATIENT_PROFILES, type PatientId, type PatientProfile } from '../lib/patients'
+import { useMessages } from '../lib/i18n'
+
+interface PatientPickerProps {
+    patient: PatientProfile
+    onChange: (id: PatientId) => void
+}
+
+/**
+ * 患者プロファイルの選択パネル（穿刺前のみ表示）
+ */
+export default function PatientPicker({ patient, onChange }: PatientPickerProps) {
+    const { pickers, patients } = useMessages()
+    return (
+        <div className="absolute top-16 right-3 z-30 pointer-events-auto">
+            <div className="w-40 bg-black/60 backdrop-blur-md rounded-2xl border border-white/15 p-2.5 shadow-xl">
+                <div className="text-[9px] text-white/50 font-medium tracking-wider mb-1.5">{pickers.patient}</div>
+                <div className="grid grid-cols-2 gap-1">
+                    {PATIENT_PROFILES.map((p) => (
+                        <button
+                            key={p.id}
+                            onClick={() => onChange(p.id)}
+                            className={`px-2 py-1.5 rounded-lg text-[11px] font-medium transition-all ${p.id === patient.id
+                                ? 'bg-sky-500/30 text-white border border-sky-400/50'
+                                : 'bg-white/5 text-white/60 border border-transparent hover:bg-white/10'
+                                }`}
+                        >
+                            {patients[p.id].name}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[9px] text-white/40 leading-relaxed mt-2">{patients[patient.id].description}</p>
+            </div>
+        </div>
+    )
+}
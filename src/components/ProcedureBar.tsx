@@ -0,0 +1,78 @@
+import type { Phase } from '../types'
+import {
+    PROCEDURE_STEPS,
+    canPerformAction,
+    isProcedureAction,
+    type ProcedureAction,
+    type ProcedureState,
+} from '../lib/procedure'
+import { TOURNIQUET_TIME_LIMIT, tourniquetDuration } from '../lib/tourniquet'
+import { useMessages } from '../lib/i18n'
+
+interface ProcedureBarProps {
+    procedure: ProcedureState
+    phase: Phase
+    now: number
+    allowedActions?: readonly ProcedureAction[]  // 指定すればこの操作だけを行える（チュートリアル）
+    onAction: (action: ProcedureAction) => void
+}
+
+/**
+ * 手技全体の手順バー
+ * 手指衛生〜ライン接続までの手順を並べ、操作で行う手順はボタンとして実施できる
+ * 駆血帯を巻いてからの経過時間も表示する
+ */
+export default function ProcedureBar({ procedure, phase, now, allowedActions, onAction }: ProcedureBarProps) {
+    const text = useMessages().procedure
+    // 直近の順序違い
+    const lastViolation = [...procedure.events].reverse().find((event) => event.missing.length > 0)
+    const tourniquetTime = tourniquetDuration(procedure, now)
+    const tourniquetSeconds = tourniquetTime === null ? 0 : Math.floor(tourniquetTime / 1000)
+
+    return (
+        <div className="absolute top-32 left-1/2 -translate-x-1/2 z-20 w-[min(92vw,40rem)] pointer-events-auto">
+            <div className="flex flex-wrap justify-center gap-1">
+                {PROCEDURE_STEPS.map((step, index) => {
+                    const event = procedure.events.find((e) => e.step === step)
+                    const actionable = isProcedureAction(step)
+                        && canPerformAction(procedure, step, phase)
+                        && (!allowedActions || allowedActions.includes(step))
+                    const style = event
+                        ? event.missing.length > 0
+                            ? 'bg-orange-500/20 text-orange-200 border-orange-400/40'
+                            : 'bg-emerald-500/20 text-emerald-200 border-emerald-400/40'
+                        : actionable
+                            ? 'bg-sky-500/25 text-white border-sky-400/50 hover:bg-sky-500/40 active:scale-95'
+                            : 'bg-black/40 text-white/35 border-white/10'
+                    return (
+                        <button
+                            key={step}
+                            onClick={() => actionable && isProcedureAction(step) && onAction(step)}
+                            disabled={!actionable}
+                            className={`px-2 py-1 rounded-full text-[10px] font-medium border backdrop-blur-md transition-all ${style}`}
+                        >
+                            <span className="font-mono mr-1 opacity-60">{index + 1}</span>
+                            {text.steps[step]}
+                            {event && <span className="ml-1">{event.missing.length > 0 ? '!' : '✓'}</span>}
+                        </button>
+                    )
+                })}
+                {tourniquetTime !== null && (
+                    <span
+                        className={`px-2 py-1 rounded-full text-[10px] font-mono border backdrop-blur-md ${tourniquetTime > TOURNIQUET_TIME_LIMIT
+                            ? 'bg-red-500/25 text-red-200 border-red-400/50 animate-pulse'
+                            : 'bg-black/40 text-white/60 border-white/10'
+                            }`}
+                    >
+                        {text.tourniquetTimer(`${Math.floor(tourniquetSeconds / 60)}:${String(tourniquetSeconds % 60).padStart(2, '0')}`)}
+                    </span>
+                )}
+            </div>
+            {lastViolation && (
+                <p className="text-center text-[10px] text-orange-300/90 mt-1.5">
+                    {text.outOfOrder(text.steps[lastViolation.step], lastViolation.missing.map((s) => text.steps[s]))}
+                </p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,147 @@
+import type { Phase } from '../types'
+import { isFailurePhase } from '../lib/outcomes'
+import { useMessages } from '../lib/i18n'
+import type { PhaseMarker } from '../lib/recording'
+
+interface ReplayControlsProps {
+    time: number
+    duration: number
+    playing: boolean
+    speed: number
+    phase: Phase
+    markers: PhaseMarker[]
+    onPlayPause: () => void
+    onSeek: (time: number) => void
+    onSpeedChange: (speed: number) => void
+    onExit: () => void
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4]
+
+function formatTime(ms: number) {
+    const seconds = Math.floor(ms / 1000)
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * リプレイ用のタイムラインUI
+ * 再生/一時停止・再生速度・シークバー（フェーズ切替マーカー付き）
+ */
+export default function ReplayControls({
+    time,
+    duration,
+    playing,
+    speed,
+    phase,
+    markers,
+    onPlayPause,
+    onSeek,
+    onSpeedChange,
+    onExit,
+}: ReplayControlsProps) {
+    const { phases, replay } = useMessages()
+    return (
+        <div className="absolute bottom-0 left-0 right-0 z-40 pointer-events-auto">
+            <div className="bg-gradient-to-t from-black/80 via-black/50 to-transparent pt-12 pb-6 px-4">
+
+                {/* 再生中のフェーズ */}
+                <div className="text-center mb-3">
+                    <div className="inline-flex items-center gap-2 bg-purple-500/20 border border-purple-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
+                        <span className="w-2 h-2 bg-purple-400 rounded-full"></span>
+                        <span className="text-purple-200 text-sm font-medium">{replay.title(phases[phase])}</span>
+                    </div>
+                </div>
+
+                <div className="max-w-md mx-auto">
+                    {/* シークバー＋フェーズマーカー */}
+                    <div className="relative pt-4">
+                        {markers.map((marker) => (
+                            <button
+                                key={`${marker.phase}-${marker.t}`}
+                                onClick={() => onSeek(marker.t)}
+                                title={phases[marker.phase]}
+                                aria-label={replay.marker(phases[marker.phase], formatTime(marker.t))}
+                                className={`absolute top-0 w-2 h-3 -translate-x-1/2 rounded-sm ${isFailurePhase(marker.phase) ? 'bg-red-400' : 'bg-purple-300'}`}
+                                style={{ left: `${duration > 0 ? (marker.t / duration) * 100 : 0}%` }}
+                            />
+                        ))}
+                        <input
+                            type="range"
+                            min={0}
+                            max={duration}
+                            step={10}
+                            value={time}
+                            onChange={(e) => onSeek(parseFloat(e.target.value))}
+                            aria-label={replay.seek}
+                            aria-valuetext={replay.position(formatTime(time), formatTime(duration))}
+                            className="w-full h-2 rounded-full appearance-none cursor-pointer
+                  bg-gradient-to-r from-purple-800 to-purple-400
+                  [&::-webkit-slider-thumb]:appearance-none
+                  [&::-webkit-slider-thumb]:w-5
+                  [&::-webkit-slider-thumb]:h-5
+                  [&::-webkit-slider-thumb]:rounded-full
+                  [&::-webkit-slider-thumb]:bg-purple-300
+                  [&::-webkit-slider-thumb]:shadow-lg
+                  [&::-webkit-slider-thumb]:border-2
+                  [&::-webkit-slider-thumb]:border-purple-100
+                  [&::-webkit-slider-thumb]:cursor-pointer"
+                        />
+                    </div>
+
+                    <div className="flex items-center gap-3 mt-3">
+                        {/* 再生/一時停止 */}
+                        <button
+                            onClick={onPlayPause}
+                            aria-label={playing ? replay.pause : replay.play}
+                            className="w-10 h-10 rounded-full bg-purple-500/30 hover:bg-purple-500/40 border border-purple-400/40 flex items-center justify-center transition-colors active:scale-90"
+                        >
+                            {playing ? (
+                                <svg className="w-4 h-4 text-purple-100" fill="currentColor" viewBox="0 0 24 24">
+                                    <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+                                </svg>
+                            ) : (
+                                <svg className="w-4 h-4 text-purple-100" fill="currentColor" viewBox="0 0 24 24">
+                                    <path d="M7 5l12 7-12 7z" />
+                                </svg>
+                            )}
+                        </button>
+
+                        <span className="text-xs text-purple-200/80 font-mono">
+                            {formatTime(time)} / {formatTime(duration)}
+                        </span>
+
+                        {/* 再生速度 */}
+                        <div className="ml-auto flex gap-1">
+                            {REPLAY_SPEEDS.map((s) => (
+                                <button
+                                    key={s}
+                                    onClick={() => onSpeedChange(s)}
+                                    className={`px-2 py-1 rounded-lg text-[10px] font-mono font-bold transition-all ${s === speed
+                                        ? 'bg-purple-500/50 text-white border border-purple-400/60'
+                                        : 'bg-white/10 text-white/50 border border-transparent hover:bg-white/15'
+                                        }`}
+                                >
+                                    {s}x
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                {/* リプレイ終了 */}
+                <div className="text-center mt-4">
+                    <button
+                        onClick={onExit}
+                        className="px-6 py-2 rounded-full text-sm font-medium
+              bg-white/10 hover:bg-white/20 text-white/70 hover:text-white
+              border border-white/10 hover:border-white/20
+              backdrop-blur-sm transition-all duration-200
+              active:scale-95"
+                    >
+                        {replay.exit}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
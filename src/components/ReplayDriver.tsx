@@ -0,0 +1,33 @@
+import { useRef, type MutableRefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type { RecordingFrame } from '../lib/recording'
+
+interface ReplayDriverProps {
+    frame: RecordingFrame | null
+    playing: boolean
+    speed: number
+    controlsRef: MutableRefObject<any>
+    onTick: (deltaMs: number) => void
+}
+
+/**
+ * リプレイ再生中に時刻を進め、記録されたカメラ姿勢を反映する（Canvas内に配置）
+ * 一時停止中は時刻が変わらない限りカメラを上書きしないので、自由に視点を回せる
+ */
+export default function ReplayDriver({ frame, playing, speed, controlsRef, onTick }: ReplayDriverProps) {
+    const appliedFrame = useRef<RecordingFrame | null>(null)
+
+    useFrame((_, delta) => {
+        if (playing) onTick(delta * 1000 * speed)
+
+        const controls = controlsRef.current
+        if (frame && controls && frame !== appliedFrame.current) {
+            appliedFrame.current = frame
+            controls.object.position.set(...frame.cameraPosition)
+            controls.target.set(...frame.cameraTarget)
+            controls.update()
+        }
+    })
+
+    return null
+}
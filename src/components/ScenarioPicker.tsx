@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import { SCENARIO_VERSION, localizedText, parseScenario, type Scenario, type ScenarioIssue } from '../lib/scenario'
+import { SCENARIO_LIBRARY } from '../lib/scenarioLibrary'
+import { formatExamTime } from '../lib/training'
+import { useMessages, type Locale, type Messages } from '../lib/i18n'
+
+interface ScenarioPickerProps {
+    scenario: Scenario | null
+    locale: Locale
+    open: boolean
+    onToggle: () => void
+    onChange: (scenario: Scenario | null) => void
+}
+
+/**
+ * 検証で見つかった問題の説明
+ */
+export function issueText(issue: ScenarioIssue, text: Messages['scenario']): string {
+    const path = 'path' in issue && issue.path === '' ? text.root : 'path' in issue ? issue.path : ''
+    switch (issue.kind) {
+        case 'read': return text.issues.read(issue.message)
+        case 'json': return text.issues.json(issue.message)
+        case 'version': return text.issues.version(issue.found, SCENARIO_VERSION)
+        case 'required': return text.issues.required(path)
+        case 'type': return text.issues.type(path, issue.expected)
+        case 'range': return text.issues.range(path, issue.min, issue.max)
+        case 'choice': return text.issues.choice(path, issue.choices)
+        case 'length': return text.issues.length(path, issue.min, issue.exact)
+        case 'unknown': return text.issues.unknown(path)
+    }
+}
+
+/**
+ * シナリオの選択（同梱のシナリオか、教員が作った JSON ファイル）
+ * ファイルに問題があれば、項目の位置と直し方を一覧で表示する
+ */
+export default function ScenarioPicker({ scenario, locale, open, onToggle, onChange }: ScenarioPickerProps) {
+    const text = useMessages().scenario
+    const [failed, setFailed] = useState<{ name: string; issues: ScenarioIssue[] } | null>(null)
+
+    const handleFile = async (file: File) => {
+        let source: string
+        try {
+            source = await file.text()
+        } catch (error) {
+            // 読み込み中にファイルが消された・読めない場所にあるなど
+            setFailed({ name: file.name, issues: [{ kind: 'read', message: error instanceof Error ? error.message : String(error) }] })
+            return
+        }
+        const result = parseScenario(source)
+        if (result.ok) {
+            setFailed(null)
+            onChange(result.scenario)
+        } else {
+            setFailed({ name: file.name, issues: result.issues })
+        }
+    }
+
+    const badges = (s: Scenario) => [
+        s.timeLimit !== null ? text.timeLimit(formatExamTime(s.timeLimit)) : null,
+        text.passScore(s.pass.score),
+        s.pass.maxRedirections === 0 ? text.noRedirections : null,
+        s.gauge,
+    ].filter((badge): badge is string => badge !== null)
+
+    return (
+        <>
+            <div className="absolute top-3 left-72 z-30 pointer-events-auto flex items-center gap-2">
+                <button
+                    onClick={onToggle}
+                    aria-label={text.open}
+                    aria-expanded={open}
+                    title={text.open}
+                    className={`w-9 h-9 rounded-full border text-sm transition-colors backdrop-blur-md ${open || scenario
+                        ? 'bg-white/20 text-white border-white/30'
+                        : 'bg-black/50 text-white/60 border-white/10 hover:bg-white/10'
+                        }`}
+                >
+                    📋
+                </button>
+                {scenario && (
+                    <span className="max-w-[14rem] truncate bg-indigo-500/30 border border-indigo-400/40 rounded-full px-3 py-1 text-[10px] text-indigo-100 backdrop-blur-md">
+                        {text.active(localizedText(scenario.title, locale))}
+                    </span>
+                )}
+            </div>
+
+            {open && (
+                <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 pointer-events-auto px-4">
+                    <div
+                        role="dialog"
+                        aria-label={text.title}
+                        className="w-full max-w-sm max-h-[85vh] overflow-y-auto bg-slate-900/95 backdrop-blur-md rounded-2xl border border-white/15 p-4 shadow-2xl"
+                    >
+                        <div className="flex items-center justify-between mb-3">
+                            <h2 className="text-sm text-white font-bold tracking-wider">{text.title}</h2>
+                            <button onClick={onToggle} className="text-white/50 hover:text-white text-xs px-2 py-1">
+                                {text.close}
+                            </button>
+                        </div>
+
+                        {/* 同梱のシナリオ */}
+                        <div className="text-[10px] text-white/50 mb-1">{text.library}</div>
+                        <div className="space-y-1.5">
+                            {SCENARIO_LIBRARY.map((s) => (
+                                <button
+                                    key={s.id}
+                                    onClick={() => { setFailed(null); onChange(s) }}
+                                    aria-pressed={scenario?.id === s.id}
+                                    className={`w-full text-left rounded-xl border px-3 py-2 transition-all ${scenario?.id === s.id
+                                        ? 'bg-indigo-500/30 border-indigo-400/60'
+                                        : 'bg-white/5 border-white/10 hover:bg-white/10'
+                                        }`}
+                                >
+                                    <div className="text-xs text-white font-bold">{localizedText(s.title, locale)}</div>
+                                    <div className="text-[10px] text-white/50 mt-0.5 leading-snug">{localizedText(s.description, locale)}</div>
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                        {badges(s).map((badge) => (
+                                            <span key={badge} className="text-[9px] text-indigo-200/80 bg-indigo-500/15 rounded px-1.5">{badge}</span>
+                                        ))}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* 教員が作ったファイル */}
+                        <label className="mt-3 block w-full text-center py-2 rounded-xl text-xs font-bold bg-white/10 hover:bg-white/15 text-white/80 border border-white/10 cursor-pointer">
+                            {text.loadFile}
+                            <input
+                                type="file"
+                                accept="application/json,.json"
+                                className="sr-only"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0]
+                                    e.target.value = ''  // 同じファイルを直してから選び直せるようにする
+                                    if (file) handleFile(file)
+                                }}
+                            />
+                        </label>
+
+                        {failed && (
+                            <div role="alert" className="mt-3 rounded-xl border border-red-400/40 bg-red-500/10 p-2.5">
+                                <div className="text-[11px] text-red-200 font-bold mb-1">{text.invalid(failed.name)}</div>
+                                <ul className="space-y-0.5 text-[10px] text-red-200/80 font-mono">
+                                    {failed.issues.map((issue, i) => (
+                                        <li key={i}>・{issueText(issue, text)}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        {scenario && (
+                            <button
+                                onClick={() => { setFailed(null); onChange(null) }}
+                                className="mt-3 w-full py-2 rounded-xl text-xs text-white/60 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10"
+                            >
+                                {text.free}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </>
+    )
+}
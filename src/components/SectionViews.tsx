@@ -0,0 +1,200 @@
+import { useEffect, useState, type MutableRefObject } from 'react'
+import { skinDepth } from '../lib/anatomy'
+import { veinFrameAt, type TissueReading } from '../lib/tissue'
+import { useMessages } from '../lib/i18n'
+import {
+    armSectionOutline,
+    longitudinalSection,
+    needleProfile,
+    veinSectionOutline,
+    type SectionPoint,
+    type SectionProbe,
+} from '../lib/sectionViews'
+
+interface SectionViewsProps {
+    probeRef: MutableRefObject<SectionProbe | null>
+    tissue: TissueReading | null
+}
+
+const CROSS_SIZE = 120
+const LONG_WIDTH = 170
+const LONG_HEIGHT = 120
+
+// 縦断図で皮膚の上に表示する余白（皮膚からの深さ）
+const LONG_ABOVE_SKIN = 0.12
+
+const SKIN_FILL = 'rgba(240,188,138,0.25)'
+const SKIN_STROKE = 'rgba(240,188,138,0.5)'
+const WALL_FILL = 'rgba(140,20,20,0.8)'
+const LUMEN_FILL = 'rgba(204,34,34,0.7)'
+const NEEDLE_COLOR = '#66ffaa'
+
+function rightmost(points: SectionPoint[]): SectionPoint {
+    return points.reduce((best, point) => (point[0] > best[0] ? point : best))
+}
+
+function pathOf(points: SectionPoint[], close = true): string {
+    if (points.length === 0) return ''
+    return points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ') + (close ? ' Z' : '')
+}
+
+/**
+ * 3Dシーンが書き込む針先と静脈の状態を毎フレーム読み直して再描画する
+ */
+function useAnimationFrame() {
+    const [, setFrame] = useState(0)
+    useEffect(() => {
+        let id = requestAnimationFrame(function tick() {
+            setFrame((frame) => frame + 1)
+            id = requestAnimationFrame(tick)
+        })
+        return () => cancelAnimationFrame(id)
+    }, [])
+}
+
+/**
+ * 断面図（短軸）と縦断図（長軸）
+ * 針先の位置で3Dの腕と静脈の実際の形状を切り出して表示し、穿刺後も表示し続ける
+ */
+export default function SectionViews({ probeRef, tissue }: SectionViewsProps) {
+    useAnimationFrame()
+    const { sections, tissueLayers } = useMessages()
+    const probe = probeRef.current
+    if (!probe) return null
+
+    return (
+        <div className="bg-black/60 backdrop-blur-md rounded-xl border border-white/15 p-2 pointer-events-none">
+            {/* 刃先の現在の組織層 */}
+            {tissue && (
+                <div className="text-[9px] text-emerald-300/80 text-center mb-1 font-medium">
+                    {sections.tip(tissueLayers[tissue.tipLayer])}
+                </div>
+            )}
+            <div className="flex gap-2">
+                <CrossSectionView probe={probe} />
+                <LongitudinalView probe={probe} />
+            </div>
+        </div>
+    )
+}
+
+/**
+ * 断面図：針先の位置で腕を輪切りにした形状に、静脈と針先を重ねる
+ */
+function CrossSectionView({ probe }: { probe: SectionProbe }) {
+    const { tip, forward, vein } = probe
+    const { sections } = useMessages()
+    const skin = armSectionOutline(tip.y, vein.arm)
+    const dermis = armSectionOutline(tip.y, vein.arm, vein.skinThickness)
+    const veinSection = veinSectionOutline(vein, tip.y)
+
+    // 腕の輪郭が収まる縮尺（腕ローカルX: 横方向、ローカルZ: 正=上面(カメラ手前)、図では上）
+    const c = CROSS_SIZE / 2
+    const extent = Math.max(...skin.map(([x, z]) => Math.hypot(x, z)))
+    const scale = (c - 6) / extent
+    const toMap = ([x, z]: SectionPoint): SectionPoint => [c + x * scale, c - z * scale]
+
+    // 針の進行方向を断面に投影した向き（針が来る側に線を引く）
+    const [tipX, tipY] = toMap([tip.x, tip.z])
+    const projected = Math.hypot(forward.x, forward.z)
+    const shaftLength = 14 * Math.min(1, projected * 4)
+    const shaftX = projected > 1e-3 ? tipX - (forward.x / projected) * shaftLength : tipX
+    const shaftY = projected > 1e-3 ? tipY + (forward.z / projected) * shaftLength : tipY
+
+    return (
+        <div className="flex flex-col items-center">
+            <div className="text-[8px] text-white/40 text-center mb-1 tracking-wider">{sections.cross}</div>
+            <svg width={CROSS_SIZE} height={CROSS_SIZE} viewBox={`0 0 ${CROSS_SIZE} ${CROSS_SIZE}`} aria-hidden="true">
+                {/* 腕の断面と真皮の境界 */}
+                <path d={pathOf(skin.map(toMap))} fill={SKIN_FILL} stroke={SKIN_STROKE} strokeWidth={1.5} />
+                <path d={pathOf(dermis.map(toMap))} fill="none" stroke="rgba(240,188,138,0.2)" strokeWidth={0.5} strokeDasharray="3 3" />
+
+                {/* 静脈（血管壁と内腔） */}
+                {veinSection && (
+                    <>
+                        <path d={pathOf(veinSection.wall.map(toMap))} fill={WALL_FILL} />
+                        <path d={pathOf(veinSection.lumen.map(toMap))} fill={LUMEN_FILL} />
+                    </>
+                )}
+
+                {/* 針先と針が来る向き */}
+                <line x1={shaftX} y1={shaftY} x2={tipX} y2={tipY} stroke={NEEDLE_COLOR} strokeWidth={1} opacity={0.6} />
+                <circle cx={tipX} cy={tipY} r={2.5} fill="rgba(102,255,170,0.6)" stroke={NEEDLE_COLOR} strokeWidth={1} />
+
+                {/* ラベル */}
+                <text x={4} y={10} fill="rgba(255,255,255,0.3)" fontSize={7}>{sections.top}</text>
+                <text x={4} y={CROSS_SIZE - 4} fill="rgba(255,255,255,0.3)" fontSize={7}>{sections.bottom}</text>
+            </svg>
+        </div>
+    )
+}
+
+/**
+ * 縦断図：針先を通り静脈の走行に沿って切った面に、皮膚からの深さで前壁・後壁と針を重ねる
+ * 縦横は同じ縮尺にして、針の角度がそのまま見えるようにする
+ */
+function LongitudinalView({ probe }: { probe: SectionProbe }) {
+    const { tip, vein } = probe
+    const { sections } = useMessages()
+    const tipDepth = skinDepth(tip, vein.arm)
+
+    // 静脈全体と針先が収まる深さまで表示する
+    const frame = veinFrameAt(vein, tip.y)
+    const veinDepth = frame ? skinDepth(frame.center, vein.arm) : 0
+    const maxDepth = Math.max(0.5, veinDepth + vein.radius * 2.5, tipDepth + 0.1)
+    const scale = LONG_HEIGHT / (maxDepth + LONG_ABOVE_SKIN)
+    const halfSpan = LONG_WIDTH / 2 / scale
+    const from = tip.y - halfSpan
+    const to = tip.y + halfSpan
+
+    // 針が進む向き（腕ローカルY）が図の右になるようにする
+    const flip = probe.forward.y < 0
+    const toMap = ([y, depth]: SectionPoint): SectionPoint => [
+        (flip ? to - y : y - from) * scale,
+        (depth + LONG_ABOVE_SKIN) * scale,
+    ]
+
+    const samples = longitudinalSection(vein, tip, from, to)
+    const wallPath = (index: 0 | 1) => samples.filter((s) => s.wall).map((s) => toMap([s.y, s.wall![index]]))
+    const lumenTop = samples.filter((s) => s.lumen).map((s) => toMap([s.y, s.lumen![0]]))
+    const lumenBottom = samples.filter((s) => s.lumen).map((s) => toMap([s.y, s.lumen![1]]))
+    const wallTop = wallPath(0)
+    const wallBottom = wallPath(1)
+    const needle = needleProfile(probe, halfSpan * 2, -LONG_ABOVE_SKIN).map(toMap)
+    const [tipX, tipY] = toMap([tip.y, tipDepth])
+    const skinY = LONG_ABOVE_SKIN * scale
+    const dermisY = (vein.skinThickness + LONG_ABOVE_SKIN) * scale
+
+    return (
+        <div className="flex flex-col items-center">
+            <div className="text-[8px] text-white/40 text-center mb-1 tracking-wider">{sections.longitudinal}</div>
+            <svg width={LONG_WIDTH} height={LONG_HEIGHT} viewBox={`0 0 ${LONG_WIDTH} ${LONG_HEIGHT}`} aria-hidden="true">
+                {/* 皮膚と皮下組織 */}
+                <rect x={0} y={skinY} width={LONG_WIDTH} height={LONG_HEIGHT - skinY} fill={SKIN_FILL} />
+                <line x1={0} y1={skinY} x2={LONG_WIDTH} y2={skinY} stroke={SKIN_STROKE} strokeWidth={1.5} />
+                <line x1={0} y1={dermisY} x2={LONG_WIDTH} y2={dermisY} stroke="rgba(240,188,138,0.2)" strokeWidth={0.5} strokeDasharray="3 3" />
+
+                {/* 静脈（前壁〜後壁の間が血管壁、その内側が内腔） */}
+                {wallTop.length > 1 && (
+                    <path d={pathOf([...wallTop, ...[...wallBottom].reverse()])} fill={WALL_FILL} />
+                )}
+                {lumenTop.length > 1 && (
+                    <path d={pathOf([...lumenTop, ...[...lumenBottom].reverse()])} fill={LUMEN_FILL} />
+                )}
+                {wallTop.length > 1 && (
+                    <>
+                        <text x={LONG_WIDTH - 22} y={rightmost(wallTop)[1] - 2} fill="rgba(255,160,160,0.6)" fontSize={7}>{sections.anteriorWall}</text>
+                        <text x={LONG_WIDTH - 22} y={rightmost(wallBottom)[1] + 8} fill="rgba(255,160,160,0.6)" fontSize={7}>{sections.posteriorWall}</text>
+                    </>
+                )}
+
+                {/* 針（シャフトと針先） */}
+                <path d={pathOf(needle, false)} fill="none" stroke={NEEDLE_COLOR} strokeWidth={1.5} opacity={0.8} />
+                <circle cx={tipX} cy={tipY} r={2.5} fill="rgba(102,255,170,0.6)" stroke={NEEDLE_COLOR} strokeWidth={1} />
+                <line x1={0} y1={tipY} x2={LONG_WIDTH} y2={tipY} stroke={NEEDLE_COLOR} strokeWidth={0.5} opacity={0.25} strokeDasharray="2 3" />
+
+                <text x={4} y={skinY - 3} fill="rgba(255,255,255,0.3)" fontSize={7}>{sections.skin}</text>
+            </svg>
+        </div>
+    )
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react'
+import { DEEP_LINK_VERSION, type DeepLinkError } from '../lib/deepLink'
+import { useMessages, type Messages } from '../lib/i18n'
+import { issueText } from './ScenarioPicker'
+
+export type ShareNotice = 'copied' | 'updated'
+
+interface ShareLinkProps {
+    error: DeepLinkError | null
+    onShare: () => Promise<ShareNotice>
+    onDismiss: () => void
+}
+
+// リンクを作った後の通知を表示しておく時間（ms）
+const NOTICE_DURATION = 2500
+
+function errorText(error: DeepLinkError, text: Messages['share']): string {
+    switch (error.kind) {
+        case 'unsupported': return text.errors.unsupported(error.version, DEEP_LINK_VERSION)
+        case 'invalid': return text.errors.invalid
+        case 'unknown-scenario': return text.errors.unknownScenario(error.id)
+        case 'scenario': return text.errors.scenario
+    }
+}
+
+/**
+ * 共有リンク（今の症例・カメラ・針の状態を URL にしてコピーする）
+ * 開けなかったリンクは、その理由を表示する
+ */
+export default function ShareLink({ error, onShare, onDismiss }: ShareLinkProps) {
+    const messages = useMessages()
+    const text = messages.share
+    const [notice, setNotice] = useState<ShareNotice | null>(null)
+
+    useEffect(() => {
+        if (!notice) return
+        const id = setTimeout(() => setNotice(null), NOTICE_DURATION)
+        return () => clearTimeout(id)
+    }, [notice])
+
+    return (
+        <>
+            <div className="absolute top-3 right-72 z-30 pointer-events-auto">
+                <button
+                    onClick={() => onShare().then(setNotice)}
+                    aria-label={text.button}
+                    title={text.button}
+                    className="w-9 h-9 rounded-full border text-sm transition-colors backdrop-blur-md bg-black/50 text-white/60 border-white/10 hover:bg-white/10"
+                >
+                    🔗
+                </button>
+            </div>
+
+            {notice && (
+                <div role="status" className="absolute top-14 right-3 z-40 pointer-events-none">
+                    <div className="bg-emerald-500/20 border border-emerald-400/40 rounded-xl px-3 py-1.5 text-[11px] text-emerald-100 backdrop-blur-md shadow-lg">
+                        {text[notice]}
+                    </div>
+                </div>
+            )}
+
+            {error && (
+                <div className="absolute top-24 left-1/2 -translate-x-1/2 z-40 w-[min(92vw,26rem)] pointer-events-auto">
+                    <div role="alert" className="rounded-xl border border-red-400/40 bg-slate-900/90 p-3 backdrop-blur-md shadow-2xl">
+                        <div className="flex items-start gap-2">
+                            <div className="flex-1 text-[11px] text-red-200 font-bold leading-snug">{errorText(error, text)}</div>
+                            <button onClick={onDismiss} className="text-white/50 hover:text-white text-xs px-1">
+                                {text.dismiss}
+                            </button>
+                        </div>
+                        {error.kind === 'scenario' && (
+                            <ul className="mt-1.5 space-y-0.5 text-[10px] text-red-200/80 font-mono">
+                                {error.issues.map((issue, i) => (
+                                    <li key={i}>・{issueText(issue, messages.scenario)}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </>
+    )
+}
@@ -0,0 +1,39 @@
+import { PUNCTURE_SITES, type PunctureSite, type SiteId } from '../lib/sites'
+import { useMessages } from '../lib/i18n'
+
+interface SitePickerProps {
+    site: PunctureSite
+    onChange: (id: SiteId) => void
+}
+
+/**
+ * 穿刺部位の選択パネル（穿刺前のみ表示）
+ */
+export default function SitePicker({ site, onChange }: SitePickerProps) {
+    const { pickers, sites } = useMessages()
+    return (
+        <div className="absolute top-16 left-3 z-30 pointer-events-auto">
+            <div className="w-40 bg-black/60 backdrop-blur-md rounded-2xl border border-white/15 p-2.5 shadow-xl">
+                <div className="text-[9px] text-white/50 font-medium tracking-wider mb-1.5">{pickers.site}</div>
+                <div className="flex flex-col gap-1">
+                    {PUNCTURE_SITES.map((s) => (
+                        <button
+                            key={s.id}
+                            onClick={() => onChange(s.id)}
+                            className={`text-left px-2 py-1.5 rounded-lg text-[11px] font-medium transition-all ${s.id === site.id
+                                ? 'bg-rose-500/30 text-white border border-rose-400/50'
+                                : 'bg-white/5 text-white/60 border border-transparent hover:bg-white/10'
+                                }`}
+                        >
+                            {sites[s.id].name}
+                            {sites[s.id].name !== s.englishName && (
+                                <span className="block text-[8px] text-white/40 font-normal">{s.englishName}</span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[9px] text-white/40 leading-relaxed mt-2">{sites[site.id].description}</p>
+            </div>
+        </div>
+    )
+}
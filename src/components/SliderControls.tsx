@@ -1,8 +1,22 @@
+import type { Phase } from '../types'
+import { STYLET_FULL_WITHDRAW, canAdvanceCatheter, isFailurePhase } from '../lib/outcomes'
+import { CROSSING_MAX } from '../lib/needlePose'
+import type { TissueReading } from '../lib/tissue'
+import { gaugeLengthScale, type Gauge } from '../lib/gauges'
+import { CATHETER_FULL_ADVANCE } from '../lib/scoring'
+import type { CatheterBlock } from '../lib/catheter'
+import { useMessages } from '../lib/i18n'
 
 interface SliderControlsProps {
-    phase: 'pre-puncture' | 'punctured' | 'advancing' | 'completed'
+    phase: Phase
+    tissue: TissueReading | null
+    gauge: Gauge
+    lineConnected: boolean
     innerOffset: number
     outerOffset: number
+    catheterBlock: CatheterBlock | null  // 外筒が止められている理由（折れ曲がり・血管壁の抵抗）
+    catheterLocked: boolean  // 外筒スライダーを使えない（チュートリアルの手順外）
+    styletLocked: boolean    // 内筒スライダーを使えない（チュートリアルの手順外）
     onInnerChange: (value: number) => void
     onOuterChange: (value: number) => void
     onReset: () => void
@@ -11,16 +25,28 @@ interface SliderControlsProps {
 /**
  * 穿刺後に表示されるスライダーUI
  * 手順: 1.外筒を前進 → 2.内筒を引き抜き
+ * スライダーの範囲はゲージの外筒の長さに合わせる
  */
 export default function SliderControls({
     phase,
+    tissue,
+    gauge,
+    lineConnected,
     innerOffset,
     outerOffset,
+    catheterBlock,
+    catheterLocked,
+    styletLocked,
     onInnerChange,
     onOuterChange,
     onReset,
 }: SliderControlsProps) {
-    if (phase === 'pre-puncture') return null
+    const text = useMessages().slider
+    if (phase === 'pre-puncture' || isFailurePhase(phase)) return null
+
+    const lengthScale = gaugeLengthScale(gauge)
+    const outerDisabled = phase === 'completed' || catheterLocked
+    const innerDisabled = phase === 'punctured' || phase === 'completed' || styletLocked
 
     return (
         <div className="absolute bottom-0 left-0 right-0 z-10 pointer-events-auto">
@@ -28,43 +54,71 @@ export default function SliderControls({
             <div className="bg-gradient-to-t from-black/80 via-black/50 to-transparent pt-12 pb-6 px-4">
 
                 {/* ステータス表示 */}
-                <div className="text-center mb-4">
-                    {phase === 'punctured' && (
+                <div className="text-center mb-4" aria-hidden="true">
+                    {phase === 'punctured' && tissue?.tipLayer === 'posterior-wall' && (
+                        <div className="inline-flex items-center gap-2 bg-orange-500/20 border border-orange-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
+                            <span className="w-2 h-2 bg-orange-400 rounded-full animate-pulse"></span>
+                            <span className="text-orange-300 text-sm font-medium">{text.posteriorWall}</span>
+                        </div>
+                    )}
+                    {phase === 'punctured' && tissue?.tipLayer !== 'posterior-wall' && !tissue?.bevelInLumen && (
+                        <div className="inline-flex items-center gap-2 bg-yellow-500/20 border border-yellow-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
+                            <span className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse"></span>
+                            <span className="text-yellow-300 text-sm font-medium">{text.seatBevel}</span>
+                        </div>
+                    )}
+                    {phase === 'punctured' && tissue?.tipLayer !== 'posterior-wall' && tissue?.bevelInLumen && tissue.veinCrossing > CROSSING_MAX && (
+                        <div className="inline-flex items-center gap-2 bg-yellow-500/20 border border-yellow-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
+                            <span className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse"></span>
+                            <span className="text-yellow-300 text-sm font-medium">{text.crossing}</span>
+                        </div>
+                    )}
+                    {(phase === 'punctured' || phase === 'advancing') && catheterBlock && (
+                        <div className="inline-flex items-center gap-2 bg-orange-500/20 border border-orange-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
+                            <span className="w-2 h-2 bg-orange-400 rounded-full animate-pulse"></span>
+                            <span className="text-orange-300 text-sm font-medium">{text.blocks[catheterBlock]}</span>
+                        </div>
+                    )}
+                    {phase === 'punctured' && tissue?.tipLayer !== 'posterior-wall' && canAdvanceCatheter(tissue) && !catheterBlock && (
                         <div className="inline-flex items-center gap-2 bg-red-500/20 border border-red-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
                             <span className="w-2 h-2 bg-red-400 rounded-full animate-pulse"></span>
-                            <span className="text-red-300 text-sm font-medium">逆血確認 — 外筒を進めてください</span>
+                            <span className="text-red-300 text-sm font-medium">{text.advanceCatheter}</span>
                         </div>
                     )}
-                    {phase === 'advancing' && (
+                    {phase === 'advancing' && !catheterBlock && (
                         <div className="inline-flex items-center gap-2 bg-blue-500/20 border border-blue-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
                             <span className="w-2 h-2 bg-blue-400 rounded-full animate-pulse"></span>
-                            <span className="text-blue-300 text-sm font-medium">内筒を引き抜いてください</span>
+                            <span className="text-blue-300 text-sm font-medium">{text.withdrawStylet}</span>
                         </div>
                     )}
                     {phase === 'completed' && (
                         <div className="inline-flex items-center gap-2 bg-green-500/20 border border-green-400/40 rounded-full px-4 py-1.5 backdrop-blur-sm">
                             <span className="w-2 h-2 bg-green-400 rounded-full"></span>
-                            <span className="text-green-300 text-sm font-medium">留置完了！</span>
+                            <span className="text-green-300 text-sm font-medium">
+                                {lineConnected ? text.completed : text.connectLine}
+                            </span>
                         </div>
                     )}
                 </div>
 
                 {/* スライダーコントロール */}
                 <div className="max-w-md mx-auto space-y-4">
-                    {/* ① 外筒スライダー（まず外筒を前進させる） */}
-                    <div className={`flex items-center gap-3 transition-opacity ${phase === 'advancing' || phase === 'completed' ? 'opacity-40' : ''}`}>
+                    {/* ① 外筒スライダー（まず外筒を前進させる、内筒引き抜き中も根元まで送り込める） */}
+                    <div className={`flex items-center gap-3 transition-opacity ${outerDisabled ? 'opacity-40' : ''}`}>
                         <div className="flex-shrink-0 w-20">
-                            <span className="text-xs text-blue-300 font-medium block">外筒</span>
-                            <span className="text-[10px] text-blue-500/70">（カテーテル）</span>
+                            <span className="text-xs text-blue-300 font-medium block">{text.catheter}</span>
+                            <span className="text-[10px] text-blue-500/70">{text.catheterNote}</span>
                         </div>
                         <div className="flex-1 relative">
                             <input
                                 type="range"
                                 min={0}
-                                max={1.5}
+                                max={CATHETER_FULL_ADVANCE * lengthScale}
                                 step={0.01}
                                 value={outerOffset}
                                 onChange={(e) => onOuterChange(parseFloat(e.target.value))}
+                                aria-label={text.catheterSlider}
+                                aria-valuetext={`→${outerOffset.toFixed(1)}`}
                                 className="w-full h-2 rounded-full appearance-none cursor-pointer
                   bg-gradient-to-r from-blue-800 to-blue-400
                   [&::-webkit-slider-thumb]:appearance-none
@@ -77,7 +131,7 @@ export default function SliderControls({
                   [&::-webkit-slider-thumb]:border-2
                   [&::-webkit-slider-thumb]:border-blue-200
                   [&::-webkit-slider-thumb]:cursor-pointer"
-                                disabled={phase === 'advancing' || phase === 'completed'}
+                                disabled={outerDisabled}
                             />
                         </div>
                         <div className="flex-shrink-0 w-12 text-right">
@@ -87,19 +141,21 @@ export default function SliderControls({
 
                     {/* ② 内筒スライダー（外筒前進後に引き抜く） */}
                     {/* デフォルト: 右端(0)=挿入状態、左にスライド(-3.5)=引き抜き */}
-                    <div className={`flex items-center gap-3 transition-opacity ${phase === 'punctured' || phase === 'completed' ? 'opacity-40' : ''}`}>
+                    <div className={`flex items-center gap-3 transition-opacity ${innerDisabled ? 'opacity-40' : ''}`}>
                         <div className="flex-shrink-0 w-20">
-                            <span className="text-xs text-gray-300 font-medium block">内筒</span>
-                            <span className="text-[10px] text-gray-500">（金属針）</span>
+                            <span className="text-xs text-gray-300 font-medium block">{text.stylet}</span>
+                            <span className="text-[10px] text-gray-500">{text.styletNote}</span>
                         </div>
                         <div className="flex-1 relative">
                             <input
                                 type="range"
-                                min={-3.5}
+                                min={STYLET_FULL_WITHDRAW * lengthScale}
                                 max={0}
                                 step={0.01}
                                 value={innerOffset}
                                 onChange={(e) => onInnerChange(parseFloat(e.target.value))}
+                                aria-label={text.styletSlider}
+                                aria-valuetext={`←${Math.abs(innerOffset).toFixed(1)}`}
                                 className="w-full h-2 rounded-full appearance-none cursor-pointer
                   bg-gradient-to-r from-gray-600 to-gray-400
                   [&::-webkit-slider-thumb]:appearance-none
@@ -111,7 +167,7 @@ export default function SliderControls({
                   [&::-webkit-slider-thumb]:border-2
                   [&::-webkit-slider-thumb]:border-gray-300
                   [&::-webkit-slider-thumb]:cursor-pointer"
-                                disabled={phase === 'punctured' || phase === 'completed'}
+                                disabled={innerDisabled}
                             />
                         </div>
                         <div className="flex-shrink-0 w-12 text-right">
@@ -130,7 +186,7 @@ export default function SliderControls({
               backdrop-blur-sm transition-all duration-200
               active:scale-95"
                     >
-                        リセット
+                        {text.reset}
                     </button>
                 </div>
             </div>
@@ -0,0 +1,45 @@
+import type { FeedbackSettings } from '../lib/feedback'
+import { useMessages } from '../lib/i18n'
+
+interface SoundControlsProps {
+    settings: FeedbackSettings
+    onChange: (settings: FeedbackSettings) => void
+}
+
+/**
+ * 音と振動のミュート切り替えと音量
+ */
+export default function SoundControls({ settings, onChange }: SoundControlsProps) {
+    const { muted, volume } = settings
+    const { sound } = useMessages()
+    return (
+        <div className="absolute top-3 right-3 z-30 pointer-events-auto">
+            <div className="flex items-center gap-2 bg-black/50 backdrop-blur-md rounded-full border border-white/10 pl-1 pr-3 py-1">
+                <button
+                    onClick={() => onChange({ ...settings, muted: !muted })}
+                    className={`w-7 h-7 rounded-full flex items-center justify-center text-sm transition-colors ${muted
+                        ? 'bg-white/5 text-white/40 hover:bg-white/10'
+                        : 'bg-white/15 text-white hover:bg-white/20'
+                        }`}
+                    title={muted ? sound.unmute : sound.mute}
+                    aria-label={muted ? sound.unmute : sound.mute}
+                >
+                    {muted ? '🔇' : volume < 0.5 ? '🔉' : '🔊'}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={volume}
+                    disabled={muted}
+                    onChange={(e) => onChange({ ...settings, volume: Number(e.target.value) })}
+                    className="w-20 accent-blue-400 disabled:opacity-40"
+                    title={sound.volume(Math.round(volume * 100))}
+                    aria-label={sound.volumeLabel}
+                    aria-valuetext={sound.volume(Math.round(volume * 100))}
+                />
+            </div>
+        </div>
+    )
+}
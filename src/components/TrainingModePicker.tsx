@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react'
+import type { TrainingMode } from '../types'
+import {
+    TRAINING_MODES,
+    formatExamTime,
+    type ExamResult,
+} from '../lib/training'
+import { useMessages } from '../lib/i18n'
+
+interface TrainingModePickerProps {
+    training: TrainingMode
+    timed: boolean               // 制限時間がある（試験か、制限時間のあるシナリオ）
+    examStartedAt: number        // 制限時間を計り始めた時刻（performance.now）
+    examRunning: boolean         // 制限時間を計っているか
+    timeLimit: number            // 制限時間（ms、シナリオで変わる）
+    examResults: ExamResult[]
+    onChange: (training: TrainingMode) => void
+}
+
+/**
+ * 練習の形式（チュートリアル・練習・試験）の切り替え
+ * 制限時間があれば残り時間を、試験中はこれまでの試験結果も表示する
+ */
+export default function TrainingModePicker({ training, timed, examStartedAt, examRunning, timeLimit, examResults, onChange }: TrainingModePickerProps) {
+    const text = useMessages().training
+    const [now, setNow] = useState(() => performance.now())
+    useEffect(() => {
+        if (!examRunning) return
+        setNow(performance.now())
+        const id = setInterval(() => setNow(performance.now()), 250)
+        return () => clearInterval(id)
+    }, [examRunning])
+
+    const remaining = timeLimit - (now - examStartedAt)
+    const best = examResults.reduce<ExamResult | null>((b, r) => (!b || r.total > b.total ? r : b), null)
+
+    return (
+        <div className="absolute top-3 left-3 z-30 pointer-events-auto">
+            <div className="w-40 bg-black/60 backdrop-blur-md rounded-2xl border border-white/15 p-1.5 shadow-xl">
+                <div className="flex gap-1">
+                    {TRAINING_MODES.map((m) => (
+                        <button
+                            key={m}
+                            onClick={() => m !== training && onChange(m)}
+                            title={text.descriptions[m]}
+                            className={`flex-1 py-1 rounded-lg text-[9px] font-bold transition-all border ${m === training
+                                ? 'bg-indigo-500/40 text-white border-indigo-400/60'
+                                : 'bg-white/5 text-white/50 border-transparent hover:bg-white/10'
+                                }`}
+                        >
+                            {text.modes[m]}
+                        </button>
+                    ))}
+                </div>
+                {timed && (
+                    <div className="flex items-baseline justify-between px-1 mt-1">
+                        <span className={`text-xs font-mono font-bold ${examRunning && remaining < 30_000 ? 'text-red-300 animate-pulse' : 'text-white/80'}`}>
+                            {text.remaining(formatExamTime(examRunning ? remaining : timeLimit))}
+                        </span>
+                        {training === 'exam' && (
+                            <span className="text-[9px] text-white/40">
+                                {best ? text.best(best.total, examResults.length) : text.noRecords}
+                            </span>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,28 @@
+import { TUTORIAL_STEPS, type TutorialStep } from '../lib/training'
+import { useMessages } from '../lib/i18n'
+
+interface TutorialCardProps {
+    step: TutorialStep
+}
+
+/**
+ * チュートリアルの手順案内（いま行う手順と、その操作の説明）
+ */
+export default function TutorialCard({ step }: TutorialCardProps) {
+    const { title, text } = useMessages().tutorial[step]
+    const index = TUTORIAL_STEPS.indexOf(step)
+
+    return (
+        <div className="absolute top-20 left-0 right-0 z-10 pointer-events-none">
+            <div className="mx-auto w-[min(92vw,30rem)] bg-indigo-950/70 border border-indigo-400/30 rounded-2xl px-4 py-1.5 backdrop-blur-md shadow-lg">
+                <div className="flex items-baseline gap-2">
+                    <span className="text-[9px] text-indigo-300/80 font-mono">
+                        {index + 1}/{TUTORIAL_STEPS.length}
+                    </span>
+                    <span className="text-white text-xs font-bold tracking-wider">{title}</span>
+                </div>
+                <p className="text-white/60 text-[10px] leading-snug">{text}</p>
+            </div>
+        </div>
+    )
+}
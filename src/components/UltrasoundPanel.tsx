@@ -0,0 +1,140 @@
+import { useEffect, useRef, type MutableRefObject } from 'react'
+import type { PunctureSite } from '../lib/sites'
+import type { SectionProbe } from '../lib/sectionViews'
+import {
+    IMAGE_DEPTH,
+    PROBE_ANGLE_RANGE,
+    PROBE_WIDTH,
+    PROBE_Y_RANGE,
+    ULTRASOUND_VIEWS,
+    renderBMode,
+    type UltrasoundProbe,
+} from '../lib/ultrasound'
+import { useMessages } from '../lib/i18n'
+
+interface UltrasoundPanelProps {
+    probe: UltrasoundProbe
+    site: PunctureSite
+    sectionRef: MutableRefObject<SectionProbe | null>
+    onChange: (probe: UltrasoundProbe) => void
+    onClose: () => void
+}
+
+// Bモード画像の解像度（表示は拡大する）と更新間隔（ms）
+const IMAGE_WIDTH = 128
+const IMAGE_HEIGHT = Math.round((IMAGE_WIDTH * IMAGE_DEPTH) / PROBE_WIDTH)
+const DISPLAY_WIDTH = 176
+const FRAME_INTERVAL = 50
+
+/**
+ * エコーガイド下穿刺の Bモード画像とプローブの操作パネル
+ * プローブの位置・向き（短軸/長軸）・圧迫の強さを変えられる
+ */
+export default function UltrasoundPanel({ probe, site, sectionRef, onChange, onClose }: UltrasoundPanelProps) {
+    const text = useMessages().ultrasound
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const probeRef = useRef(probe)
+    probeRef.current = probe
+
+    // 3Dシーンが書き込む針先と静脈の状態から、一定間隔で画像を描き直す
+    useEffect(() => {
+        const context = canvasRef.current?.getContext('2d')
+        if (!context) return
+        const image = context.createImageData(IMAGE_WIDTH, IMAGE_HEIGHT)
+        let last = 0
+        let id = requestAnimationFrame(function draw(now) {
+            const section = sectionRef.current
+            if (section && now - last >= FRAME_INTERVAL) {
+                last = now
+                renderBMode(image.data, IMAGE_WIDTH, IMAGE_HEIGHT, probeRef.current, section, now / 1000)
+                context.putImageData(image, 0, 0)
+            }
+            id = requestAnimationFrame(draw)
+        })
+        return () => cancelAnimationFrame(id)
+    }, [sectionRef])
+
+    const update = (change: Partial<UltrasoundProbe>) => onChange({ ...probe, ...change })
+
+    return (
+        <div className="bg-black/70 backdrop-blur-md rounded-xl border border-white/15 p-2 w-[12.25rem] pointer-events-auto">
+            <div className="flex items-center justify-between mb-1.5">
+                <span className="text-[10px] text-sky-200 font-bold tracking-wider">{text.title}</span>
+                <button onClick={onClose} aria-label={text.close} className="text-white/40 hover:text-white text-xs px-1">✕</button>
+            </div>
+
+            {/* Bモード画像（左上の●がプローブのマーカー側） */}
+            <div className="relative rounded-md overflow-hidden border border-white/10">
+                <canvas
+                    ref={canvasRef}
+                    width={IMAGE_WIDTH}
+                    height={IMAGE_HEIGHT}
+                    style={{ width: DISPLAY_WIDTH, height: (DISPLAY_WIDTH * IMAGE_HEIGHT) / IMAGE_WIDTH, imageRendering: 'auto' }}
+                    className="block bg-black"
+                    role="img"
+                    aria-label={text.image}
+                />
+                <span className="absolute top-1 left-1.5 text-[8px] text-sky-300">●</span>
+                <span className="absolute bottom-1 right-1.5 text-[8px] text-white/40">{text.views[probe.view]}</span>
+            </div>
+
+            {/* 短軸・長軸の切り替え */}
+            <div className="flex gap-1 mt-2">
+                {ULTRASOUND_VIEWS.map((view) => (
+                    <button
+                        key={view}
+                        onClick={() => update({ view })}
+                        aria-pressed={probe.view === view}
+                        className={`flex-1 py-1 rounded-lg text-[10px] font-bold border transition-all ${probe.view === view
+                            ? 'bg-sky-500/40 text-white border-sky-400/60'
+                            : 'bg-white/5 text-white/50 border-white/10 hover:bg-white/10'
+                            }`}
+                    >
+                        {text.views[view]}
+                    </button>
+                ))}
+            </div>
+
+            {/* プローブの位置・向き・圧迫 */}
+            <label className="block mt-2 text-[9px] text-white/50">
+                {text.axial}
+                <input
+                    type="range"
+                    min={site.target.y - PROBE_Y_RANGE}
+                    max={site.target.y + PROBE_Y_RANGE}
+                    step={0.05}
+                    value={probe.y}
+                    onChange={(e) => update({ y: Number(e.target.value) })}
+                    className="w-full accent-sky-400"
+                />
+            </label>
+            <label className="block text-[9px] text-white/50">
+                {text.circumferential}
+                <input
+                    type="range"
+                    min={site.target.angle - PROBE_ANGLE_RANGE}
+                    max={site.target.angle + PROBE_ANGLE_RANGE}
+                    step={1}
+                    value={probe.angle}
+                    onChange={(e) => update({ angle: Number(e.target.value) })}
+                    className="w-full accent-sky-400"
+                />
+            </label>
+            <label className="block text-[9px] text-white/50">
+                {text.pressure(Math.round(probe.pressure * 100))}
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={probe.pressure}
+                    onChange={(e) => update({ pressure: Number(e.target.value) })}
+                    className="w-full accent-sky-400"
+                />
+            </label>
+            {probe.pressure > 0.6 && (
+                <p className="text-[9px] text-orange-300/90 mt-0.5">{text.pressureWarning}</p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,193 @@
+import * as THREE from 'three'
+
+/**
+ * 腕・血管の解剖学的形状定義
+ * Armコンポーネントの描画と組織判定（tissue.ts）で同じ形状を共有する
+ */
+
+// 前腕の長さ（ローカルY方向）
+export const ARM_LENGTH = 14
+
+// 腕グループのワールド配置（Armコンポーネントの<group>と一致させる）
+export const ARM_POSITION: [number, number, number] = [0, -0.8, 0]
+export const ARM_ROTATION: [number, number, number] = [0, 0, Math.PI / 2]
+
+// 腕ローカル座標 ⇔ ワールド座標の変換行列
+const armMatrix = new THREE.Matrix4().compose(
+    new THREE.Vector3(...ARM_POSITION),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...ARM_ROTATION)),
+    new THREE.Vector3(1, 1, 1),
+)
+const armMatrixInverse = armMatrix.clone().invert()
+const armQuaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(...ARM_ROTATION))
+const armQuaternionInverse = armQuaternion.clone().invert()
+
+export function worldToArmLocal(world: THREE.Vector3, target = new THREE.Vector3()): THREE.Vector3 {
+    return target.copy(world).applyMatrix4(armMatrixInverse)
+}
+
+export function worldDirectionToArmLocal(direction: THREE.Vector3, target = new THREE.Vector3()): THREE.Vector3 {
+    return target.copy(direction).applyQuaternion(armQuaternionInverse)
+}
+
+export function armLocalToWorld(local: THREE.Vector3, target = new THREE.Vector3()): THREE.Vector3 {
+    return target.copy(local).applyMatrix4(armMatrix)
+}
+
+export function armDirectionToWorld(direction: THREE.Vector3, target = new THREE.Vector3()): THREE.Vector3 {
+    return target.copy(direction).applyQuaternion(armQuaternion)
+}
+
+// 腕の体格パラメータ（患者プロファイルごとに変わる）
+export interface ArmShape {
+    wristRadius: number   // 手首の太さ
+    elbowRadius: number   // 肘の太さ
+    muscleBulge: number   // 前腕中間部の筋肉の膨らみ
+    handScale: number     // 拳の幅・厚みの倍率
+}
+
+export const DEFAULT_ARM_SHAPE: ArmShape = {
+    wristRadius: 0.45,
+    elbowRadius: 0.95,
+    muscleBulge: 0.12,
+    handScale: 1,
+}
+
+/**
+ * 前腕断面上の1点を計算する
+ * angle: 円柱の周方向角度（atan2(z, x)）、t: 0=手首 ~ 1=肘、r: 円柱半径（表面=1）
+ * 戻り値は腕ローカル座標の [x, z]
+ */
+export function armCrossSection(angle: number, t: number, r = 1, shape = DEFAULT_ARM_SHAPE): [number, number] {
+    // 非線形テーパー：手首が細く、中間部に筋肉の膨らみ、肘に向かって広がる
+    const { wristRadius, elbowRadius } = shape
+    const muscleBulge = Math.sin(t * Math.PI * 0.85) * shape.muscleBulge
+    const taper = wristRadius + (elbowRadius - wristRadius) * t + muscleBulge
+
+    // 断面形状：前腕の解剖学的断面（やや扁平な楕円＋角度依存の変形）
+    const radiusX = 1.15  // 左右にやや広い
+    const radiusTop = 0.65  // 背側（上面）はやや平ら
+    const radiusBottom = 0.75  // 掌側（下面）はやや丸い
+    const radiusZ = Math.sin(angle) > 0 ? radiusTop : radiusBottom
+
+    let newX = r * Math.cos(angle) * radiusX * taper
+    let newZ = r * Math.sin(angle) * radiusZ * taper
+
+    // 尺骨茎状突起（手首の骨の出っ張り：ulna styloid）
+    if (t < 0.12) {
+        const boneT = 1 - t / 0.12
+        const boneAngle = Math.PI * 0.3  // 尺側の位置
+        const boneDist = Math.cos(angle - boneAngle)
+        if (boneDist > 0.7) {
+            const bump = boneDist * 0.06 * boneT * boneT
+            newX += bump * Math.cos(angle)
+            newZ += bump * Math.sin(angle)
+        }
+    }
+
+    // 橈骨茎状突起（反対側の手首の骨）
+    if (t < 0.1) {
+        const boneT = 1 - t / 0.1
+        const boneAngle = -Math.PI * 0.3
+        const boneDist = Math.cos(angle - boneAngle)
+        if (boneDist > 0.7) {
+            const bump = boneDist * 0.05 * boneT * boneT
+            newX += bump * Math.cos(angle)
+            newZ += bump * Math.sin(angle)
+        }
+    }
+
+    // 中間部の筋肉（屈筋群・伸筋群）の微細な形状
+    if (t > 0.2 && t < 0.7) {
+        const muscleT = Math.sin((t - 0.2) / 0.5 * Math.PI)
+        // 屈筋（掌側やや尺側）
+        const flexorAngle = Math.PI * 0.7
+        const flexor = Math.max(0, Math.cos(angle - flexorAngle)) * 0.04 * muscleT
+        // 伸筋（背側やや橈側）
+        const extensorAngle = -Math.PI * 0.3
+        const extensor = Math.max(0, Math.cos(angle - extensorAngle)) * 0.03 * muscleT
+        const muscleBump = (flexor + extensor) * taper
+        newX += muscleBump * Math.cos(angle)
+        newZ += muscleBump * Math.sin(angle)
+    }
+
+    // 肘付近の広がり（上腕骨内側上顆・外側上顆）
+    if (t > 0.85) {
+        const elbowT = (t - 0.85) / 0.15
+        const elbowBump = Math.abs(Math.cos(angle)) * 0.08 * elbowT * elbowT
+        newX += elbowBump * Math.cos(angle)
+    }
+
+    return [newX, newZ]
+}
+
+// 拳（手）の楕円体：中心（腕ローカルY）と各軸の半径
+export const FIST_CENTER_Y = -7.8
+export const FIST_RADII: [number, number, number] = [0.5, 0.42, 0.55]
+
+/**
+ * 体格に合わせた拳の楕円体の半径（腕の軸方向の長さは変えない）
+ */
+export function fistRadii(shape = DEFAULT_ARM_SHAPE): [number, number, number] {
+    const [fx, fy, fz] = FIST_RADII
+    return [fx * shape.handScale, fy, fz * shape.handScale]
+}
+
+/**
+ * 腕の軸から見た、指定方向の皮膚表面までの距離
+ * y: 腕ローカルY、direction: 腕断面上の方向（atan2(z, x)）
+ * 前腕（手首より肘側）と拳の楕円体の和集合として扱う
+ */
+export function skinSurfaceRadius(y: number, direction: number, shape = DEFAULT_ARM_SHAPE): number {
+    let radius = 0
+
+    if (y >= -ARM_LENGTH / 2) {
+        const t = Math.min(1, (y + ARM_LENGTH / 2) / ARM_LENGTH)
+        // 断面は非等方なので、表面点の方向が目標方向に一致する周方向角度を数回の補正で求める
+        let angle = direction
+        let surface = armCrossSection(angle, t, 1, shape)
+        for (let i = 0; i < 3; i++) {
+            const error = direction - Math.atan2(surface[1], surface[0])
+            angle += Math.atan2(Math.sin(error), Math.cos(error))
+            surface = armCrossSection(angle, t, 1, shape)
+        }
+        radius = Math.hypot(surface[0], surface[1])
+    }
+
+    const [fx, fy, fz] = fistRadii(shape)
+    const dy = (y - FIST_CENTER_Y) / fy
+    if (Math.abs(dy) < 1) {
+        const scale = Math.sqrt(1 - dy * dy)
+        const fistRadius = 1 / Math.hypot(Math.cos(direction) / (fx * scale), Math.sin(direction) / (fz * scale))
+        radius = Math.max(radius, fistRadius)
+    }
+
+    return radius
+}
+
+/**
+ * 腕ローカル座標の点の皮膚表面からの深さ（腕の軸から放射方向に測る、皮膚の外は負）
+ */
+export function skinDepth(local: THREE.Vector3, shape = DEFAULT_ARM_SHAPE): number {
+    return skinSurfaceRadius(local.y, Math.atan2(local.z, local.x), shape) - Math.hypot(local.x, local.z)
+}
+
+/**
+ * 腕表面からの深さで指定した点を腕ローカル座標に変換する
+ * angle: 腕断面上の方向（度、+X=0°、+Z=90°）、depth: 皮膚表面からの深さ
+ */
+export function pointBelowSkin(y: number, angle: number, depth: number, shape = DEFAULT_ARM_SHAPE): [number, number, number] {
+    const direction = THREE.MathUtils.degToRad(angle)
+    const radius = skinSurfaceRadius(y, direction, shape) - depth
+    return [Math.cos(direction) * radius, y, Math.sin(direction) * radius]
+}
+
+// 静脈の血管壁の厚み
+export const VEIN_WALL_THICKNESS = 0.018
+
+// 皮膚（表皮＋真皮）の厚み（標準的な成人）
+export const SKIN_THICKNESS = 0.04
+
+export function createVeinCurve(path: [number, number, number][]): THREE.CatmullRomCurve3 {
+    return new THREE.CatmullRomCurve3(path.map(([x, y, z]) => new THREE.Vector3(x, y, z)))
+}
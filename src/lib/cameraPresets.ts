@@ -0,0 +1,92 @@
+import * as THREE from 'three'
+
+/**
+ * カメラの視点プリセットと、視点の間を滑らかに移動するアニメーション
+ * 位置は穿刺部位のカメラ注視点からのオフセット（腕の軸がX、針の手元側が+X、上が+Y）
+ */
+
+export type CameraPreset =
+    | 'top-down'        // 真上から（血管の走行と針の振り角を見る）
+    | 'cross-section'   // 腕の軸に沿った横から（断面で刺入の深さを見る）
+    | 'operator'        // 術者の目線（針の手元側の斜め上から）
+
+export const CAMERA_PRESETS: CameraPreset[] = ['top-down', 'cross-section', 'operator']
+
+// 起動時と穿刺した時の視点
+export const DEFAULT_CAMERA_PRESET: CameraPreset = 'cross-section'
+
+// 真上はわずかに手前（+Z）へずらし、OrbitControls の向きが定まるようにする
+const PRESET_OFFSETS: Record<CameraPreset, THREE.Vector3> = {
+    'top-down': new THREE.Vector3(0, 8, 0.4),
+    'cross-section': new THREE.Vector3(7, 1.1, 1.0),
+    'operator': new THREE.Vector3(4.5, 3.5, 2.5),
+}
+
+export function cameraPresetPosition(preset: CameraPreset, target: THREE.Vector3): THREE.Vector3 {
+    return target.clone().add(PRESET_OFFSETS[preset])
+}
+
+// ===== 移動のアニメーション =====
+
+// 視点の移動にかける時間（秒）
+export const CAMERA_MOVE_DURATION = 0.8
+
+export interface CameraMove {
+    fromPosition: THREE.Vector3
+    fromTarget: THREE.Vector3
+    toPosition: THREE.Vector3
+    toTarget: THREE.Vector3
+    elapsed: number   // 経過時間（秒）
+}
+
+export function createCameraMove(
+    fromPosition: THREE.Vector3,
+    fromTarget: THREE.Vector3,
+    toPosition: THREE.Vector3,
+    toTarget: THREE.Vector3,
+): CameraMove {
+    return {
+        fromPosition: fromPosition.clone(),
+        fromTarget: fromTarget.clone(),
+        toPosition: toPosition.clone(),
+        toTarget: toTarget.clone(),
+        elapsed: 0,
+    }
+}
+
+// 動き出しと止まり際をゆっくりにする
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+
+/**
+ * 移動を delta 秒進め、カメラの位置と注視点を書き換える（移動が終わったら true）
+ */
+export function stepCameraMove(move: CameraMove, delta: number, position: THREE.Vector3, target: THREE.Vector3): boolean {
+    move.elapsed = Math.min(move.elapsed + delta, CAMERA_MOVE_DURATION)
+    const t = easeInOutCubic(move.elapsed / CAMERA_MOVE_DURATION)
+    position.lerpVectors(move.fromPosition, move.toPosition, t)
+    target.lerpVectors(move.fromTarget, move.toTarget, t)
+    return move.elapsed >= CAMERA_MOVE_DURATION
+}
+
+// ===== 針先を追う小窓 =====
+
+// 小窓の位置と大きさ（画面の右上からの CSS ピクセル）
+export const TIP_VIEW_RECT = { right: 12, top: 64, width: 224, height: 168 }
+
+// 針先からの距離と高さ（針の横から、刺入の深さが見えるように）
+const TIP_VIEW_DISTANCE = 1.8
+const TIP_VIEW_HEIGHT = 0.3
+
+const up = new THREE.Vector3(0, 1, 0)
+
+/**
+ * 針先を横から見る位置にカメラを置く（針の水平方向に直交する、手前（+Z）側）
+ */
+export function aimTipCamera(camera: THREE.Camera, tip: THREE.Vector3, forward: THREE.Vector3): void {
+    const side = new THREE.Vector3().crossVectors(forward, up)
+    if (side.lengthSq() < 1e-6) side.set(0, 0, 1)
+    side.normalize()
+    if (side.z < 0) side.negate()
+    camera.position.copy(tip).addScaledVector(side, TIP_VIEW_DISTANCE).addScaledVector(up, TIP_VIEW_HEIGHT)
+    camera.lookAt(tip)
+}
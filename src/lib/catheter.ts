@@ -0,0 +1,130 @@
+import * as THREE from 'three'
+import { armDirectionToWorld, armLocalToWorld, worldToArmLocal } from './anatomy'
+import { tissueLayerAt, veinFrameAt, type VeinModel } from './tissue'
+import { CATHETER_ADVANCE_START } from './outcomes'
+
+/**
+ * 外筒（カテーテル）の前進
+ * 内筒の針先を越えた外筒は針の軸に沿って押し出され、血管の内腔を進む
+ * 浅い角度で血管壁に当たった外筒はしなって血管の走行に沿うが、
+ * 角度を下げないまま後壁に当たると折れ曲がり（キンク）、横から壁に当たると抵抗で進まなくなる
+ */
+
+export type CatheterBlock = 'kink' | 'wall'
+
+// 血管壁に当たった外筒が、しなって走行に沿える針と血管の走行のなす角の上限（度）
+export const CATHETER_DEFLECT_ANGLE = 16
+
+// 外筒の先端を辿る刻み
+const TRACE_STEP = 0.02
+
+// 壁に沿った外筒の先端が血管の中心へ押し戻される強さ
+const CENTERING = 2
+
+export interface CatheterTrace {
+    limit: number                // 外筒を進められる最大のオフセット
+    block: CatheterBlock | null  // limit で止まる理由（止まらなければ null）
+    path: THREE.Vector3[]        // 針先から辿った外筒の先端の位置（ワールド座標、TRACE_STEP 刻み）
+    threading: boolean           // 針先が内腔にあり、外筒が血管内を進んでいるか
+}
+
+// 3Dシーンが毎フレーム書き込む、外筒を進められる範囲と血管内に入っている長さ
+export interface CatheterStatus {
+    limit: number                // 外筒を進められる最大のオフセット
+    block: CatheterBlock | null  // limit で止まる理由
+    inVein: number               // 外筒のうち血管内腔にある長さ
+}
+
+const local = new THREE.Vector3()
+const across = new THREE.Vector3()
+
+// 血管の、ある位置での走行方向と中心（ワールド座標）
+interface VeinAxis {
+    tangent: THREE.Vector3
+    center: THREE.Vector3
+}
+
+/**
+ * point の位置での血管の走行方向（direction と同じ向き）と中心。血管が通っていなければ null
+ */
+function veinAxisAt(vein: VeinModel, point: THREE.Vector3, direction: THREE.Vector3): VeinAxis | null {
+    const frame = veinFrameAt(vein, worldToArmLocal(point, local).y)
+    if (!frame) return null
+    const tangent = armDirectionToWorld(frame.tangent)
+    if (tangent.dot(direction) < 0) tangent.negate()
+    return { tangent, center: armLocalToWorld(frame.center) }
+}
+
+/**
+ * 外筒の先端が針先（CATHETER_ADVANCE_START）から maxOffset まで進む道筋を、静脈の形状に沿って辿る
+ * 針と血管の走行のなす角が CATHETER_DEFLECT_ANGLE 以内なら、壁に当たった外筒は走行に沿って進み続ける
+ * 針先が内腔になければ針の軸に沿ってまっすぐ進む（早期前進の判定は outcomes.ts に任せる）
+ */
+export function traceCatheter(vein: VeinModel, needleTip: THREE.Vector3, forward: THREE.Vector3, maxOffset: number): CatheterTrace {
+    const path = [needleTip.clone()]
+    const threading = tissueLayerAt(vein, needleTip, forward) === 'lumen'
+    const approach = veinAxisAt(vein, needleTip, forward)?.tangent ?? null
+    const block: CatheterBlock | null = !approach
+        ? 'wall'
+        : THREE.MathUtils.radToDeg(approach.angleTo(forward)) > CATHETER_DEFLECT_ANGLE
+            ? blockOf(forward, approach)
+            : null
+    const direction = forward.clone()
+    for (let offset = CATHETER_ADVANCE_START + TRACE_STEP; offset <= maxOffset + 1e-6; offset += TRACE_STEP) {
+        const last = path[path.length - 1]
+        const next = last.clone().addScaledVector(direction, TRACE_STEP)
+        // モデル化した血管の端より先は、血管がそのまま続いているものとする
+        const modeled = veinFrameAt(vein, worldToArmLocal(next, local).y) !== null
+        if (threading && modeled && tissueLayerAt(vein, next, direction) !== 'lumen') {
+            // 血管壁に当たった：角度が浅ければ壁に押し返され、走行に沿いつつ血管の中心へ向かう
+            const axis = block === null ? veinAxisAt(vein, last, direction) : null
+            if (!axis) return { limit: offset - TRACE_STEP, block: block ?? 'wall', path, threading }
+            across.subVectors(axis.center, last)
+            across.addScaledVector(axis.tangent, -across.dot(axis.tangent))
+            direction.copy(axis.tangent).addScaledVector(across, CENTERING).normalize()
+            next.copy(last).addScaledVector(direction, TRACE_STEP)
+            if (tissueLayerAt(vein, next, direction) !== 'lumen') {
+                return { limit: offset - TRACE_STEP, block: 'wall', path, threading }
+            }
+        }
+        path.push(next)
+    }
+    return { limit: maxOffset, block: null, path, threading }
+}
+
+/**
+ * 壁に当たった向きが主に上下（後壁に突き当たる）か、左右（側壁に当たる）か
+ */
+function blockOf(direction: THREE.Vector3, tangent: THREE.Vector3): CatheterBlock {
+    const pitch = Math.abs(Math.asin(direction.y) - Math.asin(tangent.y))
+    const heading = Math.abs(Math.atan2(direction.z, direction.x) - Math.atan2(tangent.z, tangent.x))
+    return pitch >= Math.min(heading, Math.PI * 2 - heading) ? 'kink' : 'wall'
+}
+
+const point = new THREE.Vector3()
+
+/**
+ * 外筒のうち血管内腔にある長さ
+ * 針先より前は辿った道筋（血管内を進んでいれば全て内腔）、手前は内筒に沿ってまっすぐ並んでいるものとする
+ */
+export function catheterLengthInVein(
+    vein: VeinModel,
+    trace: CatheterTrace,
+    forward: THREE.Vector3,
+    outerOffset: number,
+    catheterLength: number,
+): number {
+    let length = 0
+    const advanced = Math.max(0, Math.min(outerOffset, trace.limit) - CATHETER_ADVANCE_START)
+    const ahead = Math.min(catheterLength, advanced)
+    for (let d = advanced - ahead + TRACE_STEP / 2; d < advanced; d += TRACE_STEP) {
+        const index = Math.min(trace.path.length - 1, Math.round(d / TRACE_STEP))
+        if (trace.threading || tissueLayerAt(vein, trace.path[index], forward) === 'lumen') length += TRACE_STEP
+    }
+    const behind = Math.max(0, CATHETER_ADVANCE_START - outerOffset)
+    for (let d = behind + TRACE_STEP / 2; d < behind + catheterLength - ahead; d += TRACE_STEP) {
+        point.copy(trace.path[0]).addScaledVector(forward, -d)
+        if (tissueLayerAt(vein, point, forward) === 'lumen') length += TRACE_STEP
+    }
+    return Math.min(length, catheterLength)
+}
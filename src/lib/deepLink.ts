@@ -0,0 +1,187 @@
+import type { Phase, ProgressPhase, TrainingMode } from '../types'
+import { FAILURE_PHASES, STYLET_FULL_WITHDRAW } from './outcomes'
+import { PROCEDURE_STEPS, type ProcedureStep } from './procedure'
+import { PUNCTURE_SITES, type SiteId } from './sites'
+import { PATIENT_PROFILES, type PatientId } from './patients'
+import { GAUGES, gaugeLengthScale, getGauge, type GaugeId } from './gauges'
+import { TRAINING_MODES } from './training'
+import { serializeScenario, validateScenario, type Scenario, type ScenarioIssue } from './scenario'
+import { SCENARIO_LIBRARY } from './scenarioLibrary'
+import { NEEDLE_ANGLE_MAX, NEEDLE_ANGLE_MIN, NEEDLE_YAW_LIMIT, type NeedlePose } from './needlePose'
+import { CATHETER_FULL_ADVANCE } from './scoring'
+
+/**
+ * 共有リンク（URL のハッシュに、症例・カメラ・針・フェーズを詰める）
+ * 形式は "#v1.<base64url の JSON>"。形式を変える時は版を上げて新しい decode を加え、古い版の decode は残す
+ * （古い版のリンクは今の DeepLink に読み替えて開く。読み替えられない版は、その旨のエラーにする）
+ */
+
+export const DEEP_LINK_VERSION = 1
+
+export interface DeepLink {
+    site: SiteId
+    patient: PatientId
+    gauge: GaugeId
+    training: TrainingMode
+    scenario: Scenario | null
+    camera: { position: [number, number, number]; target: [number, number, number] }
+    needlePos: [number, number, number]
+    needlePose: NeedlePose
+    phase: Phase
+    outerOffset: number
+    innerOffset: number
+    steps: ProcedureStep[]   // 済ませた手順（実施順）
+}
+
+export type DeepLinkError =
+    | { kind: 'unsupported'; version: number }
+    | { kind: 'invalid' }
+    | { kind: 'unknown-scenario'; id: string }
+    | { kind: 'scenario'; issues: ScenarioIssue[] }
+
+export type DeepLinkResult = { ok: true; link: DeepLink } | { ok: false; error: DeepLinkError }
+
+const PROGRESS_PHASES: readonly ProgressPhase[] = ['pre-puncture', 'punctured', 'advancing', 'completed']
+const PHASES: readonly Phase[] = [...PROGRESS_PHASES, ...FAILURE_PHASES]
+
+const HASH_PATTERN = /^#v(\d+)\.([A-Za-z0-9_-]+)$/
+
+// 座標・角度は小数4桁まで（リンクを短くする。見た目と判定が変わらない精度）
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+// ===== base64url（UTF-8 の JSON を URL にそのまま置ける文字だけで表す） =====
+
+function toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text)
+    let binary = ''
+    for (const byte of bytes) binary += String.fromCharCode(byte)
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(payload: string): string {
+    const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)))
+}
+
+// ===== v1 =====
+
+// v1 の中身（キーは1文字にして短くする）
+interface LinkV1 {
+    c: [SiteId, PatientId, GaugeId, TrainingMode]                  // 症例と練習の形式
+    x: string | Record<string, unknown> | null                      // 同梱シナリオの id か、シナリオのファイル形式
+    k: [number, number, number, number, number, number]             // カメラの位置と注視点
+    n: [number, number, number, number, number, number]             // 針の位置と姿勢（刺入角度・振り角・刃面）
+    f: [number, number]                                             // 外筒・内筒のオフセット
+    p: Phase
+    s: number[]                                                     // 済ませた手順（PROCEDURE_STEPS の番号）
+}
+
+const isNumbers = (value: unknown, length: number): value is number[] =>
+    Array.isArray(value) && value.length === length && value.every((v) => typeof v === 'number' && Number.isFinite(v))
+
+const isOneOf = <T>(value: unknown, choices: readonly T[]): value is T => choices.includes(value as T)
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// 丸めで範囲の端をわずかに越えた値は許す
+const ROUNDING_SLACK = 0.001
+const isWithin = (value: number, min: number, max: number) => value >= min - ROUNDING_SLACK && value <= max + ROUNDING_SLACK
+
+/**
+ * 針の姿勢とスライダーの位置が、画面の操作で届く範囲にあるか
+ */
+function isReachable(gauge: GaugeId, n: number[], f: number[]): boolean {
+    const scale = gaugeLengthScale(getGauge(gauge))
+    return isWithin(n[3], NEEDLE_ANGLE_MIN, NEEDLE_ANGLE_MAX)
+        && isWithin(n[4], -NEEDLE_YAW_LIMIT, NEEDLE_YAW_LIMIT)
+        && isWithin(n[5], -180, 180)
+        && isWithin(f[0], 0, CATHETER_FULL_ADVANCE * scale)
+        && isWithin(f[1], STYLET_FULL_WITHDRAW * scale, 0)
+}
+
+function decodeV1(payload: string): DeepLinkResult {
+    let data: unknown
+    try {
+        data = JSON.parse(fromBase64Url(payload))
+    } catch {
+        return { ok: false, error: { kind: 'invalid' } }
+    }
+    if (!isObject(data)) return { ok: false, error: { kind: 'invalid' } }
+    const { c, x, k, n, f, p, s } = data as Partial<LinkV1>
+    const valid = Array.isArray(c)
+        && isOneOf(c[0], PUNCTURE_SITES.map((site) => site.id))
+        && isOneOf(c[1], PATIENT_PROFILES.map((patient) => patient.id))
+        && isOneOf(c[2], GAUGES.map((gauge) => gauge.id))
+        && isOneOf(c[3], TRAINING_MODES)
+        && isNumbers(k, 6)
+        && isNumbers(n, 6)
+        && isNumbers(f, 2)
+        && isOneOf(p, PHASES)
+        && Array.isArray(s) && s.every((i) => Number.isInteger(i) && PROCEDURE_STEPS[i] !== undefined)
+        && isReachable(c[2], n, f)
+    if (!valid) return { ok: false, error: { kind: 'invalid' } }
+
+    let scenario: Scenario | null = null
+    if (typeof x === 'string') {
+        scenario = SCENARIO_LIBRARY.find((bundled) => bundled.id === x) ?? null
+        if (!scenario) return { ok: false, error: { kind: 'unknown-scenario', id: x } }
+    } else if (x !== null && x !== undefined) {
+        const result = validateScenario(x)
+        if (!result.ok) return { ok: false, error: { kind: 'scenario', issues: result.issues } }
+        scenario = result.scenario
+    }
+
+    return {
+        ok: true,
+        link: {
+            site: c[0],
+            patient: c[1],
+            gauge: c[2],
+            training: c[3],
+            scenario,
+            camera: { position: [k[0], k[1], k[2]], target: [k[3], k[4], k[5]] },
+            needlePos: [n[0], n[1], n[2]],
+            needlePose: { angle: n[3], yaw: n[4], roll: n[5] },
+            phase: p,
+            outerOffset: f[0],
+            innerOffset: f[1],
+            steps: s.map((i) => PROCEDURE_STEPS[i]),
+        },
+    }
+}
+
+// 版ごとの読み方（古い版も残しておく）
+const DECODERS: Record<number, (payload: string) => DeepLinkResult> = {
+    1: decodeV1,
+}
+
+/**
+ * 現在の状態を URL のハッシュにする
+ */
+export function encodeDeepLink(link: DeepLink): string {
+    const { scenario } = link
+    const data: LinkV1 = {
+        c: [link.site, link.patient, link.gauge, link.training],
+        // 同梱のシナリオは id だけ、ファイルから読んだシナリオは中身ごと入れる
+        x: scenario === null ? null : SCENARIO_LIBRARY.includes(scenario) ? scenario.id : serializeScenario(scenario),
+        k: [...link.camera.position, ...link.camera.target].map(round) as LinkV1['k'],
+        n: [...link.needlePos, link.needlePose.angle, link.needlePose.yaw, link.needlePose.roll].map(round) as LinkV1['n'],
+        f: [round(link.outerOffset), round(link.innerOffset)],
+        p: link.phase,
+        s: link.steps.map((step) => PROCEDURE_STEPS.indexOf(step)),
+    }
+    return `#v${DEEP_LINK_VERSION}.${toBase64Url(JSON.stringify(data))}`
+}
+
+/**
+ * URL のハッシュを読む（共有リンクの形でなければ null）
+ */
+export function decodeDeepLink(hash: string): DeepLinkResult | null {
+    const match = HASH_PATTERN.exec(hash)
+    if (!match) return null
+    const version = Number(match[1])
+    const decode = DECODERS[version]
+    if (!decode) return { ok: false, error: { kind: 'unsupported', version } }
+    return decode(match[2])
+}
@@ -0,0 +1,133 @@
+/**
+ * 音と振動による手応え
+ * 皮膚・血管壁を貫いた時の「プツッ」、後壁に当たった時の警告音、留置完了のチャイムを鳴らす
+ * 音は Web Audio API でその場で合成し（音声ファイルは使わない）、モバイルでは同じタイミングで振動させる
+ */
+
+export type FeedbackCue = 'skin-pop' | 'vein-pop' | 'back-wall' | 'success'
+
+export interface FeedbackSettings {
+    muted: boolean    // 音と振動を止める
+    volume: number    // 音量（0〜1）
+}
+
+export const DEFAULT_FEEDBACK_SETTINGS: FeedbackSettings = { muted: false, volume: 0.6 }
+
+// 振動のパターン（ms、振動・停止の繰り返し）
+const VIBRATION_PATTERNS: Record<FeedbackCue, number[]> = {
+    'skin-pop': [12],
+    'vein-pop': [8, 40, 8],
+    'back-wall': [90, 60, 90],
+    'success': [30, 60, 30, 60, 120],
+}
+
+let context: AudioContext | null = null
+
+/**
+ * 共有の AudioContext（ブラウザの自動再生制限で止まっていれば再開する）
+ */
+function audioContext(): AudioContext | null {
+    if (typeof window === 'undefined' || !window.AudioContext) return null
+    context ??= new AudioContext()
+    if (context.state === 'suspended') void context.resume()
+    return context
+}
+
+interface ToneOptions {
+    type: OscillatorType
+    frequency: number
+    endFrequency?: number   // 指定すれば発音中にこの周波数まで指数的に変化する
+    start: number           // 再生開始からの遅れ（秒）
+    duration: number
+    gain: number
+}
+
+/**
+ * 立ち上がりの速い減衰音を1つ鳴らす
+ */
+function tone(ctx: AudioContext, output: AudioNode, { type, frequency, endFrequency, start, duration, gain }: ToneOptions) {
+    const t = ctx.currentTime + start
+    const oscillator = ctx.createOscillator()
+    oscillator.type = type
+    oscillator.frequency.setValueAtTime(frequency, t)
+    if (endFrequency !== undefined) oscillator.frequency.exponentialRampToValueAtTime(endFrequency, t + duration)
+
+    const envelope = ctx.createGain()
+    envelope.gain.setValueAtTime(0.0001, t)
+    envelope.gain.exponentialRampToValueAtTime(gain, t + 0.005)
+    envelope.gain.exponentialRampToValueAtTime(0.0001, t + duration)
+
+    oscillator.connect(envelope).connect(output)
+    oscillator.start(t)
+    oscillator.stop(t + duration + 0.02)
+}
+
+/**
+ * 組織が弾ける感触の短いノイズ（帯域を絞ったホワイトノイズ）
+ */
+function noiseBurst(ctx: AudioContext, output: AudioNode, frequency: number, duration: number, gain: number) {
+    const t = ctx.currentTime
+    const buffer = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * duration), ctx.sampleRate)
+    const data = buffer.getChannelData(0)
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1
+
+    const source = ctx.createBufferSource()
+    source.buffer = buffer
+    const filter = ctx.createBiquadFilter()
+    filter.type = 'bandpass'
+    filter.frequency.value = frequency
+    filter.Q.value = 4
+    const envelope = ctx.createGain()
+    envelope.gain.setValueAtTime(gain, t)
+    envelope.gain.exponentialRampToValueAtTime(0.0001, t + duration)
+
+    source.connect(filter).connect(envelope).connect(output)
+    source.start(t)
+}
+
+// 留置完了のチャイム（C5・E5・G5・C6、Hz）
+const CHIME_NOTES = [523.25, 659.25, 783.99, 1046.5]
+
+/**
+ * 合図ごとの音の組み立て
+ */
+function synthesize(ctx: AudioContext, output: AudioNode, cue: FeedbackCue) {
+    switch (cue) {
+        case 'skin-pop':
+            // 皮膚：やや低く、抵抗が抜ける感じ
+            noiseBurst(ctx, output, 1200, 0.05, 0.35)
+            tone(ctx, output, { type: 'sine', frequency: 420, endFrequency: 140, start: 0, duration: 0.08, gain: 0.4 })
+            break
+        case 'vein-pop':
+            // 血管壁：皮膚より軽く高い
+            noiseBurst(ctx, output, 2400, 0.035, 0.25)
+            tone(ctx, output, { type: 'sine', frequency: 760, endFrequency: 300, start: 0, duration: 0.06, gain: 0.3 })
+            break
+        case 'back-wall':
+            // 後壁：低い2連の警告音
+            tone(ctx, output, { type: 'triangle', frequency: 330, start: 0, duration: 0.18, gain: 0.35 })
+            tone(ctx, output, { type: 'triangle', frequency: 247, start: 0.22, duration: 0.28, gain: 0.35 })
+            break
+        case 'success':
+            // 留置完了：ド・ミ・ソ・ドの上行アルペジオ
+            CHIME_NOTES.forEach((frequency, i) => {
+                tone(ctx, output, { type: 'sine', frequency, start: i * 0.09, duration: 0.5, gain: 0.25 })
+            })
+            break
+    }
+}
+
+/**
+ * 合図の音を鳴らし、対応していれば端末を振動させる（ミュート中は何もしない）
+ */
+export function playFeedback(cue: FeedbackCue, settings: FeedbackSettings) {
+    if (settings.muted) return
+    if (typeof navigator !== 'undefined' && 'vibrate' in navigator) navigator.vibrate(VIBRATION_PATTERNS[cue])
+    if (settings.volume <= 0) return
+    const ctx = audioContext()
+    if (!ctx) return
+    const output = ctx.createGain()
+    output.gain.value = settings.volume
+    output.connect(ctx.destination)
+    synthesize(ctx, output, cue)
+}
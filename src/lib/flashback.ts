@@ -0,0 +1,61 @@
+import type { Gauge } from './gauges'
+import type { TissueReading } from './tissue'
+import { engorgedFlashbackSpeed } from './tourniquet'
+
+/**
+ * フラッシュバック（逆血）
+ * 刃面が血管内腔に入ると、静脈圧で血液が内筒を通ってハブのフラッシュバックチャンバーに流れ込む（1回目）
+ * 外筒の先端まで血管内に入ると、内筒と外筒の隙間を伝って外筒にも血液が上がってくる（2回目）
+ */
+
+// 刃面が血管内腔にどこまで入っているか
+export type BevelPosition = 'outside' | 'partial' | 'full'
+
+export interface FlashbackState {
+    chamber: number     // フラッシュバックチャンバーが血液で満ちた割合（0〜1）
+    catheter: number    // 外筒の先端から血液が上がってきた割合（0〜1）
+}
+
+export function createFlashbackState(): FlashbackState {
+    return { chamber: 0, catheter: 0 }
+}
+
+// 22Gで刃面全体が内腔に入っている時、チャンバーが満ちるまでの速さ（1秒あたりの割合）
+const CHAMBER_FILL_RATE = 0.7
+
+// 刃面の一部しか内腔に入っていない時の流れ込みの割合（刃面の開口が狭い）
+const PARTIAL_BEVEL_FLOW = 0.3
+
+// 22Gで外筒の隙間を血液が上がってくる速さ（1秒あたりの割合、チャンバーより細く遅い）
+const CATHETER_FILL_RATE = 0.35
+
+export function bevelPosition(reading: TissueReading | null): BevelPosition {
+    if (!reading || reading.tipLayer !== 'lumen') return 'outside'
+    return reading.bevelInLumen ? 'full' : 'partial'
+}
+
+/**
+ * 逆血を1フレーム分進める
+ * 流れ込む速さは太いゲージほど、駆血で怒張しているほど、刃面が深く入っているほど速い
+ * 一度流れ込んだ血液は針を抜くまで残る
+ */
+export function stepFlashback(
+    state: FlashbackState,
+    bevel: BevelPosition,
+    catheterInLumen: boolean,
+    gauge: Gauge,
+    engorgement: number,
+    delta: number,
+) {
+    const speed = engorgedFlashbackSpeed(gauge.flashbackSpeed, engorgement)
+    const bevelFlow = bevel === 'full' ? 1 : bevel === 'partial' ? PARTIAL_BEVEL_FLOW : 0
+    state.chamber = Math.min(1, state.chamber + delta * CHAMBER_FILL_RATE * speed * bevelFlow)
+    if (catheterInLumen) {
+        state.catheter = Math.min(1, state.catheter + delta * CATHETER_FILL_RATE * speed)
+    }
+}
+
+export function resetFlashback(state: FlashbackState) {
+    state.chamber = 0
+    state.catheter = 0
+}
@@ -0,0 +1,63 @@
+/**
+ * 留置針のゲージカタログ（14G〜24G）
+ * 太さ・長さは実寸（mm）の比率でモデル寸法に換算し、ハブの色は国際的な色分けに従う
+ */
+
+export type GaugeId = '14G' | '16G' | '18G' | '20G' | '22G' | '24G'
+
+export interface Gauge {
+    id: GaugeId
+    outerDiameter: number       // 外筒の外径（mm）
+    length: number              // 外筒の長さ（mm）
+    hubColor: number            // ハブの色
+    flashbackSpeed: number      // 逆血がフラッシュバックチャンバーに現れる速さ（22G=1 の相対値）
+    veinEntryTolerance: number  // 細い血管への入りやすさ（内腔判定の許容幅に加算）
+}
+
+export const GAUGES: Gauge[] = [
+    { id: '14G', outerDiameter: 2.1, length: 51, hubColor: 0xf08a24, flashbackSpeed: 2.2, veinEntryTolerance: -0.012 },
+    { id: '16G', outerDiameter: 1.7, length: 51, hubColor: 0x9a9a9a, flashbackSpeed: 1.8, veinEntryTolerance: -0.008 },
+    { id: '18G', outerDiameter: 1.3, length: 32, hubColor: 0x3cb44b, flashbackSpeed: 1.45, veinEntryTolerance: -0.004 },
+    { id: '20G', outerDiameter: 1.1, length: 32, hubColor: 0xf48fb1, flashbackSpeed: 1.2, veinEntryTolerance: 0 },
+    { id: '22G', outerDiameter: 0.9, length: 25, hubColor: 0x66baff, flashbackSpeed: 1, veinEntryTolerance: 0.003 },
+    { id: '24G', outerDiameter: 0.7, length: 19, hubColor: 0xf5d142, flashbackSpeed: 0.7, veinEntryTolerance: 0.006 },
+]
+
+export const DEFAULT_GAUGE_ID: GaugeId = '22G'
+
+export function getGauge(id: GaugeId): Gauge {
+    return GAUGES.find((gauge) => gauge.id === id) ?? GAUGES[GAUGES.length - 2]
+}
+
+// モデル寸法の基準（22Gの外筒：外径0.9mm → 半径0.025、長さ25mm → 2.1）
+const BASE_GAUGE = { outerDiameter: 0.9, length: 25 }
+const BASE_OUTER_RADIUS = 0.025
+const BASE_CATHETER_LENGTH = 2.1
+
+// 内筒（金属針）の外径は外筒の外径に対するおおよその比
+const STYLET_DIAMETER_RATIO = 0.64
+
+export interface GaugeDimensions {
+    outerRadius: number      // 外筒チューブの半径
+    innerRadius: number      // 内筒（金属針）の半径
+    catheterLength: number   // 外筒チューブの長さ
+}
+
+/**
+ * ゲージの実寸をモデル寸法に換算する
+ */
+export function gaugeDimensions(gauge: Gauge): GaugeDimensions {
+    const outerRadius = BASE_OUTER_RADIUS * (gauge.outerDiameter / BASE_GAUGE.outerDiameter)
+    return {
+        outerRadius,
+        innerRadius: outerRadius * STYLET_DIAMETER_RATIO,
+        catheterLength: BASE_CATHETER_LENGTH * gaugeLengthScale(gauge),
+    }
+}
+
+/**
+ * 22Gに対する外筒の長さの比（外筒の前進量・内筒の引き抜き量の基準を補正する）
+ */
+export function gaugeLengthScale(gauge: Gauge): number {
+    return gauge.length / BASE_GAUGE.length
+}
@@ -0,0 +1,169 @@
+import type { FailurePhase, TrainingMode } from '../types'
+import { redirectionCount, type AttemptLog, type ScoreReport } from './scoring'
+import type { GaugeId } from './gauges'
+import type { PatientId } from './patients'
+import type { SiteId } from './sites'
+
+/**
+ * 学習の記録（試行ごとの結果と、その推移の集計）
+ * 記録は historyStore.ts でブラウザの IndexedDB に保存し、再読み込み後も残す
+ */
+
+export type AttemptOutcome = 'completed' | FailurePhase
+
+export interface AttemptRecord {
+    id?: number                    // 保存時に IndexedDB が振る番号
+    finishedAt: number             // 終了した日時（Date.now）
+    training: TrainingMode
+    site: SiteId
+    patient: PatientId
+    gauge: GaugeId
+    scenario: string | null        // 使ったシナリオの id
+    outcome: AttemptOutcome
+    total: number                  // 得点（失敗は0点）
+    max: number
+    passed: boolean
+    angle: number | null           // 皮膚刺入時の刺入角度（度）
+    duration: number | null        // 穿刺モード開始から終了までの時間（ms）
+    skinEntries: number
+    redirections: number
+    veinCrossing: number | null    // 血管の走行との交差角（度）
+    targetDistance: number | null  // 血管に到達した位置とターゲットの距離
+    catheterInVein: number | null  // 血管内に留置できた外筒の長さ（mm）
+}
+
+/**
+ * 終わった試行を記録にまとめる（失敗は0点で不合格、時間は失敗した時点まで）
+ */
+export function createAttemptRecord(
+    log: AttemptLog,
+    report: ScoreReport,
+    failure: FailurePhase | null,
+    now: number,
+    training: TrainingMode,
+    site: SiteId,
+    patient: PatientId,
+    scenario: string | null,
+): AttemptRecord {
+    const end = log.finishedAt ?? now
+    return {
+        finishedAt: Date.now(),
+        training,
+        site,
+        patient,
+        gauge: log.gauge,
+        scenario,
+        outcome: failure ?? 'completed',
+        total: failure === null ? report.total : 0,
+        max: report.max,
+        passed: failure === null && report.passed,
+        angle: log.skinEntryAngle,
+        duration: log.startedAt !== null ? end - log.startedAt : null,
+        skinEntries: log.skinEntries,
+        redirections: redirectionCount(log),
+        veinCrossing: log.veinCrossing,
+        targetDistance: log.targetDistance,
+        catheterInVein: log.catheterInVein,
+    }
+}
+
+export function isSuccess(record: AttemptRecord): boolean {
+    return record.outcome === 'completed'
+}
+
+// ===== 集計 =====
+
+// 学習曲線の成功率を平均する直近の試行数
+export const LEARNING_CURVE_WINDOW = 5
+
+export interface LearningCurvePoint {
+    attempt: number      // 何回目の試行か（1から）
+    successRate: number  // 直近 LEARNING_CURVE_WINDOW 回の成功率（0〜1）
+    score: number        // その試行の得点率（0〜1）
+}
+
+/**
+ * 試行を重ねるごとの成功率と得点の推移（古い順）
+ */
+export function learningCurve(records: AttemptRecord[]): LearningCurvePoint[] {
+    const ordered = [...records].sort((a, b) => a.finishedAt - b.finishedAt)
+    return ordered.map((record, i) => {
+        const recent = ordered.slice(Math.max(0, i + 1 - LEARNING_CURVE_WINDOW), i + 1)
+        return {
+            attempt: i + 1,
+            successRate: recent.filter(isSuccess).length / recent.length,
+            score: record.max > 0 ? record.total / record.max : 0,
+        }
+    })
+}
+
+export interface SiteBest {
+    site: SiteId
+    total: number            // 最高得点
+    max: number
+    duration: number | null  // 最短の所要時間（ms、成功した試行のみ）
+    attempts: number
+}
+
+export interface HistorySummary {
+    attempts: number
+    successes: number
+    successRate: number              // 0〜1
+    averageAngle: number | null      // 皮膚に刺入した試行の平均刺入角度（度）
+    averageDuration: number | null   // 成功した試行の平均所要時間（ms）
+    failures: { outcome: FailurePhase; count: number }[]  // 多い順
+    bests: SiteBest[]
+}
+
+function average(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+}
+
+/**
+ * 記録全体の集計（成功率・平均・よくある失敗・部位ごとの自己ベスト）
+ */
+export function summarizeHistory(records: AttemptRecord[]): HistorySummary {
+    const successes = records.filter(isSuccess)
+
+    const failureCounts = new Map<FailurePhase, number>()
+    for (const record of records) {
+        if (record.outcome !== 'completed') {
+            failureCounts.set(record.outcome, (failureCounts.get(record.outcome) ?? 0) + 1)
+        }
+    }
+
+    const bests = new Map<SiteId, SiteBest>()
+    for (const record of records) {
+        const best = bests.get(record.site) ?? { site: record.site, total: 0, max: record.max, duration: null, attempts: 0 }
+        best.attempts++
+        if (record.total > best.total) {
+            best.total = record.total
+            best.max = record.max
+        }
+        if (isSuccess(record) && record.duration !== null && (best.duration === null || record.duration < best.duration)) {
+            best.duration = record.duration
+        }
+        bests.set(record.site, best)
+    }
+
+    return {
+        attempts: records.length,
+        successes: successes.length,
+        successRate: records.length > 0 ? successes.length / records.length : 0,
+        averageAngle: average(records.flatMap((r) => (r.angle !== null ? [r.angle] : []))),
+        averageDuration: average(successes.flatMap((r) => (r.duration !== null ? [r.duration] : []))),
+        failures: [...failureCounts].map(([outcome, count]) => ({ outcome, count })).sort((a, b) => b.count - a.count),
+        bests: [...bests.values()],
+    }
+}
+
+// ===== 書き出し =====
+
+export const HISTORY_EXPORT_VERSION = 1
+
+/**
+ * 記録を JSON に書き出す（形式が変わった時に見分けられるよう版を付ける）
+ */
+export function exportHistory(records: AttemptRecord[]): string {
+    return JSON.stringify({ version: HISTORY_EXPORT_VERSION, exportedAt: new Date().toISOString(), attempts: records }, null, 2)
+}
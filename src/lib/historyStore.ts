@@ -0,0 +1,66 @@
+import type { AttemptRecord } from './history'
+
+/**
+ * 学習の記録の保存先（ブラウザの IndexedDB）
+ * 保存できない環境（プライベートブラウズなど）では Promise が失敗するので、呼び出し側で画面内の記録だけを使う
+ */
+
+const DB_NAME = 'iv-catheter-simulator'
+const DB_VERSION = 1
+const ATTEMPT_STORE = 'attempts'
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'))
+            return
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(ATTEMPT_STORE, { keyPath: 'id', autoIncrement: true })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    }).catch((error) => {
+        database = null  // 次の呼び出しで開き直す
+        throw error
+    })
+    return database
+}
+
+/**
+ * 1回のトランザクションで store を操作し、その結果を返す
+ * 書き込みが確定する（トランザクションの complete）まで待つ。失敗や中断（容量超過など）は reject する
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase()
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(ATTEMPT_STORE, mode)
+        const request = run(transaction.objectStore(ATTEMPT_STORE))
+        transaction.oncomplete = () => resolve(request.result)
+        transaction.onerror = () => reject(request.error ?? transaction.error)
+        transaction.onabort = () => reject(transaction.error ?? request.error ?? new Error('IndexedDB transaction was aborted'))
+    })
+}
+
+/**
+ * 保存済みの試行をすべて読み込む（古い順）
+ */
+export async function loadAttempts(): Promise<AttemptRecord[]> {
+    const records = await withStore('readonly', (store) => store.getAll() as IDBRequest<AttemptRecord[]>)
+    return records.sort((a, b) => a.finishedAt - b.finishedAt)
+}
+
+/**
+ * 試行を保存し、振られた番号を付けて返す
+ */
+export async function saveAttempt(record: AttemptRecord): Promise<AttemptRecord> {
+    const id = await withStore('readwrite', (store) => store.add(record))
+    return { ...record, id: Number(id) }
+}
+
+export async function clearAttempts(): Promise<void> {
+    await withStore('readwrite', (store) => store.clear())
+}
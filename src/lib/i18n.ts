@@ -0,0 +1,50 @@
+import { createContext, useContext } from 'react'
+import ja, { type Messages } from '../locales/ja'
+import en from '../locales/en'
+
+/**
+ * 表示言語の切り替え
+ * 文言は src/locales/ に言語ごとにまとめ、画面は useMessages() で現在の言語の文言を読む
+ * 言語を増やす時は、ja.ts と同じ形の文言を追加して LOCALES と MESSAGES に登録する
+ */
+
+export type Locale = 'ja' | 'en'
+
+export const LOCALES: Locale[] = ['ja', 'en']
+
+// 言語の選択肢に表示する名前（その言語自身の表記）
+export const LOCALE_NAMES: Record<Locale, string> = {
+    'ja': '日本語',
+    'en': 'English',
+}
+
+export const MESSAGES: Record<Locale, Messages> = { ja, en }
+
+export const DEFAULT_LOCALE: Locale = 'ja'
+
+export type { Messages }
+
+function isLocale(value: string): value is Locale {
+    return (LOCALES as string[]).includes(value)
+}
+
+/**
+ * ブラウザの言語設定から最初に表示する言語を決める（対応していなければ日本語）
+ */
+export function detectLocale(): Locale {
+    if (typeof navigator === 'undefined') return DEFAULT_LOCALE
+    for (const language of navigator.languages ?? [navigator.language]) {
+        const base = language.toLowerCase().split('-')[0]
+        if (isLocale(base)) return base
+    }
+    return DEFAULT_LOCALE
+}
+
+export const I18nContext = createContext<Messages>(MESSAGES[DEFAULT_LOCALE])
+
+/**
+ * 現在の言語の文言
+ */
+export function useMessages(): Messages {
+    return useContext(I18nContext)
+}
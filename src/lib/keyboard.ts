@@ -0,0 +1,93 @@
+/**
+ * キーボード操作
+ * ドラッグ・ホイール・ピンチ・スライダーで行う操作を、すべてキーの1回押しでも少しずつ行えるようにする
+ * 細かいドラッグが難しい利用者でも、キーボードだけで穿刺から留置まで終えられる
+ */
+
+export type KeyboardAction =
+    | 'move-left'          // 針を画面の左へ（穿刺前）
+    | 'move-right'
+    | 'move-up'
+    | 'move-down'
+    | 'shallower'          // 奥行き：手前へ（ホイール・ピンチと同じ）
+    | 'deeper'
+    | 'advance'            // 針を進行方向に進める（「針を進める」ボタンと同じ）
+    | 'retract'
+    | 'angle-up'
+    | 'angle-down'
+    | 'yaw-left'
+    | 'yaw-right'
+    | 'roll-left'
+    | 'roll-right'
+    | 'catheter-forward'   // 外筒スライダーを1段進める
+    | 'catheter-back'
+    | 'stylet-withdraw'    // 内筒スライダーを1段引き抜く
+    | 'stylet-insert'
+    | 'toggle-mode'        // カメラ・穿刺モードの切り替え
+    | 'view-top-down'      // 視点プリセットへ移動
+    | 'view-cross-section'
+    | 'view-operator'
+    | 'tip-view'           // 針先を追う小窓の表示切り替え
+    | 'reset'
+    | 'help'               // キー操作の一覧の表示切り替え
+
+export interface KeyBinding {
+    code: string       // KeyboardEvent.code（キー配列によらない物理キー）
+    shift?: boolean    // Shift と一緒に押す
+    label: string      // 一覧に表示するキーの名前
+}
+
+export const KEY_BINDINGS: Record<KeyboardAction, KeyBinding> = {
+    'move-left': { code: 'ArrowLeft', label: '←' },
+    'move-right': { code: 'ArrowRight', label: '→' },
+    'move-up': { code: 'ArrowUp', label: '↑' },
+    'move-down': { code: 'ArrowDown', label: '↓' },
+    'shallower': { code: 'PageUp', label: 'PageUp' },
+    'deeper': { code: 'PageDown', label: 'PageDown' },
+    'advance': { code: 'KeyW', label: 'W' },
+    'retract': { code: 'KeyS', label: 'S' },
+    'angle-up': { code: 'KeyR', label: 'R' },
+    'angle-down': { code: 'KeyF', label: 'F' },
+    'yaw-left': { code: 'KeyA', label: 'A' },
+    'yaw-right': { code: 'KeyD', label: 'D' },
+    'roll-left': { code: 'KeyZ', label: 'Z' },
+    'roll-right': { code: 'KeyX', label: 'X' },
+    'catheter-forward': { code: 'KeyC', label: 'C' },
+    'catheter-back': { code: 'KeyC', shift: true, label: 'Shift+C' },
+    'stylet-withdraw': { code: 'KeyT', label: 'T' },
+    'stylet-insert': { code: 'KeyT', shift: true, label: 'Shift+T' },
+    'toggle-mode': { code: 'KeyM', label: 'M' },
+    'view-top-down': { code: 'Digit1', label: '1' },
+    'view-cross-section': { code: 'Digit2', label: '2' },
+    'view-operator': { code: 'Digit3', label: '3' },
+    'tip-view': { code: 'KeyV', label: 'V' },
+    'reset': { code: 'KeyN', label: 'N' },
+    'help': { code: 'Slash', shift: true, label: '?' },
+}
+
+export const KEYBOARD_ACTIONS = Object.keys(KEY_BINDINGS) as KeyboardAction[]
+
+// 1回の押下で動かす量（針の移動・奥行き・前進はワールド座標、スライダーは22Gの長さ基準）
+export const KEY_MOVE_STEP = 0.05
+export const KEY_DEPTH_STEP = 0.05
+export const KEY_ADVANCE_STEP = 0.02
+export const KEY_SLIDER_STEP = 0.05
+
+/**
+ * キー入力を受け付けない要素（文字入力・スライダー・選択肢では、矢印キーなどを要素自身の操作に使う）
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false
+    return target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)
+}
+
+/**
+ * 押されたキーに割り当てた操作（割り当てがない・ほかの要素が使うキーなら null）
+ */
+export function keyboardAction(event: KeyboardEvent): KeyboardAction | null {
+    if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return null
+    return KEYBOARD_ACTIONS.find((action) => {
+        const binding = KEY_BINDINGS[action]
+        return binding.code === event.code && (binding.shift ?? false) === event.shiftKey
+    }) ?? null
+}
@@ -0,0 +1,76 @@
+import * as THREE from 'three'
+
+/**
+ * 留置針の姿勢（刺入角度・血管の走行に対する振り角・刃面の回転）
+ * 針のローカル+Yがハブ側、-Yが針先。刃面はロール0°で上（針を含む鉛直面の上側）を向く
+ */
+
+export interface NeedlePose {
+    angle: number   // 刺入角度（水平面からの仰角、度）
+    yaw: number     // 静脈の走行に対する水平方向の振り角（度、正=針先を+Z側へ振る）
+    roll: number    // 針の軸まわりの刃面の回転（度、0=刃面が上、±180=刃面が下）
+}
+
+export const DEFAULT_NEEDLE_POSE: NeedlePose = { angle: 15, yaw: 0, roll: 0 }
+
+// 操作できる範囲と1回の操作での変化量（度）
+export const NEEDLE_ANGLE_MIN = 5
+export const NEEDLE_ANGLE_MAX = 45
+export const NEEDLE_ANGLE_STEP = 5
+export const NEEDLE_YAW_LIMIT = 45
+export const NEEDLE_YAW_STEP = 5
+export const NEEDLE_ROLL_STEP = 45
+
+// 刃面が上向きとみなす回転の範囲（度）：これを超えると減点
+export const BEVEL_UP_TOLERANCE = 30
+
+// 刃面が下向き：これを超えて回したまま血管に入ると後壁に当たる（度）
+export const BEVEL_DOWN_LIMIT = 90
+
+// 血管の走行との交差角の許容範囲（度）：これを超えると減点、上限で0点
+export const CROSSING_TOLERANCE = 10
+export const CROSSING_MAX = 40
+
+/**
+ * -180〜180°に正規化した角度
+ */
+export function wrapDegrees(degrees: number): number {
+    return THREE.MathUtils.euclideanModulo(degrees + 180, 360) - 180
+}
+
+const yAxis = new THREE.Vector3(0, 1, 0)
+const zAxis = new THREE.Vector3(0, 0, 1)
+
+/**
+ * 針の姿勢の回転（振り角 → 刺入角度 → 刃面の回転の順に適用）
+ * veinYaw は穿刺部位の静脈の走行の向き（siteVeinYaw）。振り角はこの向きからの角度として回す
+ */
+export function needleQuaternion(pose: NeedlePose, veinYaw = 0, target = new THREE.Quaternion()): THREE.Quaternion {
+    const deg = THREE.MathUtils.degToRad
+    const yaw = new THREE.Quaternion().setFromAxisAngle(yAxis, deg(veinYaw + pose.yaw))
+    const pitch = new THREE.Quaternion().setFromAxisAngle(zAxis, -(Math.PI / 2) + deg(pose.angle))
+    const roll = new THREE.Quaternion().setFromAxisAngle(yAxis, deg(pose.roll))
+    return target.copy(yaw).multiply(pitch).multiply(roll)
+}
+
+export function needleEuler(pose: NeedlePose, veinYaw = 0): THREE.Euler {
+    return new THREE.Euler().setFromQuaternion(needleQuaternion(pose, veinYaw))
+}
+
+/**
+ * 針の進行方向（ワールド座標の単位ベクトル）
+ */
+export function needleForward(pose: NeedlePose, veinYaw = 0, target = new THREE.Vector3()): THREE.Vector3 {
+    return target.set(0, -1, 0).applyQuaternion(needleQuaternion(pose, veinYaw))
+}
+
+/**
+ * 刃面が上向きからどれだけ回っているか（0〜180°）
+ */
+export function bevelDeviation(pose: NeedlePose): number {
+    return Math.abs(wrapDegrees(pose.roll))
+}
+
+export function isBevelDown(pose: NeedlePose): boolean {
+    return bevelDeviation(pose) > BEVEL_DOWN_LIMIT
+}
@@ -0,0 +1,71 @@
+import type { FailurePhase, Phase } from '../types'
+import type { TissueReading } from './tissue'
+import { CROSSING_MAX, isBevelDown, type NeedlePose } from './needlePose'
+
+export const FAILURE_PHASES: readonly FailurePhase[] = [
+    'through-and-through',
+    'missed',
+    'premature-advance',
+    'catheter-shear',
+    'bevel-down',
+    'time-up',
+]
+
+export function isFailurePhase(phase: Phase): phase is FailurePhase {
+    return (FAILURE_PHASES as readonly Phase[]).includes(phase)
+}
+
+// 外筒がこれ以上前進したら「外筒を進めた」とみなす（外筒先端が内筒の刃面に達する位置）
+export const CATHETER_ADVANCE_START = 0.15
+
+// 外筒の前進完了（内筒引き抜きフェーズへ）：22Gの長さ基準、ゲージの長さ比で補正して使う
+export const CATHETER_ADVANCE_DONE = 1.0
+
+// 内筒の引き抜き完了：22Gの長さ基準、ゲージの長さ比で補正して使う
+export const STYLET_WITHDRAW_DONE = -2.5
+
+// 内筒スライダーで引き抜ける最大量：22Gの長さ基準、ゲージの長さ比で補正して使う
+export const STYLET_FULL_WITHDRAW = -3.5
+
+// 内筒がこれ以上引き抜かれた後に押し戻すと、外筒を損傷する危険がある
+export const STYLET_REINSERT_GUARD = -0.2
+
+// 引き抜いた最も奥の位置からこれ以上押し戻したら、内筒を押し戻したとみなす（ドラッグの揺れは数えない）
+export const STYLET_REINSERT_MARGIN = 0.15
+
+/**
+ * 引き抜いた内筒を外筒に押し戻したか（mostWithdrawn はこれまでに最も引き抜いた位置）
+ */
+export function isStyletReinserted(value: number, mostWithdrawn: number): boolean {
+    return mostWithdrawn < STYLET_REINSERT_GUARD && value > mostWithdrawn + STYLET_REINSERT_MARGIN
+}
+
+/**
+ * 組織層の読み取り結果と針の姿勢から失敗を検出する
+ * 穿刺前・逆血確認後（針の位置を操作できる間）のみ判定する
+ */
+export function detectTissueFailure(phase: Phase, reading: TissueReading, pose: NeedlePose): FailurePhase | null {
+    if (phase !== 'pre-puncture' && phase !== 'punctured') return null
+    if (reading.tipLayer === 'deep') return 'through-and-through'
+    if (phase === 'pre-puncture' && reading.belowVein) return 'missed'
+    // 刃面が下向きのまま血管に入ると、刃先が後壁に向いて逆血が得られず後壁を傷つける
+    if (phase === 'pre-puncture' && reading.tipLayer === 'lumen' && isBevelDown(pose)) return 'bevel-down'
+    return null
+}
+
+/**
+ * 外筒を進めてよい状態か
+ * 刃面全体が血管内にあり、針が血管の走行に沿っている（斜めに横切っていると外筒は血管外へ出る）
+ */
+export function canAdvanceCatheter(reading: TissueReading | null): boolean {
+    return reading !== null && reading.bevelInLumen && reading.veinCrossing <= CROSSING_MAX
+}
+
+// 失敗ごとのデブリーフィング内容（文言は src/locales/ に言語ごとに置く）
+export interface FailureDebrief {
+    title: string
+    summary: string
+    causes: string[]
+    tips: string[]
+}
+
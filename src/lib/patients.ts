@@ -0,0 +1,78 @@
+import { DEFAULT_ARM_SHAPE, SKIN_THICKNESS, VEIN_WALL_THICKNESS, type ArmShape } from './anatomy'
+
+/**
+ * 患者プロファイル
+ * 体格・皮下組織の厚み・血管の太さと深さ・穿刺判定の許容幅を患者ごとに切り替える
+ */
+
+export type PatientId = 'adult' | 'child' | 'elderly' | 'obese' | 'dehydrated'
+
+export interface PatientProfile {
+    id: PatientId
+    arm: ArmShape
+    skinThickness: number       // 皮膚（表皮＋真皮）の厚み
+    subcutaneousScale: number   // 皮下組織の厚みの倍率（血管の深さに反映）
+    veinRadiusScale: number     // 血管の太さの倍率
+    veinWallThickness: number   // 血管壁の厚み（薄いほど後壁を貫きやすい）
+    veinOpacity: number         // 血管の見えやすさ（表示の不透明度）
+    tolerance: number           // 内腔判定の許容幅（正で甘く、負で厳しく）
+}
+
+export const PATIENT_PROFILES: PatientProfile[] = [
+    {
+        id: 'adult',
+        arm: DEFAULT_ARM_SHAPE,
+        skinThickness: SKIN_THICKNESS,
+        subcutaneousScale: 1,
+        veinRadiusScale: 1,
+        veinWallThickness: VEIN_WALL_THICKNESS,
+        veinOpacity: 0.85,
+        tolerance: 0,
+    },
+    {
+        id: 'child',
+        arm: { wristRadius: 0.32, elbowRadius: 0.66, muscleBulge: 0.07, handScale: 0.75 },
+        skinThickness: 0.025,
+        subcutaneousScale: 0.7,
+        veinRadiusScale: 0.65,
+        veinWallThickness: 0.012,
+        veinOpacity: 0.55,
+        tolerance: 0.004,
+    },
+    {
+        id: 'elderly',
+        arm: { wristRadius: 0.42, elbowRadius: 0.85, muscleBulge: 0.05, handScale: 0.95 },
+        skinThickness: 0.02,
+        subcutaneousScale: 0.6,
+        veinRadiusScale: 1,
+        veinWallThickness: 0.01,
+        veinOpacity: 1,
+        tolerance: -0.004,
+    },
+    {
+        id: 'obese',
+        arm: { wristRadius: 0.62, elbowRadius: 1.3, muscleBulge: 0.1, handScale: 1.15 },
+        skinThickness: 0.045,
+        subcutaneousScale: 2.2,
+        veinRadiusScale: 0.9,
+        veinWallThickness: VEIN_WALL_THICKNESS,
+        veinOpacity: 0.25,
+        tolerance: 0,
+    },
+    {
+        id: 'dehydrated',
+        arm: { wristRadius: 0.43, elbowRadius: 0.9, muscleBulge: 0.1, handScale: 1 },
+        skinThickness: 0.035,
+        subcutaneousScale: 0.9,
+        veinRadiusScale: 0.7,
+        veinWallThickness: 0.014,
+        veinOpacity: 0.45,
+        tolerance: -0.004,
+    },
+]
+
+export const DEFAULT_PATIENT_ID: PatientId = 'adult'
+
+export function getPatient(id: PatientId): PatientProfile {
+    return PATIENT_PROFILES.find((patient) => patient.id === id) ?? PATIENT_PROFILES[0]
+}
@@ -0,0 +1,138 @@
+import type { Phase } from '../types'
+import { isFailurePhase } from './outcomes'
+
+/**
+ * 末梢静脈路確保の手順エンジン
+ * 穿刺そのもの（Phase の流れ）の前後に、手指衛生〜ライン接続までの手順を記録し、順序違いを検出する
+ */
+
+// 手順（この順序で行うのが正しい）
+export type ProcedureStep =
+    | 'hand-hygiene'       // 手指衛生
+    | 'site-selection'     // 穿刺部位の選択
+    | 'tourniquet-on'      // 駆血帯を巻く
+    | 'disinfection'       // 皮膚の消毒
+    | 'puncture'           // 穿刺（皮膚への刺入）
+    | 'flashback'          // 逆血確認
+    | 'tourniquet-off'     // 駆血帯を外す
+    | 'stylet-withdrawal'  // 内筒の抜去
+    | 'line-connection'    // 輸液ラインの接続
+
+export const PROCEDURE_STEPS: ProcedureStep[] = [
+    'hand-hygiene',
+    'site-selection',
+    'tourniquet-on',
+    'disinfection',
+    'puncture',
+    'flashback',
+    'tourniquet-off',
+    'stylet-withdrawal',
+    'line-connection',
+]
+
+// 操作ボタンで行う手順（それ以外は穿刺操作から自動で記録される）
+export type ProcedureAction = Exclude<ProcedureStep, 'puncture' | 'flashback' | 'stylet-withdrawal'>
+
+export const PROCEDURE_ACTIONS: readonly ProcedureAction[] = [
+    'hand-hygiene',
+    'site-selection',
+    'tourniquet-on',
+    'disinfection',
+    'tourniquet-off',
+    'line-connection',
+]
+
+export function isProcedureAction(step: ProcedureStep): step is ProcedureAction {
+    return (PROCEDURE_ACTIONS as readonly ProcedureStep[]).includes(step)
+}
+
+export interface ProcedureEvent {
+    step: ProcedureStep
+    at: number                 // 実施時刻（performance.now）
+    missing: ProcedureStep[]   // 実施時点で済んでいなかった、本来この前に行うべき手順
+}
+
+export interface ProcedureState {
+    events: ProcedureEvent[]   // 実施した手順（初回のみ、実施順）
+}
+
+export function createProcedure(): ProcedureState {
+    return { events: [] }
+}
+
+export function isStepDone(state: ProcedureState, step: ProcedureStep): boolean {
+    return state.events.some((event) => event.step === step)
+}
+
+/**
+ * 手順の実施を記録する（2回目以降は無視）
+ * 本来先に済ませるべき手順が残っていれば順序違いとして記録する
+ */
+export function recordProcedureStep(state: ProcedureState, step: ProcedureStep, at = performance.now()): ProcedureState {
+    if (isStepDone(state, step)) return state
+    const index = PROCEDURE_STEPS.indexOf(step)
+    const missing = PROCEDURE_STEPS.slice(0, index).filter((s) => !isStepDone(state, s))
+    return { events: [...state.events, { step, at, missing }] }
+}
+
+/**
+ * 現在のフェーズでその操作を行えるか
+ */
+export function canPerformAction(state: ProcedureState, action: ProcedureAction, phase: Phase): boolean {
+    if (isFailurePhase(phase) || isStepDone(state, action)) return false
+    switch (action) {
+        case 'hand-hygiene':
+        case 'site-selection':
+        case 'tourniquet-on':
+        case 'disinfection':
+            return phase === 'pre-puncture'
+        case 'tourniquet-off':
+            return isStepDone(state, 'tourniquet-on')
+        case 'line-connection':
+            return true
+    }
+}
+
+/**
+ * 駆血帯が巻かれている状態か
+ */
+export function isTourniquetOn(state: ProcedureState): boolean {
+    return isStepDone(state, 'tourniquet-on') && !isStepDone(state, 'tourniquet-off')
+}
+
+/**
+ * 手順が最後まで終わったか（留置完了後にラインを接続した）
+ */
+export function isProcedureComplete(state: ProcedureState, phase: Phase): boolean {
+    return phase === 'completed' && isStepDone(state, 'line-connection')
+}
+
+export interface ChecklistItem {
+    step: ProcedureStep
+    done: boolean
+    missing: ProcedureStep[]   // 順序違い：この手順より前に行うべきだった未実施の手順
+}
+
+export interface ChecklistResult {
+    items: ChecklistItem[]
+    completed: number          // 実施した手順の数
+    inOrder: number            // 正しい順序で実施した手順の数
+    passed: boolean            // すべての手順を正しい順序で実施した
+}
+
+/**
+ * 手順のチェックリスト結果
+ */
+export function procedureChecklist(state: ProcedureState): ChecklistResult {
+    const items = PROCEDURE_STEPS.map((step) => {
+        const event = state.events.find((e) => e.step === step)
+        return {
+            step,
+            done: event !== undefined,
+            missing: event?.missing ?? [],
+        }
+    })
+    const completed = items.filter((item) => item.done).length
+    const inOrder = items.filter((item) => item.done && item.missing.length === 0).length
+    return { items, completed, inOrder, passed: inOrder === PROCEDURE_STEPS.length }
+}
@@ -0,0 +1,145 @@
+import * as THREE from 'three'
+import type { Phase } from '../types'
+import type { GaugeId } from './gauges'
+import { wrapDegrees, type NeedlePose } from './needlePose'
+
+/**
+ * 試行の記録（タイムスタンプ付きトラック）と再生用の補間
+ */
+
+export type Vec3Tuple = [number, number, number]
+
+export interface RecordingFrame {
+    t: number               // 記録開始からの経過時間（ms）
+    needlePos: Vec3Tuple
+    needlePose: NeedlePose
+    innerOffset: number
+    outerOffset: number
+    phase: Phase
+    engorgement: number     // 静脈の怒張の度合い
+    cameraPosition: Vec3Tuple
+    cameraTarget: Vec3Tuple
+}
+
+export interface Recording {
+    gauge: GaugeId             // 再生時に同じ針を表示するため
+    startedAt: number | null   // 記録開始時刻（performance.now）
+    frames: RecordingFrame[]
+    finished: boolean          // 試行が終了し、記録を締め切ったか
+}
+
+export interface PhaseMarker {
+    t: number
+    phase: Phase
+}
+
+// 記録間隔（ms）
+export const RECORDING_INTERVAL = 100
+
+export function createRecording(gauge: GaugeId): Recording {
+    return { gauge, startedAt: null, frames: [], finished: false }
+}
+
+// 記録するフレーム数の上限（超えたら1つおきに間引く。フェーズが変わったフレームは残す）
+export const RECORDING_MAX_FRAMES = 3000
+
+const sameTuple = (a: Vec3Tuple, b: Vec3Tuple) => a[0] === b[0] && a[1] === b[1] && a[2] === b[2]
+
+// 時刻以外が同じフレームか
+function sameState(a: RecordingFrame, b: RecordingFrame): boolean {
+    return a.phase === b.phase
+        && a.innerOffset === b.innerOffset
+        && a.outerOffset === b.outerOffset
+        && a.engorgement === b.engorgement
+        && a.needlePose.angle === b.needlePose.angle
+        && a.needlePose.yaw === b.needlePose.yaw
+        && a.needlePose.roll === b.needlePose.roll
+        && sameTuple(a.needlePos, b.needlePos)
+        && sameTuple(a.cameraPosition, b.cameraPosition)
+        && sameTuple(a.cameraTarget, b.cameraTarget)
+}
+
+/**
+ * フレームを記録に加える
+ * 何も変わっていない間は、止まり始めと最後の2フレームだけを残して時刻を延ばす（補間で止まっている間が再現される）
+ */
+export function appendFrame(recording: Recording, frame: RecordingFrame): void {
+    const { frames } = recording
+    const last = frames[frames.length - 1]
+    const beforeLast = frames[frames.length - 2]
+    if (last && beforeLast && sameState(frame, last) && sameState(last, beforeLast)) {
+        last.t = frame.t
+        return
+    }
+    frames.push(frame)
+    if (frames.length > RECORDING_MAX_FRAMES) {
+        recording.frames = frames.filter((f, i) =>
+            i % 2 === 0 || i === frames.length - 1 || f.phase !== frames[i - 1].phase || f.phase !== frames[i + 1].phase)
+    }
+}
+
+export function recordingDuration(recording: Recording): number {
+    const { frames } = recording
+    return frames.length > 0 ? frames[frames.length - 1].t : 0
+}
+
+/**
+ * フェーズが切り替わった時点の一覧（タイムライン上のマーカー用）
+ */
+export function phaseMarkers(recording: Recording): PhaseMarker[] {
+    const markers: PhaseMarker[] = []
+    for (const frame of recording.frames) {
+        if (markers.length === 0 || markers[markers.length - 1].phase !== frame.phase) {
+            markers.push({ t: frame.t, phase: frame.phase })
+        }
+    }
+    return markers
+}
+
+function lerpTuple(a: Vec3Tuple, b: Vec3Tuple, alpha: number): Vec3Tuple {
+    return [
+        THREE.MathUtils.lerp(a[0], b[0], alpha),
+        THREE.MathUtils.lerp(a[1], b[1], alpha),
+        THREE.MathUtils.lerp(a[2], b[2], alpha),
+    ]
+}
+
+/**
+ * 指定時刻の状態を前後のフレームから補間して求める
+ * 数値は線形補間、フェーズは直前のフレームの値を使う
+ */
+export function sampleRecording(recording: Recording, t: number): RecordingFrame | null {
+    const { frames } = recording
+    if (frames.length === 0) return null
+    if (t <= frames[0].t) return frames[0]
+    if (t >= frames[frames.length - 1].t) return frames[frames.length - 1]
+
+    // 二分探索で t を挟むフレームを探す
+    let lo = 0
+    let hi = frames.length - 1
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1
+        if (frames[mid].t <= t) lo = mid
+        else hi = mid
+    }
+    const a = frames[lo]
+    const b = frames[hi]
+    const alpha = (t - a.t) / (b.t - a.t)
+
+    return {
+        t,
+        needlePos: lerpTuple(a.needlePos, b.needlePos, alpha),
+        needlePose: {
+            angle: THREE.MathUtils.lerp(a.needlePose.angle, b.needlePose.angle, alpha),
+            yaw: THREE.MathUtils.lerp(a.needlePose.yaw, b.needlePose.yaw, alpha),
+            // 刃面の回転は近い向きに回す（180°と-135°の間で一周しない）
+            roll: a.needlePose.roll + wrapDegrees(b.needlePose.roll - a.needlePose.roll) * alpha,
+        },
+        innerOffset: THREE.MathUtils.lerp(a.innerOffset, b.innerOffset, alpha),
+        outerOffset: THREE.MathUtils.lerp(a.outerOffset, b.outerOffset, alpha),
+        phase: a.phase,
+        engorgement: THREE.MathUtils.lerp(a.engorgement, b.engorgement, alpha),
+        cameraPosition: lerpTuple(a.cameraPosition, b.cameraPosition, alpha),
+        cameraTarget: lerpTuple(a.cameraTarget, b.cameraTarget, alpha),
+    }
+}
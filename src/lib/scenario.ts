@@ -0,0 +1,369 @@
+import type { ArmShape } from './anatomy'
+import { GAUGES, type GaugeId } from './gauges'
+import { PATIENT_PROFILES, getPatient, type PatientProfile } from './patients'
+import { PUNCTURE_SITES, getSite, type PunctureSite, type VeinPathPoint } from './sites'
+import { DEFAULT_NEEDLE_POSE, NEEDLE_ANGLE_MAX, NEEDLE_ANGLE_MIN, NEEDLE_YAW_LIMIT, type NeedlePose } from './needlePose'
+import { DEFAULT_PASS_CRITERIA, type PassCriteria } from './scoring'
+import type { TrainingAids } from './training'
+import type { Locale } from './i18n'
+
+/**
+ * 教員が作るシナリオ（JSON ファイル）
+ * 患者の体格・血管の走行・ターゲット・針の初期姿勢・使える補助・制限時間・合格基準を1つのファイルにまとめる
+ * 部位と患者はカタログの値を土台にし、ファイルに書いた項目だけを上書きする
+ *
+ * {
+ *   "version": 1,
+ *   "id": "obese-basilic",
+ *   "title": { "ja": "肥満患者の尺側皮静脈", "en": "Basilic vein, obese patient" },
+ *   "patient": { "base": "obese", "veinOpacity": 0.1 },
+ *   "vein": { "site": "basilic", "radius": 0.07 },
+ *   "needle": { "angle": 25 },
+ *   "aids": { "guide": false },
+ *   "timeLimit": 150,
+ *   "pass": { "score": 75, "maxRedirections": 1 }
+ * }
+ */
+
+export const SCENARIO_VERSION = 1
+
+// 言語ごとの文言（1つの文字列なら全言語で同じ）
+export type LocalizedText = string | Partial<Record<Locale, string>>
+
+export interface Scenario {
+    id: string
+    title: LocalizedText
+    description: LocalizedText
+    site: PunctureSite                              // 血管の走行・太さ・ターゲットを上書きした部位
+    patient: PatientProfile                         // 体格・組織の値を上書きした患者
+    gauge: GaugeId | null                           // 使う留置針（null なら選べる）
+    needle: NeedlePose                              // 針の初期姿勢
+    needleOffset: [number, number, number] | null   // ターゲットからの針の初期位置（null なら既定）
+    aids: TrainingAids                              // 使える補助（練習の形式の補助と両方で許された時だけ表示）
+    timeLimit: number | null                        // 制限時間（ms）。null なら試験だけ既定の時間で計る
+    pass: PassCriteria
+}
+
+// 検証で見つかった問題（path は "vein.path[2].depth" のような項目の位置）
+export type ScenarioIssue =
+    | { kind: 'read'; message: string }     // ファイル自体を読めなかった
+    | { kind: 'json'; message: string }
+    | { kind: 'version'; found: string }
+    | { kind: 'required'; path: string }
+    | { kind: 'type'; path: string; expected: 'object' | 'array' | 'number' | 'integer' | 'string' | 'boolean' | 'text' }
+    | { kind: 'range'; path: string; min: number; max: number }
+    | { kind: 'choice'; path: string; choices: string[] }
+    | { kind: 'length'; path: string; min: number; exact: boolean }
+    | { kind: 'unknown'; path: string }
+
+export type ScenarioResult = { ok: true; scenario: Scenario } | { ok: false; issues: ScenarioIssue[] }
+
+/**
+ * 現在の言語の文言（なければ日本語、それもなければ最初に書かれた言語）
+ */
+export function localizedText(text: LocalizedText, locale: Locale): string {
+    if (typeof text === 'string') return text
+    return text[locale] ?? text.ja ?? Object.values(text)[0] ?? ''
+}
+
+// ===== 検証 =====
+
+type Json = Record<string, unknown>
+
+interface Range {
+    min: number
+    max: number
+    integer?: boolean
+}
+
+// 値の範囲（モデル寸法。標準成人の値を中心に、表示と判定が破綻しない範囲）
+const RANGES = {
+    y: { min: -8.5, max: 7.5 },
+    angle: { min: -360, max: 360 },
+    depth: { min: 0.01, max: 1 },
+    radius: { min: 0.02, max: 0.2 },
+    wristRadius: { min: 0.2, max: 1 },
+    elbowRadius: { min: 0.4, max: 2 },
+    muscleBulge: { min: 0, max: 0.3 },
+    handScale: { min: 0.5, max: 1.5 },
+    skinThickness: { min: 0.005, max: 0.1 },
+    subcutaneousScale: { min: 0.2, max: 4 },
+    veinRadiusScale: { min: 0.3, max: 2 },
+    veinWallThickness: { min: 0.005, max: 0.05 },
+    veinOpacity: { min: 0, max: 1 },
+    tolerance: { min: -0.02, max: 0.02 },
+    needleAngle: { min: NEEDLE_ANGLE_MIN, max: NEEDLE_ANGLE_MAX },
+    needleYaw: { min: -NEEDLE_YAW_LIMIT, max: NEEDLE_YAW_LIMIT },
+    needleRoll: { min: -180, max: 180 },
+    needleOffset: { min: -5, max: 5 },
+    timeLimit: { min: 30, max: 1800 },
+    passScore: { min: 0, max: 100 },
+    maxRedirections: { min: 0, max: 20, integer: true },
+} satisfies Record<string, Range>
+
+const isObject = (value: unknown): value is Json =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const fieldPath = (parent: string, key: string) => (parent ? `${parent}.${key}` : key)
+
+// 項目を読みながら問題を集める（問題があった項目には仮の値を返し、最後にまとめて失敗にする）
+type Issues = ScenarioIssue[]
+
+function readObject(issues: Issues, value: unknown, path: string, keys: readonly string[]): Json {
+    if (!isObject(value)) {
+        issues.push({ kind: 'type', path, expected: 'object' })
+        return {}
+    }
+    for (const key of Object.keys(value)) {
+        if (!keys.includes(key)) issues.push({ kind: 'unknown', path: fieldPath(path, key) })
+    }
+    return value
+}
+
+function readNumberValue(issues: Issues, value: unknown, path: string, range: Range, fallback?: number): number {
+    if (value === undefined) {
+        if (fallback === undefined) issues.push({ kind: 'required', path })
+        return fallback ?? range.min
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || (range.integer && !Number.isInteger(value))) {
+        issues.push({ kind: 'type', path, expected: range.integer ? 'integer' : 'number' })
+        return fallback ?? range.min
+    }
+    if (value < range.min || value > range.max) {
+        issues.push({ kind: 'range', path, min: range.min, max: range.max })
+    }
+    return value
+}
+
+function readNumber(issues: Issues, obj: Json, key: string, path: string, range: Range, fallback?: number): number {
+    return readNumberValue(issues, obj[key], fieldPath(path, key), range, fallback)
+}
+
+function readBoolean(issues: Issues, obj: Json, key: string, path: string, fallback: boolean): boolean {
+    const value = obj[key]
+    if (value === undefined) return fallback
+    if (typeof value !== 'boolean') {
+        issues.push({ kind: 'type', path: fieldPath(path, key), expected: 'boolean' })
+        return fallback
+    }
+    return value
+}
+
+function readChoice<T extends string>(issues: Issues, obj: Json, key: string, path: string, choices: readonly T[], fallback?: T): T {
+    const value = obj[key]
+    const at = fieldPath(path, key)
+    if (value === undefined) {
+        if (fallback === undefined) issues.push({ kind: 'required', path: at })
+        return fallback ?? choices[0]
+    }
+    if (!choices.includes(value as T)) {
+        issues.push({ kind: 'choice', path: at, choices: [...choices] })
+        return fallback ?? choices[0]
+    }
+    return value as T
+}
+
+function readString(issues: Issues, obj: Json, key: string, path: string): string {
+    const value = obj[key]
+    const at = fieldPath(path, key)
+    if (value === undefined) {
+        issues.push({ kind: 'required', path: at })
+        return ''
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+        issues.push({ kind: 'type', path: at, expected: 'string' })
+        return ''
+    }
+    return value
+}
+
+function readText(issues: Issues, obj: Json, key: string, path: string, required: boolean): LocalizedText {
+    const value = obj[key]
+    const at = fieldPath(path, key)
+    if (value === undefined) {
+        if (required) issues.push({ kind: 'required', path: at })
+        return ''
+    }
+    if (typeof value === 'string') return value
+    if (isObject(value) && Object.keys(value).length > 0 && Object.values(value).every((v) => typeof v === 'string')) {
+        readObject(issues, value, at, ['ja', 'en'] satisfies Locale[])
+        return value as Partial<Record<Locale, string>>
+    }
+    issues.push({ kind: 'type', path: at, expected: 'text' })
+    return ''
+}
+
+function readPoint(issues: Issues, value: unknown, path: string): VeinPathPoint {
+    const obj = readObject(issues, value, path, ['y', 'angle', 'depth'])
+    return {
+        y: readNumber(issues, obj, 'y', path, RANGES.y),
+        angle: readNumber(issues, obj, 'angle', path, RANGES.angle),
+        depth: readNumber(issues, obj, 'depth', path, RANGES.depth),
+    }
+}
+
+function readVeinPath(issues: Issues, obj: Json, key: string, path: string, fallback: VeinPathPoint[]): VeinPathPoint[] {
+    const value = obj[key]
+    const at = fieldPath(path, key)
+    if (value === undefined) return fallback
+    if (!Array.isArray(value)) {
+        issues.push({ kind: 'type', path: at, expected: 'array' })
+        return fallback
+    }
+    if (value.length < 2) {
+        issues.push({ kind: 'length', path: at, min: 2, exact: false })
+        return fallback
+    }
+    return value.map((point, i) => readPoint(issues, point, `${at}[${i}]`))
+}
+
+function readVector(issues: Issues, obj: Json, key: string, path: string, range: Range): [number, number, number] | null {
+    const value = obj[key]
+    const at = fieldPath(path, key)
+    if (value === undefined) return null
+    if (!Array.isArray(value) || value.length !== 3) {
+        issues.push({ kind: 'length', path: at, min: 3, exact: true })
+        return null
+    }
+    const [x, y, z] = value.map((v, i) => readNumberValue(issues, v, `${at}[${i}]`, range))
+    return [x, y, z]
+}
+
+function readPatient(issues: Issues, value: unknown): PatientProfile {
+    const path = 'patient'
+    const obj = readObject(issues, value ?? {}, path, [
+        'base', 'arm', 'skinThickness', 'subcutaneousScale', 'veinRadiusScale', 'veinWallThickness', 'veinOpacity', 'tolerance',
+    ])
+    const base = getPatient(readChoice(issues, obj, 'base', path, PATIENT_PROFILES.map((p) => p.id), PATIENT_PROFILES[0].id))
+    const armPath = fieldPath(path, 'arm')
+    const arm = readObject(issues, obj.arm ?? {}, armPath, ['wristRadius', 'elbowRadius', 'muscleBulge', 'handScale'])
+    const shape: ArmShape = {
+        wristRadius: readNumber(issues, arm, 'wristRadius', armPath, RANGES.wristRadius, base.arm.wristRadius),
+        elbowRadius: readNumber(issues, arm, 'elbowRadius', armPath, RANGES.elbowRadius, base.arm.elbowRadius),
+        muscleBulge: readNumber(issues, arm, 'muscleBulge', armPath, RANGES.muscleBulge, base.arm.muscleBulge),
+        handScale: readNumber(issues, arm, 'handScale', armPath, RANGES.handScale, base.arm.handScale),
+    }
+    return {
+        id: base.id,
+        arm: shape,
+        skinThickness: readNumber(issues, obj, 'skinThickness', path, RANGES.skinThickness, base.skinThickness),
+        subcutaneousScale: readNumber(issues, obj, 'subcutaneousScale', path, RANGES.subcutaneousScale, base.subcutaneousScale),
+        veinRadiusScale: readNumber(issues, obj, 'veinRadiusScale', path, RANGES.veinRadiusScale, base.veinRadiusScale),
+        veinWallThickness: readNumber(issues, obj, 'veinWallThickness', path, RANGES.veinWallThickness, base.veinWallThickness),
+        veinOpacity: readNumber(issues, obj, 'veinOpacity', path, RANGES.veinOpacity, base.veinOpacity),
+        tolerance: readNumber(issues, obj, 'tolerance', path, RANGES.tolerance, base.tolerance),
+    }
+}
+
+function readSite(issues: Issues, value: unknown): PunctureSite {
+    const path = 'vein'
+    const obj = readObject(issues, value, path, ['site', 'path', 'radius', 'target'])
+    const base = getSite(readChoice(issues, obj, 'site', path, PUNCTURE_SITES.map((s) => s.id)))
+    return {
+        ...base,
+        path: readVeinPath(issues, obj, 'path', path, base.path),
+        radius: readNumber(issues, obj, 'radius', path, RANGES.radius, base.radius),
+        target: obj.target === undefined ? base.target : readPoint(issues, obj.target, fieldPath(path, 'target')),
+    }
+}
+
+/**
+ * JSON として読み込んだ値をシナリオとして検証する
+ */
+export function validateScenario(value: unknown): ScenarioResult {
+    // ファイル全体がオブジェクトでない・版が違う場合は、項目の意味が違うのでほかの問題は調べない
+    if (!isObject(value)) {
+        return { ok: false, issues: [{ kind: 'type', path: '', expected: 'object' }] }
+    }
+    if (value.version !== SCENARIO_VERSION) {
+        return { ok: false, issues: [{ kind: 'version', found: JSON.stringify(value.version ?? null) }] }
+    }
+    const issues: Issues = []
+    const root = readObject(issues, value, '', [
+        'version', 'id', 'title', 'description', 'patient', 'vein', 'gauge', 'needle', 'aids', 'timeLimit', 'pass',
+    ])
+    const id = readString(issues, root, 'id', '')
+    const title = readText(issues, root, 'title', '', true)
+    const description = readText(issues, root, 'description', '', false)
+    const patient = readPatient(issues, root.patient)
+    const site = readSite(issues, root.vein)
+    const gauge = root.gauge === undefined ? null : readChoice(issues, root, 'gauge', '', GAUGES.map((g) => g.id))
+
+    const needleObj = readObject(issues, root.needle ?? {}, 'needle', ['angle', 'yaw', 'roll', 'offset'])
+    const needle: NeedlePose = {
+        angle: readNumber(issues, needleObj, 'angle', 'needle', RANGES.needleAngle, DEFAULT_NEEDLE_POSE.angle),
+        yaw: readNumber(issues, needleObj, 'yaw', 'needle', RANGES.needleYaw, DEFAULT_NEEDLE_POSE.yaw),
+        roll: readNumber(issues, needleObj, 'roll', 'needle', RANGES.needleRoll, DEFAULT_NEEDLE_POSE.roll),
+    }
+    const needleOffset = readVector(issues, needleObj, 'offset', 'needle', RANGES.needleOffset)
+
+    const aidsObj = readObject(issues, root.aids ?? {}, 'aids', ['guide', 'sectionViews', 'seeThroughSkin', 'ultrasound', 'tipView'])
+    const aids: TrainingAids = {
+        guide: readBoolean(issues, aidsObj, 'guide', 'aids', true),
+        sectionViews: readBoolean(issues, aidsObj, 'sectionViews', 'aids', true),
+        seeThroughSkin: readBoolean(issues, aidsObj, 'seeThroughSkin', 'aids', true),
+        ultrasound: readBoolean(issues, aidsObj, 'ultrasound', 'aids', true),
+        tipView: readBoolean(issues, aidsObj, 'tipView', 'aids', true),
+    }
+
+    // 制限時間はファイルでは秒で書く
+    const timeLimit = root.timeLimit === undefined || root.timeLimit === null
+        ? null
+        : readNumber(issues, root, 'timeLimit', '', RANGES.timeLimit) * 1000
+
+    const passObj = readObject(issues, root.pass ?? {}, 'pass', ['score', 'maxRedirections'])
+    const pass: PassCriteria = {
+        score: readNumber(issues, passObj, 'score', 'pass', RANGES.passScore, DEFAULT_PASS_CRITERIA.score),
+        maxRedirections: passObj.maxRedirections === undefined || passObj.maxRedirections === null
+            ? null
+            : readNumber(issues, passObj, 'maxRedirections', 'pass', RANGES.maxRedirections),
+    }
+
+    if (issues.length > 0) return { ok: false, issues }
+    return {
+        ok: true,
+        scenario: { id, title, description, site, patient, gauge, needle, needleOffset, aids, timeLimit, pass },
+    }
+}
+
+/**
+ * JSON の文字列（ファイルの中身）をシナリオとして読み込む
+ */
+export function parseScenario(source: string): ScenarioResult {
+    let value: unknown
+    try {
+        value = JSON.parse(source)
+    } catch (error) {
+        return { ok: false, issues: [{ kind: 'json', message: error instanceof Error ? error.message : String(error) }] }
+    }
+    return validateScenario(value)
+}
+
+/**
+ * シナリオをファイルの形式に戻す（すべての項目を書き出すので、土台のカタログが変わっても同じ症例になる）
+ */
+export function serializeScenario(scenario: Scenario): Json {
+    const { site, patient } = scenario
+    return {
+        version: SCENARIO_VERSION,
+        id: scenario.id,
+        title: scenario.title,
+        description: scenario.description,
+        patient: {
+            base: patient.id,
+            arm: { ...patient.arm },
+            skinThickness: patient.skinThickness,
+            subcutaneousScale: patient.subcutaneousScale,
+            veinRadiusScale: patient.veinRadiusScale,
+            veinWallThickness: patient.veinWallThickness,
+            veinOpacity: patient.veinOpacity,
+            tolerance: patient.tolerance,
+        },
+        vein: { site: site.id, path: site.path, radius: site.radius, target: site.target },
+        ...(scenario.gauge ? { gauge: scenario.gauge } : {}),
+        needle: { ...scenario.needle, ...(scenario.needleOffset ? { offset: scenario.needleOffset } : {}) },
+        aids: { ...scenario.aids },
+        timeLimit: scenario.timeLimit === null ? null : scenario.timeLimit / 1000,
+        pass: { ...scenario.pass },
+    }
+}
@@ -0,0 +1,21 @@
+import { validateScenario, type Scenario } from './scenario'
+import deepObeseBasilic from '../scenarios/deep-obese-basilic.json'
+import fragileElderlyHand from '../scenarios/fragile-elderly-hand.json'
+import tortuousCephalicExam from '../scenarios/tortuous-cephalic-exam.json'
+
+/**
+ * アプリに同梱するシナリオ（src/scenarios/ の JSON）
+ * 教員が作るファイルと同じ形式で書き、同じ検証を通す
+ */
+
+function bundled(source: unknown): Scenario {
+    const result = validateScenario(source)
+    if (!result.ok) throw new Error(`Invalid bundled scenario: ${JSON.stringify(result.issues)}`)
+    return result.scenario
+}
+
+export const SCENARIO_LIBRARY: Scenario[] = [
+    bundled(deepObeseBasilic),
+    bundled(fragileElderlyHand),
+    bundled(tortuousCephalicExam),
+]
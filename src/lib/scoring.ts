@@ -0,0 +1,296 @@
+import * as THREE from 'three'
+import type { Messages } from './i18n'
+import { getGauge, gaugeLengthScale, type GaugeId } from './gauges'
+import type { ProcedureState } from './procedure'
+import { BEVEL_DOWN_LIMIT, BEVEL_UP_TOLERANCE, CROSSING_MAX, CROSSING_TOLERANCE } from './needlePose'
+import {
+    TOURNIQUET_TIME_LIMIT,
+    TOURNIQUET_TIME_MAX,
+    releasedBeforeConnection,
+    tourniquetDuration,
+} from './tourniquet'
+
+/**
+ * 試行の記録と採点
+ */
+
+// 手技の各ステップ（この順序で行うのが正しい）
+export type AttemptStep =
+    | 'skin-entry'         // 皮膚への刺入
+    | 'flashback'          // 逆血確認
+    | 'angle-lowered'      // 角度を下げる
+    | 'bevel-seated'       // 刃面全体を血管内へ
+    | 'catheter-advanced'  // 外筒の前進
+    | 'stylet-withdrawn'   // 内筒の引き抜き
+
+export const ATTEMPT_STEPS: AttemptStep[] = [
+    'skin-entry',
+    'flashback',
+    'angle-lowered',
+    'bevel-seated',
+    'catheter-advanced',
+    'stylet-withdrawn',
+]
+
+// 推奨刺入角度（度）
+export const RECOMMENDED_ANGLE_MIN = 15
+export const RECOMMENDED_ANGLE_MAX = 30
+
+// 外筒を根元まで送り込んだ状態（22Gの長さ基準）
+export const CATHETER_FULL_ADVANCE = 1.5
+
+// 留置した外筒のうち、これ以上が血管内にあれば抜けにくい（全長に対する割合）
+export const CATHETER_IN_VEIN_MIN = 0.6
+
+// 合格点
+export const PASSING_SCORE = 70
+
+// 合格の基準（シナリオで変えられる）
+export interface PassCriteria {
+    score: number                   // 合格点
+    maxRedirections: number | null  // 許す刺し直しの回数（null なら問わない）
+}
+
+export const DEFAULT_PASS_CRITERIA: PassCriteria = { score: PASSING_SCORE, maxRedirections: null }
+
+export interface AttemptLog {
+    gauge: GaugeId                             // 使用した留置針のゲージ
+    startedAt: number | null                   // 穿刺モード開始時刻（ms）
+    finishedAt: number | null
+    endedAt: number | null                     // 試行が終わった時刻（完了・失敗・時間切れ、ms）
+    skinEntryAngle: number | null              // 皮膚刺入時の皮膚面に対する針の角度（度、刺入点で実測）
+    skinEntryBevel: number | null              // 皮膚刺入時の刃面の上向きからのずれ（度）
+    veinCrossing: number | null                // 血管内腔に到達した時の、血管の走行との交差角（度）
+    targetDistance: number | null              // 血管内腔に到達した位置とターゲットの距離
+    skinEntries: number                        // 皮膚への刺入回数
+    redirections: number                       // 皮下での刺し直し回数（皮膚の刺し直しは redirectionCount で合わせて数える）
+    maxCatheterAdvance: number                 // 外筒の最大前進量
+    catheterInVein: number | null              // 留置した外筒のうち血管内にある長さ（mm）
+    steps: AttemptStep[]                       // 行ったステップ（初回のみ、発生順）
+}
+
+export function createAttemptLog(gauge: GaugeId): AttemptLog {
+    return {
+        gauge,
+        startedAt: null,
+        finishedAt: null,
+        endedAt: null,
+        skinEntryAngle: null,
+        skinEntryBevel: null,
+        veinCrossing: null,
+        targetDistance: null,
+        skinEntries: 0,
+        redirections: 0,
+        maxCatheterAdvance: 0,
+        catheterInVein: null,
+        steps: [],
+    }
+}
+
+export function logStep(log: AttemptLog, step: AttemptStep) {
+    if (!log.steps.includes(step)) log.steps.push(step)
+}
+
+// 採点の説明文に使う文言（表示言語ごと）
+type ScoringText = Messages['scoring']
+
+export interface ScoreItem {
+    key: 'angle' | 'orientation' | 'target' | 'redirections' | 'time' | 'catheter' | 'order' | 'tourniquet'
+    value: string   // 計測値の表示
+    detail: string  // 減点理由・評価の説明
+    score: number
+    max: number
+}
+
+export interface ScoreReport {
+    items: ScoreItem[]
+    total: number
+    max: number
+    passed: boolean
+}
+
+// 区間 [good, bad] で満点→0点に線形に下がる
+function linearScore(value: number, good: number, bad: number, max: number): number {
+    const ratio = THREE.MathUtils.clamp((bad - value) / (bad - good), 0, 1)
+    return Math.round(ratio * max)
+}
+
+function scoreAngle(angle: number | null, text: ScoringText): ScoreItem {
+    const max = 15
+    const base = { key: 'angle' as const, max }
+    if (angle === null) return { ...base, value: '—', detail: text.noSkinEntry, score: 0 }
+    const off = Math.max(RECOMMENDED_ANGLE_MIN - angle, angle - RECOMMENDED_ANGLE_MAX, 0)
+    return {
+        ...base,
+        value: `${angle}°`,
+        detail: off === 0
+            ? text.angleInRange(RECOMMENDED_ANGLE_MIN, RECOMMENDED_ANGLE_MAX)
+            : text.angleOutOfRange(RECOMMENDED_ANGLE_MIN, RECOMMENDED_ANGLE_MAX, off),
+        score: linearScore(off, 0, 10, max),
+    }
+}
+
+function scoreOrientation(bevel: number | null, crossing: number | null, text: ScoringText): ScoreItem {
+    const max = 10
+    const base = { key: 'orientation' as const, max }
+    if (bevel === null || crossing === null) {
+        return { ...base, value: '—', detail: text.noVeinEntry, score: 0 }
+    }
+    const problems = [
+        bevel > BEVEL_UP_TOLERANCE ? text.bevelRotated(Math.round(bevel)) : '',
+        crossing > CROSSING_TOLERANCE ? text.crossingAngle(Math.round(crossing)) : '',
+    ].filter(Boolean)
+    return {
+        ...base,
+        value: `${Math.round(bevel)}° / ${Math.round(crossing)}°`,
+        detail: problems.length === 0 ? text.orientationGood : problems.join(text.separator),
+        score: linearScore(bevel, BEVEL_UP_TOLERANCE, BEVEL_DOWN_LIMIT, max / 2)
+            + linearScore(crossing, CROSSING_TOLERANCE, CROSSING_MAX, max / 2),
+    }
+}
+
+function scoreTarget(distance: number | null, text: ScoringText): ScoreItem {
+    const max = 15
+    const base = { key: 'target' as const, max }
+    if (distance === null) return { ...base, value: '—', detail: text.noVeinEntry, score: 0 }
+    return {
+        ...base,
+        value: distance.toFixed(2),
+        detail: distance <= 0.15 ? text.targetOnMarker : text.targetOffMarker,
+        score: linearScore(distance, 0.15, 1.0, max),
+    }
+}
+
+// 刺し直し1回あたりの減点
+const REDIRECTION_PENALTY = 5
+
+/**
+ * 刺し直しの回数（皮下での刺し直しに加え、2回目以降の皮膚刺入も刺し直しとして数える）
+ */
+export function redirectionCount(log: AttemptLog): number {
+    return log.redirections + Math.max(0, log.skinEntries - 1)
+}
+
+function scoreRedirections(log: AttemptLog, text: ScoringText): ScoreItem {
+    const max = 15
+    const count = redirectionCount(log)
+    return {
+        key: 'redirections',
+        value: text.redirectionCount(count),
+        detail: count === 0 ? text.noRedirections : text.redirectionPenalty(REDIRECTION_PENALTY),
+        score: Math.max(0, max - count * REDIRECTION_PENALTY),
+        max,
+    }
+}
+
+function scoreTime(log: AttemptLog, text: ScoringText): ScoreItem {
+    const max = 5
+    const seconds = log.startedAt !== null && log.finishedAt !== null ? (log.finishedAt - log.startedAt) / 1000 : null
+    if (seconds === null) {
+        return { key: 'time', value: '—', detail: text.notMeasured, score: 0, max }
+    }
+    return {
+        key: 'time',
+        value: text.seconds(Math.round(seconds)),
+        detail: seconds <= 60 ? text.timeGood(60) : text.timeSlow(60, 180),
+        score: linearScore(seconds, 60, 180, max),
+        max,
+    }
+}
+
+function scoreCatheter(log: AttemptLog, text: ScoringText): ScoreItem {
+    const max = 15
+    const gauge = getGauge(log.gauge)
+    const fullAdvance = CATHETER_FULL_ADVANCE * gaugeLengthScale(gauge)
+    const ratio = Math.min(1, log.maxCatheterAdvance / fullAdvance)
+    const inVein = log.catheterInVein
+    const problems = [
+        ratio < 0.95 ? text.catheterNotFull : '',
+        inVein !== null && inVein < gauge.length * CATHETER_IN_VEIN_MIN ? text.catheterShort(gauge.length) : '',
+    ].filter(Boolean)
+    return {
+        key: 'catheter',
+        value: text.catheterValue(Math.round(ratio * 100), inVein === null ? null : Math.round(inVein)),
+        detail: problems.length === 0 ? text.catheterGood : problems.join(text.separator),
+        score: Math.round(ratio * max),
+        max,
+    }
+}
+
+function scoreOrder(steps: AttemptStep[], text: ScoringText): ScoreItem {
+    const max = 15
+    // 正しい順序で行われたステップ（前のステップより後に行われたもの）を数える
+    let lastIndex = -1
+    const missing: AttemptStep[] = []
+    let inOrder = 0
+    for (const step of ATTEMPT_STEPS) {
+        const index = steps.indexOf(step)
+        if (index === -1) {
+            missing.push(step)
+        } else if (index > lastIndex) {
+            inOrder++
+            lastIndex = index
+        }
+    }
+    const outOfOrder = ATTEMPT_STEPS.length - missing.length - inOrder
+    const problems = [
+        missing.length > 0 ? text.stepsMissing(missing.map((s) => text.attemptSteps[s])) : '',
+        outOfOrder > 0 ? text.stepsOutOfOrder(outOfOrder) : '',
+    ].filter(Boolean)
+    return {
+        key: 'order',
+        value: `${inOrder}/${ATTEMPT_STEPS.length}`,
+        detail: problems.length === 0 ? text.orderGood : problems.join(text.separator),
+        score: Math.round((inOrder / ATTEMPT_STEPS.length) * max),
+        max,
+    }
+}
+
+function scoreTourniquet(log: AttemptLog, procedure: ProcedureState, text: ScoringText): ScoreItem {
+    const max = 10
+    const base = { key: 'tourniquet' as const, max }
+    // 外していなければ、ラインの接続か試行の終わりまで巻いていたとみなす（同じ試行は何度採点しても同じ結果にする）
+    const connectedAt = procedure.events.find((event) => event.step === 'line-connection')?.at
+    const lastEventAt = procedure.events.length > 0 ? procedure.events[procedure.events.length - 1].at : 0
+    const duration = tourniquetDuration(procedure, connectedAt ?? log.endedAt ?? lastEventAt)
+    if (duration === null) return { ...base, value: '—', detail: text.noTourniquet, score: 0 }
+    const seconds = duration / 1000
+    const value = text.seconds(Math.round(seconds))
+    if (releasedBeforeConnection(procedure) === false) {
+        return { ...base, value, detail: text.tourniquetNotReleased, score: 0 }
+    }
+    return {
+        ...base,
+        value,
+        detail: duration <= TOURNIQUET_TIME_LIMIT
+            ? text.tourniquetGood(TOURNIQUET_TIME_LIMIT / 1000)
+            : text.tourniquetLong(TOURNIQUET_TIME_LIMIT / 1000, TOURNIQUET_TIME_MAX / 1000),
+        score: linearScore(duration, TOURNIQUET_TIME_LIMIT, TOURNIQUET_TIME_MAX, max),
+    }
+}
+
+/**
+ * 試行の記録と手技全体の手順を採点する
+ * 計測値と評価の説明は表示言語の文言で組み立てる
+ */
+export function scoreAttempt(
+    log: AttemptLog,
+    procedure: ProcedureState,
+    text: ScoringText,
+    criteria: PassCriteria = DEFAULT_PASS_CRITERIA,
+): ScoreReport {
+    const items = [
+        scoreAngle(log.skinEntryAngle, text),
+        scoreOrientation(log.skinEntryBevel, log.veinCrossing, text),
+        scoreTarget(log.targetDistance, text),
+        scoreRedirections(log, text),
+        scoreTime(log, text),
+        scoreCatheter(log, text),
+        scoreOrder(log.steps, text),
+        scoreTourniquet(log, procedure, text),
+    ]
+    const total = items.reduce((sum, item) => sum + item.score, 0)
+    const max = items.reduce((sum, item) => sum + item.max, 0)
+    const withinRedirections = criteria.maxRedirections === null || redirectionCount(log) <= criteria.maxRedirections
+    return { items, total, max, passed: total >= criteria.score && withinRedirections }
+}
@@ -0,0 +1,141 @@
+import * as THREE from 'three'
+import { skinDepth, skinSurfaceRadius, type ArmShape } from './anatomy'
+import { veinFrameAt, type VeinFrame, type VeinModel } from './tissue'
+import { deformOffset } from './veinMechanics'
+
+/**
+ * 断面図（短軸）と縦断図（長軸）の形状
+ * 針先の位置で、3Dの腕と静脈（怒張・ローリング・扁平化を含む）を実際の形状のまま切り出す
+ */
+
+// 3Dシーンが毎フレーム書き込む、断面を切り出すための針先と静脈の状態
+export interface SectionProbe {
+    tip: THREE.Vector3       // 組織判定に使った針先（腕ローカル座標、テンティングを反映）
+    forward: THREE.Vector3   // 針の進行方向（腕ローカル座標）
+    vein: VeinModel          // 怒張・変形を反映した静脈
+    needleRadius: number     // 外筒の半径（エコー画像に写る針の太さ）
+}
+
+export type SectionPoint = [number, number]
+
+const OUTLINE_SEGMENTS = 48
+
+/**
+ * 腕ローカルYの断面での、皮膚表面から depth の深さの輪郭（腕ローカルの [x, z]）
+ */
+export function armSectionOutline(y: number, shape: ArmShape, depth = 0): SectionPoint[] {
+    const points: SectionPoint[] = []
+    for (let i = 0; i < OUTLINE_SEGMENTS; i++) {
+        const direction = (i / OUTLINE_SEGMENTS) * Math.PI * 2
+        const radius = skinSurfaceRadius(y, direction, shape) - depth
+        points.push([Math.cos(direction) * radius, Math.sin(direction) * radius])
+    }
+    return points
+}
+
+/**
+ * 断面上の静脈の輪郭（血管中心から見た横方向・外向きの [lateral, outward]、変形を反映）
+ */
+function veinOutline(vein: VeinModel, y: number, radius: number): SectionPoint[] {
+    const points: SectionPoint[] = []
+    for (let i = 0; i < OUTLINE_SEGMENTS; i++) {
+        const angle = (i / OUTLINE_SEGMENTS) * Math.PI * 2
+        const offset = { y, lateral: Math.cos(angle) * radius, outward: Math.sin(angle) * radius, along: 0 }
+        const deformed = vein.deformation ? deformOffset(vein.deformation, offset) : offset
+        points.push([deformed.lateral, deformed.outward])
+    }
+    return points
+}
+
+function frameToLocal(frame: VeinFrame, lateral: number, outward: number): THREE.Vector3 {
+    return frame.center.clone().addScaledVector(frame.lateral, lateral).addScaledVector(frame.outward, outward)
+}
+
+export interface VeinSection {
+    wall: SectionPoint[]    // 外壁の輪郭（腕ローカルの [x, z]）
+    lumen: SectionPoint[]   // 内腔の輪郭
+}
+
+/**
+ * 腕ローカルYの断面での静脈の輪郭。血管がその断面を通らなければ null
+ */
+export function veinSectionOutline(vein: VeinModel, y: number): VeinSection | null {
+    const frame = veinFrameAt(vein, y)
+    if (!frame) return null
+    const toLocal = ([lateral, outward]: SectionPoint): SectionPoint => {
+        const point = frameToLocal(frame, lateral, outward)
+        return [point.x, point.z]
+    }
+    return {
+        wall: veinOutline(vein, y, vein.radius).map(toLocal),
+        lumen: veinOutline(vein, y, vein.radius - vein.wallThickness).map(toLocal),
+    }
+}
+
+/**
+ * 輪郭を横方向の位置 lateral で縦に切った時の、外向き成分の範囲 [浅い側, 深い側]
+ * 切る線が輪郭に掛からなければ null
+ */
+function cutOutline(outline: SectionPoint[], lateral: number): [number, number] | null {
+    let top = -Infinity
+    let bottom = Infinity
+    for (let i = 0; i < outline.length; i++) {
+        const [l0, o0] = outline[i]
+        const [l1, o1] = outline[(i + 1) % outline.length]
+        if ((lateral - l0) * (lateral - l1) > 0 || l0 === l1) continue
+        const outward = o0 + ((lateral - l0) / (l1 - l0)) * (o1 - o0)
+        top = Math.max(top, outward)
+        bottom = Math.min(bottom, outward)
+    }
+    return top === -Infinity ? null : [top, bottom]
+}
+
+export interface LongitudinalSample {
+    y: number                          // 腕ローカルY
+    wall: [number, number] | null      // 前壁の外面・後壁の外面の皮膚からの深さ
+    lumen: [number, number] | null     // 内腔の上端・下端の皮膚からの深さ
+}
+
+/**
+ * 針先を通り血管の走行に沿って切った縦断面での、血管前壁・後壁の深さ
+ * 針先の血管中心からの横方向のずれを保ったまま切るので、中心を外れていれば血管は細く写る
+ */
+export function longitudinalSection(vein: VeinModel, tip: THREE.Vector3, from: number, to: number, samples = 48): LongitudinalSample[] {
+    const tipFrame = veinFrameAt(vein, tip.y)
+    const tipLateral = tipFrame ? tip.clone().sub(tipFrame.center).dot(tipFrame.lateral) : 0
+
+    const result: LongitudinalSample[] = []
+    for (let i = 0; i <= samples; i++) {
+        const y = from + ((to - from) * i) / samples
+        const frame = veinFrameAt(vein, y)
+        if (!frame) {
+            result.push({ y, wall: null, lumen: null })
+            continue
+        }
+        const depthOf = (outward: number) => skinDepth(frameToLocal(frame, tipLateral, outward), vein.arm)
+        const wall = cutOutline(veinOutline(vein, y, vein.radius), tipLateral)
+        const lumen = cutOutline(veinOutline(vein, y, vein.radius - vein.wallThickness), tipLateral)
+        result.push({
+            y,
+            wall: wall && [depthOf(wall[0]), depthOf(wall[1])],
+            lumen: lumen && [depthOf(lumen[0]), depthOf(lumen[1])],
+        })
+    }
+    return result
+}
+
+/**
+ * 縦断面に写る針（針先から遡ったシャフト上の点の [腕ローカルY, 皮膚からの深さ]）
+ * 皮膚の外に minDepth より離れたところで打ち切る
+ */
+export function needleProfile(probe: SectionProbe, length: number, minDepth: number, samples = 24): SectionPoint[] {
+    const points: SectionPoint[] = []
+    const point = new THREE.Vector3()
+    for (let i = 0; i <= samples; i++) {
+        point.copy(probe.tip).addScaledVector(probe.forward, -(length * i) / samples)
+        const depth = skinDepth(point, probe.vein.arm)
+        points.push([point.y, depth])
+        if (depth < minDepth) break
+    }
+    return points
+}
@@ -0,0 +1,170 @@
+import * as THREE from 'three'
+import { SKIN_THICKNESS, armDirectionToWorld, armLocalToWorld, createVeinCurve, pointBelowSkin } from './anatomy'
+import type { PatientProfile } from './patients'
+
+/**
+ * 穿刺部位カタログ
+ * 血管の走行は「腕ローカルY・断面上の方向（度）・皮膚からの深さ」で定義する
+ * 深さ・太さは標準成人の値で、患者プロファイルに応じて補正して使う
+ */
+
+export type SiteId = 'basilic' | 'cephalic' | 'median-cubital' | 'forearm' | 'dorsal-hand'
+
+export interface VeinPathPoint {
+    y: number       // 腕ローカルY（-7=手首、+7=肘）
+    angle: number   // 腕断面上の方向（度、+X=0°、+Z=90°）
+    depth: number   // 皮膚表面からの深さ（血管中心）
+}
+
+export interface PunctureSite {
+    id: SiteId
+    englishName: string     // 英語の解剖学名（名前と説明は src/locales/ に言語ごとに置く）
+    path: VeinPathPoint[]
+    radius: number          // 血管の外径（チューブ半径）
+    target: VeinPathPoint   // ガイドマーカー（穿刺ターゲット）の位置
+}
+
+export const PUNCTURE_SITES: PunctureSite[] = [
+    {
+        id: 'basilic',
+        englishName: 'Basilic vein',
+        path: [
+            { y: -6, angle: 112, depth: 0.13 },
+            { y: -4, angle: 102, depth: 0.175 },
+            { y: -2, angle: 96, depth: 0.22 },
+            { y: -0.5, angle: 90, depth: 0.25 },
+            { y: 0, angle: 86, depth: 0.255 },
+            { y: 0.5, angle: 84.5, depth: 0.255 },
+            { y: 2, angle: 81, depth: 0.255 },
+            { y: 3, angle: 77, depth: 0.245 },
+            { y: 4.5, angle: 75, depth: 0.24 },
+            { y: 6, angle: 73, depth: 0.235 },
+        ],
+        radius: 0.08,
+        target: { y: 0, angle: 86, depth: 0.255 },
+    },
+    {
+        id: 'cephalic',
+        englishName: 'Cephalic vein',
+        path: [
+            { y: -6.5, angle: 120, depth: 0.11 },
+            { y: -4, angle: 117, depth: 0.15 },
+            { y: -1.5, angle: 114, depth: 0.18 },
+            { y: 1, angle: 112, depth: 0.19 },
+            { y: 3.5, angle: 110, depth: 0.2 },
+            { y: 6.5, angle: 108, depth: 0.2 },
+        ],
+        radius: 0.07,
+        target: { y: -1.5, angle: 114, depth: 0.18 },
+    },
+    {
+        id: 'median-cubital',
+        englishName: 'Median cubital vein',
+        path: [
+            { y: 4.6, angle: 110, depth: 0.16 },
+            { y: 5.1, angle: 100, depth: 0.14 },
+            { y: 5.6, angle: 90, depth: 0.13 },
+            { y: 6.1, angle: 80, depth: 0.14 },
+            { y: 6.6, angle: 70, depth: 0.16 },
+        ],
+        radius: 0.09,
+        target: { y: 5.6, angle: 90, depth: 0.13 },
+    },
+    {
+        id: 'forearm',
+        englishName: 'Median antebrachial vein',
+        path: [
+            { y: -5, angle: 96, depth: 0.12 },
+            { y: -3, angle: 95, depth: 0.14 },
+            { y: -1.5, angle: 94, depth: 0.15 },
+            { y: 0.5, angle: 95, depth: 0.16 },
+            { y: 3, angle: 97, depth: 0.17 },
+        ],
+        radius: 0.055,
+        target: { y: -1.5, angle: 94, depth: 0.15 },
+    },
+    {
+        id: 'dorsal-hand',
+        englishName: 'Dorsal hand vein',
+        path: [
+            { y: -8.1, angle: 94, depth: 0.05 },
+            { y: -7.95, angle: 92, depth: 0.055 },
+            { y: -7.8, angle: 90, depth: 0.06 },
+            { y: -7.65, angle: 88, depth: 0.055 },
+            { y: -7.5, angle: 86, depth: 0.05 },
+        ],
+        radius: 0.055,
+        target: { y: -7.8, angle: 90, depth: 0.06 },
+    },
+]
+
+export const DEFAULT_SITE_ID: SiteId = 'basilic'
+
+export function getSite(id: SiteId): PunctureSite {
+    return PUNCTURE_SITES.find((site) => site.id === id) ?? PUNCTURE_SITES[0]
+}
+
+/**
+ * 患者の皮膚・皮下組織の厚みで血管の深さを補正する
+ */
+function patientDepth(depth: number, patient: PatientProfile): number {
+    return patient.skinThickness + (depth - SKIN_THICKNESS) * patient.subcutaneousScale
+}
+
+function patientPoint({ y, angle, depth }: VeinPathPoint, patient: PatientProfile): [number, number, number] {
+    return pointBelowSkin(y, angle, patientDepth(depth, patient), patient.arm)
+}
+
+/**
+ * 血管の走行を腕ローカル座標の点列に変換する
+ */
+export function siteVeinPath(site: PunctureSite, patient: PatientProfile): [number, number, number][] {
+    return site.path.map((point) => patientPoint(point, patient))
+}
+
+/**
+ * 患者に合わせた血管の外径
+ */
+export function siteVeinRadius(site: PunctureSite, patient: PatientProfile): number {
+    return site.radius * patient.veinRadiusScale
+}
+
+/**
+ * ターゲットの腕ローカル座標
+ */
+export function siteTargetLocal(site: PunctureSite, patient: PatientProfile): [number, number, number] {
+    return patientPoint(site.target, patient)
+}
+
+/**
+ * ターゲットのワールド座標
+ */
+export function siteTargetWorld(site: PunctureSite, patient: PatientProfile): THREE.Vector3 {
+    return armLocalToWorld(new THREE.Vector3(...siteTargetLocal(site, patient)))
+}
+
+// 静脈の走行の向きを求める時に中心線を調べる点の数
+const VEIN_YAW_SAMPLES = 200
+
+/**
+ * ターゲットでの静脈の走行の、水平面での向き（度）
+ * 針の振り角の基準。腕の軸（針先が手首側＝ワールド-X）を0°とし、正は+Z側（NeedlePose.yaw と同じ向き）
+ */
+export function siteVeinYaw(site: PunctureSite, patient: PatientProfile): number {
+    const curve = createVeinCurve(siteVeinPath(site, patient))
+    const target = new THREE.Vector3(...siteTargetLocal(site, patient))
+    let closest = 0
+    let best = Infinity
+    const point = new THREE.Vector3()
+    for (let i = 0; i <= VEIN_YAW_SAMPLES; i++) {
+        const distance = curve.getPointAt(i / VEIN_YAW_SAMPLES, point).distanceToSquared(target)
+        if (distance < best) {
+            best = distance
+            closest = i / VEIN_YAW_SAMPLES
+        }
+    }
+    const tangent = armDirectionToWorld(curve.getTangentAt(closest))
+    // 針先と同じく手首側（-X）を向く向きにそろえる
+    if (tangent.x > 0) tangent.negate()
+    return THREE.MathUtils.radToDeg(Math.atan2(tangent.z, -tangent.x))
+}
@@ -0,0 +1,68 @@
+import * as THREE from 'three'
+
+/**
+ * 皮膚の刺入点の検出
+ * 針のシャフトを皮膚メッシュ（テンティングで凹んだ後の形状）に対してレイキャストし、
+ * 針が実際に皮膚を貫いている点と、その点での皮膚面に対する角度を求める
+ */
+
+export interface SkinEntry {
+    point: THREE.Vector3   // 刺入点（ワールド座標）
+    angle: number          // 刺入点の皮膚面と針のなす角（度）
+    depth: number          // 刺入点から針先までの長さ（皮下に入っている針の長さ）
+}
+
+// 針先がこれより浅ければ皮膚に接しているだけとみなす（凹みの底と針先の誤差）
+const ENTRY_MARGIN = 0.005
+
+const raycaster = new THREE.Raycaster()
+const origin = new THREE.Vector3()
+const normal = new THREE.Vector3()
+
+/**
+ * 針のシャフトが皮膚を貫いている点
+ * skin: 皮膚メッシュを含むオブジェクト、tip / forward: 針先の位置と進行方向（ワールド座標）
+ * shaftLength: 針先からハブまでの長さ。皮膚を貫いていなければ null
+ */
+export function findSkinEntry(
+    skin: THREE.Object3D,
+    tip: THREE.Vector3,
+    forward: THREE.Vector3,
+    shaftLength: number,
+): SkinEntry | null {
+    // ハブ側から針先に向かってレイを飛ばし、最初に皮膚の表側に当たった点が刺入点
+    origin.copy(tip).addScaledVector(forward, -shaftLength)
+    raycaster.set(origin, forward)
+    raycaster.near = 0
+    raycaster.far = shaftLength - ENTRY_MARGIN
+
+    const hit = raycaster.intersectObject(skin, true).find((intersection) => {
+        if (!intersection.face) return false
+        normal.copy(intersection.face.normal).transformDirection(intersection.object.matrixWorld)
+        return normal.dot(forward) < 0
+    })
+    if (!hit?.face) return null
+
+    normal.copy(hit.face.normal).transformDirection(hit.object.matrixWorld)
+    return {
+        point: hit.point.clone(),
+        angle: THREE.MathUtils.radToDeg(Math.asin(Math.min(1, -normal.dot(forward)))),
+        depth: shaftLength - hit.distance,
+    }
+}
+
+/**
+ * 刺入点を支点に針の向きを変えた時の針の位置（グループの原点）
+ * 皮下の針は組織に固定されているため、向きを変えると刺入点を中心に回る
+ * innerOffset: 内筒のオフセット（針先＝原点＋進行方向×innerOffset）
+ */
+export function pivotAtSkinEntry(entry: SkinEntry, forward: THREE.Vector3, innerOffset: number): THREE.Vector3 {
+    return entry.point.clone().addScaledVector(forward, entry.depth - innerOffset)
+}
+
+/**
+ * 皮下での針の移動を針軸方向だけに制限する（横方向の成分を捨てる）
+ */
+export function constrainToShaft(move: THREE.Vector3, forward: THREE.Vector3): THREE.Vector3 {
+    return forward.clone().multiplyScalar(move.dot(forward))
+}
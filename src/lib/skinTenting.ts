@@ -0,0 +1,142 @@
+import * as THREE from 'three'
+import { skinDepth, type ArmShape } from './anatomy'
+
+/**
+ * 刺入点の皮膚のテンティング（押し込み）
+ * 針先が皮膚を貫くまでは皮膚が針先と一緒に内側へ凹み、貫いた瞬間に元に戻る
+ * 角度が浅いほど、また押す速さが遅い（ためらう）ほど、貫くまでに深く凹む
+ */
+
+export interface SkinTent {
+    active: boolean            // 針先が皮膚を押し込んでいる（まだ貫いていない）
+    pierced: boolean           // 皮膚を貫いた（針先を皮膚の外に戻すまで）
+    contact: THREE.Vector3     // 押し込みの中心（腕ローカル座標、皮膚表面上）
+    direction: THREE.Vector3   // 押し込む向き（腕ローカル座標の単位ベクトル、腕の軸に向かう向き）
+    depth: number              // 現在の押し込み量
+}
+
+export function createSkinTent(): SkinTent {
+    return {
+        active: false,
+        pierced: false,
+        contact: new THREE.Vector3(),
+        direction: new THREE.Vector3(),
+        depth: 0,
+    }
+}
+
+// 素早く垂直に近い角度で刺した時に貫くまでの押し込み量
+const PIERCE_DEPTH = 0.012
+
+// 角度が浅い・押す速さが遅い時の押し込み量の上限（倍率）
+const MAX_ANGLE_FACTOR = 2
+const MAX_SPEED_FACTOR = 2
+
+// これより速く押すと迷いのない刺入とみなす（腕ローカル長さ/秒）
+const DECISIVE_SPEED = 1.2
+
+// 貫いた後に皮膚が戻る時定数（秒）
+const SPRING_BACK_TIME = 0.08
+
+// 押し込んでいる間、針先が皮膚に接しているとみなす深さ
+const CONTACT_INSET = 0.005
+
+// 凹みが広がる範囲（押し込み量に応じて広がる）
+const TENT_RADIUS = 0.1
+const TENT_RADIUS_PER_DEPTH = 2.5
+
+/**
+ * 皮膚を貫くまでの押し込み量
+ * surfaceAngle: 皮膚面と針のなす角（rad）、speed: 針先の移動速度
+ */
+export function pierceDepthFor(surfaceAngle: number, speed: number): number {
+    const sin = Math.max(Math.sin(surfaceAngle), 1e-3)
+    const angleFactor = Math.min(MAX_ANGLE_FACTOR, Math.sin(THREE.MathUtils.degToRad(30)) / sin)
+    const speedFactor = Math.min(MAX_SPEED_FACTOR, DECISIVE_SPEED / Math.max(speed, 1e-3))
+    return PIERCE_DEPTH * Math.max(1, angleFactor) * Math.max(1, speedFactor)
+}
+
+const normal = new THREE.Vector3()
+const sample = new THREE.Vector3()
+
+/**
+ * 皮膚表面の外向き法線（腕ローカル座標）
+ */
+function skinNormal(local: THREE.Vector3, shape: ArmShape, target: THREE.Vector3): THREE.Vector3 {
+    const h = 1e-3
+    const depth = (dx: number, dy: number, dz: number) => skinDepth(sample.set(local.x + dx, local.y + dy, local.z + dz), shape)
+    return target.set(
+        depth(-h, 0, 0) - depth(h, 0, 0),
+        depth(0, -h, 0) - depth(0, h, 0),
+        depth(0, 0, -h) - depth(0, 0, h),
+    ).normalize()
+}
+
+/**
+ * 針先の位置からテンティングを1フレーム分進める
+ * tip / forward: 針先の位置と進行方向（腕ローカル座標）、speed: 針先の移動速度
+ */
+export function stepSkinTent(
+    tent: SkinTent,
+    tip: THREE.Vector3,
+    forward: THREE.Vector3,
+    shape: ArmShape,
+    speed: number,
+    delta: number,
+) {
+    const depthBelowSkin = skinDepth(tip, shape)
+
+    // 皮膚の外に戻した：次の刺入に備える
+    if (depthBelowSkin <= 0) {
+        tent.active = false
+        tent.pierced = false
+    }
+
+    if (depthBelowSkin > 0 && !tent.pierced) {
+        skinNormal(tip, shape, normal)
+        const surfaceAngle = Math.asin(Math.min(1, Math.max(0, -forward.dot(normal) / forward.length())))
+        const pierceDepth = pierceDepthFor(surfaceAngle, speed)
+
+        // 皮膚の外から押し当てずに皮下へ入った（横移動などで一気に入った）時は凹ませない
+        if (!tent.active && depthBelowSkin >= pierceDepth) {
+            tent.pierced = true
+            return
+        }
+
+        // 皮膚は針先に押されて一緒に凹む（凹みの中心は針先の真上の皮膚表面）
+        // 皮膚の深さは腕の軸から放射方向に測るため、凹みも同じ向きにとる
+        tent.active = true
+        tent.direction.set(-tip.x, 0, -tip.z).normalize()
+        tent.contact.copy(tip).addScaledVector(tent.direction, -depthBelowSkin)
+        tent.depth = depthBelowSkin
+
+        if (tent.depth >= pierceDepth) {
+            tent.active = false
+            tent.pierced = true
+        }
+        return
+    }
+
+    // 貫いた後・針を抜いた後は弾性で元に戻る
+    tent.depth *= Math.exp(-delta / SPRING_BACK_TIME)
+    if (tent.depth < 1e-4) tent.depth = 0
+}
+
+/**
+ * 皮膚の凹みに合わせて、組織判定に使う針先の位置を戻す
+ * 押し込んでいる間は皮下組織も一緒に押されるため、針先は皮膚表面に留まっている
+ */
+export function tentedTip(tent: SkinTent, tip: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+    return target.copy(tip).addScaledVector(tent.direction, -Math.max(0, tent.depth - CONTACT_INSET))
+}
+
+/**
+ * 皮膚表面の点の凹み量（押し込む向きへの変位）
+ */
+export function tentDisplacement(tent: SkinTent, point: THREE.Vector3): number {
+    if (tent.depth === 0) return 0
+    const radius = TENT_RADIUS + tent.depth * TENT_RADIUS_PER_DEPTH
+    const d = point.distanceTo(tent.contact) / radius
+    if (d > 3) return 0
+    return tent.depth * Math.exp(-d * d)
+}
@@ -0,0 +1,270 @@
+import * as THREE from 'three'
+import type { PatientProfile } from './patients'
+import type { Gauge } from './gauges'
+import { pressAngleOf, rollDisplacement, undeformOffset, type VeinDeformation, type VeinOffset } from './veinMechanics'
+import {
+    createVeinCurve,
+    skinDepth,
+    worldDirectionToArmLocal,
+    worldToArmLocal,
+    type ArmShape,
+} from './anatomy'
+
+/**
+ * 組織層モデル
+ * 皮膚 → 皮下脂肪 → 血管前壁 → 血管内腔 → 血管後壁 → 血管より深部
+ */
+export type TissueLayer =
+    | 'air'
+    | 'skin'
+    | 'subcutaneous'
+    | 'anterior-wall'
+    | 'lumen'
+    | 'posterior-wall'
+    | 'deep'
+
+// 内筒の刃面（ベベル）の長さ（針先端からの距離）
+export const BEVEL_LENGTH = 0.12
+
+export interface TissueReading {
+    tip: THREE.Vector3        // 判定した針先端の位置（ワールド座標）
+    tipLayer: TissueLayer     // 針先端がある層
+    heelLayer: TissueLayer    // 刃面後端がある層
+    bevelInLumen: boolean     // 刃面全体が血管内腔に入っているか
+    depthBelowSkin: number    // 先端の皮膚表面からの深さ（皮膚の外は負）
+    veinDistance: number      // 先端と血管中心線との距離
+    veinDepth: number         // 先端に最も近い血管中心の皮膚表面からの深さ
+    belowVein: boolean        // 先端が血管に当たらず、血管より深い位置にある
+    veinCrossing: number      // 水平面に投影した針と、先端に最も近い血管の走行とのなす角（0〜90°）
+}
+
+export interface VeinModel {
+    samples: THREE.Vector3[]  // 中心線のサンプル点（腕ローカル座標）
+    radius: number            // 外径（チューブ半径）
+    wallThickness: number
+    arm: ArmShape             // 皮膚表面の形状
+    skinThickness: number
+    tolerance: number         // 内腔判定の許容幅（患者＋ゲージ）
+    deformation: VeinDeformation | null  // 針の接触による変形（ローリング・扁平化）
+}
+
+export function createVeinModel(
+    path: [number, number, number][],
+    radius: number,
+    patient: PatientProfile,
+    gauge: Gauge,
+): VeinModel {
+    return {
+        samples: createVeinCurve(path).getSpacedPoints(160),
+        radius,
+        wallThickness: patient.veinWallThickness,
+        arm: patient.arm,
+        skinThickness: patient.skinThickness,
+        tolerance: patient.tolerance + gauge.veinEntryTolerance,
+        deformation: null,
+    }
+}
+
+const segment = new THREE.Line3()
+const closest = new THREE.Vector3()
+
+/**
+ * 血管中心線上の最近傍点と、その位置での走行方向を求める（腕ローカル座標）
+ */
+function closestOnVein(vein: VeinModel, local: THREE.Vector3, target: THREE.Vector3, tangent: THREE.Vector3): number {
+    let best = Infinity
+    for (let i = 0; i < vein.samples.length - 1; i++) {
+        segment.set(vein.samples[i], vein.samples[i + 1])
+        segment.closestPointToPoint(local, true, closest)
+        const d = closest.distanceToSquared(local)
+        if (d < best) {
+            best = d
+            target.copy(closest)
+            segment.delta(tangent)
+        }
+    }
+    tangent.normalize()
+    return Math.sqrt(best)
+}
+
+const localPoint = new THREE.Vector3()
+const localForward = new THREE.Vector3()
+const veinPoint = new THREE.Vector3()
+const veinTangent = new THREE.Vector3()
+const outward = new THREE.Vector3()
+const lateral = new THREE.Vector3()
+const offset = new THREE.Vector3()
+
+/**
+ * 腕ローカル座標の点を、最近傍の血管中心線上の点から見た位置に分解する
+ * 皮膚に向かう方向（外向き）・走行に直交する横方向・走行方向の3成分
+ * 呼び出し後、veinPoint / outward / lateral にその点での値が残る
+ */
+function decomposeVeinOffset(vein: VeinModel, local: THREE.Vector3): VeinOffset {
+    closestOnVein(vein, local, veinPoint, veinTangent)
+    outward.set(veinPoint.x, 0, veinPoint.z).normalize()
+    lateral.crossVectors(veinTangent, outward).normalize()
+    offset.subVectors(local, veinPoint)
+    return {
+        y: veinPoint.y,
+        lateral: offset.dot(lateral),
+        outward: offset.dot(outward),
+        along: offset.dot(veinTangent),
+    }
+}
+
+export interface VeinFrame {
+    center: THREE.Vector3     // 血管中心線上の点（腕ローカル座標）
+    tangent: THREE.Vector3    // 走行方向（中心線のサンプル順）
+    outward: THREE.Vector3    // 皮膚に向かう方向
+    lateral: THREE.Vector3    // 走行と外向きの両方に直交する横方向
+}
+
+/**
+ * 腕ローカルYの断面を血管中心線が通る点と、その点での断面の向き
+ * 血管がその断面を通らなければ null
+ */
+export function veinFrameAt(vein: VeinModel, y: number): VeinFrame | null {
+    for (let i = 0; i < vein.samples.length - 1; i++) {
+        const a = vein.samples[i]
+        const b = vein.samples[i + 1]
+        if ((y - a.y) * (y - b.y) > 0 || a.y === b.y) continue
+        const center = a.clone().lerp(b, (y - a.y) / (b.y - a.y))
+        const tangent = b.clone().sub(a).normalize()
+        const frameOutward = new THREE.Vector3(center.x, 0, center.z).normalize()
+        return {
+            center,
+            tangent,
+            outward: frameOutward,
+            lateral: new THREE.Vector3().crossVectors(tangent, frameOutward).normalize(),
+        }
+    }
+    return null
+}
+
+/**
+ * 針先の、血管中心線から見た位置と、針が押してくる向き（静脈の変形計算用）
+ * 針先が皮膚の外にあれば offset は null
+ */
+export function measureVeinContact(
+    vein: VeinModel,
+    tip: THREE.Vector3,
+    forward: THREE.Vector3,
+): { offset: VeinOffset | null; pressAngle: number | null } {
+    worldToArmLocal(tip, localPoint)
+    if (skinDepth(localPoint, vein.arm) < 0) return { offset: null, pressAngle: null }
+    const tipOffset = decomposeVeinOffset(vein, localPoint)
+    worldDirectionToArmLocal(forward, localForward)
+    return {
+        offset: tipOffset,
+        pressAngle: pressAngleOf(localForward.dot(lateral), localForward.dot(outward)),
+    }
+}
+
+/**
+ * ワールド座標の1点がどの組織層にあるかを判定する
+ * forward（針の進行方向）を基準に、血管の手前側を前壁、奥側を後壁とみなす
+ */
+function classifyPoint(
+    vein: VeinModel,
+    world: THREE.Vector3,
+    forward: THREE.Vector3,
+): { layer: TissueLayer; depthBelowSkin: number; veinDistance: number; veinDepth: number; belowVein: boolean; tangent: THREE.Vector3 } {
+    worldToArmLocal(world, localPoint)
+    const depthBelowSkin = skinDepth(localPoint, vein.arm)
+
+    // 血管の位置での皮膚に向かう方向（外向き）と、走行に直交する横方向に分けて、
+    // 変形（ローリング・扁平化）を戻した円形断面の座標で判定する
+    const u = undeformOffset(vein.deformation, decomposeVeinOffset(vein, localPoint))
+    const veinDistance = Math.hypot(u.lateral, u.outward, u.along)
+    const veinDepth = skinDepth(veinPoint, vein.arm)
+
+    // 血管の真下（皮膚から見て血管より奥）にあるか
+    const belowVein =
+        depthBelowSkin > 0 &&
+        veinDistance >= vein.radius &&
+        u.outward < -(vein.radius + vein.tolerance) &&
+        Math.abs(u.lateral) < vein.radius * 2
+
+    const result = { depthBelowSkin, veinDistance, veinDepth, belowVein, tangent: veinTangent.clone() }
+
+    if (depthBelowSkin < 0) return { layer: 'air', ...result }
+
+    if (veinDistance < vein.radius) {
+        if (veinDistance < vein.radius - vein.wallThickness + vein.tolerance) {
+            return { layer: 'lumen', ...result }
+        }
+        // 横に逃げた血管の中心から見て、針の進行方向の手前か奥か
+        worldDirectionToArmLocal(forward, localForward)
+        const roll = vein.deformation ? rollDisplacement(vein.deformation, veinPoint.y) : { lateral: 0, outward: 0 }
+        const side = offset.dot(localForward) - roll.lateral * lateral.dot(localForward) - roll.outward * outward.dot(localForward)
+        return { layer: side < 0 ? 'anterior-wall' : 'posterior-wall', ...result }
+    }
+
+    if (depthBelowSkin < vein.skinThickness) return { layer: 'skin', ...result }
+    return { layer: 'subcutaneous', ...result }
+}
+
+/**
+ * 1点がある組織層（シャフトを遡った貫通判定はしない）
+ */
+export function tissueLayerAt(vein: VeinModel, point: THREE.Vector3, forward: THREE.Vector3): TissueLayer {
+    return classifyPoint(vein, point, forward).layer
+}
+
+// 貫通判定で先端から遡って調べるシャフトの長さ
+const SHAFT_PROBE_LENGTH = 3
+
+const heel = new THREE.Vector3()
+const probe = new THREE.Vector3()
+
+/**
+ * 針先端の位置と進行方向から、刃面が現在どの組織層にあるかを読み取る
+ * tip: 針先端（ワールド座標）、forward: 針の進行方向（ワールド座標の単位ベクトル）
+ */
+export function readTissue(vein: VeinModel, tip: THREE.Vector3, forward: THREE.Vector3): TissueReading {
+    const tipResult = classifyPoint(vein, tip, forward)
+    const veinCrossing = crossingAngle(forward, tipResult.tangent)
+    heel.copy(tip).addScaledVector(forward, -BEVEL_LENGTH)
+    const heelResult = classifyPoint(vein, heel, forward)
+
+    let tipLayer = tipResult.layer
+
+    // 皮下にある先端の手前のシャフトが血管内腔を通過していれば、血管を貫通して奥に出ている
+    if (tipLayer === 'subcutaneous') {
+        const step = vein.radius / 2
+        for (let d = step; d < SHAFT_PROBE_LENGTH; d += step) {
+            probe.copy(tip).addScaledVector(forward, -d)
+            const { layer } = classifyPoint(vein, probe, forward)
+            if (layer === 'air') break
+            if (layer === 'lumen') {
+                tipLayer = 'deep'
+                break
+            }
+        }
+    }
+
+    return {
+        tip: tip.clone(),
+        tipLayer,
+        heelLayer: heelResult.layer,
+        bevelInLumen: tipLayer === 'lumen' && heelResult.layer === 'lumen',
+        depthBelowSkin: tipResult.depthBelowSkin,
+        veinDistance: tipResult.veinDistance,
+        veinDepth: tipResult.veinDepth,
+        belowVein: tipLayer === 'subcutaneous' && tipResult.belowVein,
+        veinCrossing,
+    }
+}
+
+/**
+ * 水平面に投影した針と血管の走行（tangent、腕ローカル座標）とのなす角（度）
+ * 刺入角度と同じく、ワールドの水平面（腕ローカルのY-Z面）を基準にする
+ */
+function crossingAngle(forward: THREE.Vector3, tangent: THREE.Vector3): number {
+    worldDirectionToArmLocal(forward, localForward)
+    const needleAngle = Math.atan2(localForward.z, localForward.y)
+    const veinAngle = Math.atan2(tangent.z, tangent.y)
+    const difference = Math.abs(THREE.MathUtils.euclideanModulo(needleAngle - veinAngle + Math.PI, 2 * Math.PI) - Math.PI)
+    return THREE.MathUtils.radToDeg(Math.min(difference, Math.PI - difference))
+}
@@ -0,0 +1,73 @@
+import { isStepDone, type ProcedureState } from './procedure'
+
+/**
+ * 駆血帯と静脈の怒張
+ * 駆血帯を巻いている間は静脈がゆっくり充満して太くなり、外すと元に戻る
+ */
+
+// 駆血帯を巻く位置（腕ローカルY、肘より上）
+export const TOURNIQUET_Y = 6.75
+export const TOURNIQUET_WIDTH = 0.35
+
+// 怒張の時定数（ms）：巻いてから充満するまで／外してから戻るまで
+const ENGORGEMENT_FILL_TIME = 15000
+const ENGORGEMENT_DRAIN_TIME = 5000
+
+// 最大に怒張した時の血管径の増加率
+export const MAX_ENGORGEMENT_GAIN = 0.35
+
+// 最大に怒張した時の逆血の速さの増加率
+const FLASHBACK_ENGORGEMENT_GAIN = 1.5
+
+// 駆血時間の目安（ms）：これを超えると減点し、上限で0点
+export const TOURNIQUET_TIME_LIMIT = 60000
+export const TOURNIQUET_TIME_MAX = 120000
+
+function eventTime(procedure: ProcedureState, step: 'tourniquet-on' | 'tourniquet-off' | 'line-connection'): number | null {
+    return procedure.events.find((event) => event.step === step)?.at ?? null
+}
+
+/**
+ * 駆血していた時間（ms）。巻いていなければ null
+ */
+export function tourniquetDuration(procedure: ProcedureState, now: number): number | null {
+    const onAt = eventTime(procedure, 'tourniquet-on')
+    if (onAt === null) return null
+    return (eventTime(procedure, 'tourniquet-off') ?? now) - onAt
+}
+
+/**
+ * 静脈の怒張の度合い（0=平常 〜 1=最大）
+ */
+export function engorgementAt(procedure: ProcedureState, now: number): number {
+    const onAt = eventTime(procedure, 'tourniquet-on')
+    if (onAt === null) return 0
+    const offAt = eventTime(procedure, 'tourniquet-off')
+    const filled = 1 - Math.exp(-((offAt ?? now) - onAt) / ENGORGEMENT_FILL_TIME)
+    if (offAt === null) return filled
+    return filled * Math.exp(-(now - offAt) / ENGORGEMENT_DRAIN_TIME)
+}
+
+/**
+ * 怒張を反映した血管の外径
+ */
+export function engorgedRadius(radius: number, engorgement: number): number {
+    return radius * (1 + MAX_ENGORGEMENT_GAIN * engorgement)
+}
+
+/**
+ * 怒張を反映した逆血の速さ
+ */
+export function engorgedFlashbackSpeed(speed: number, engorgement: number): number {
+    return speed * (1 + FLASHBACK_ENGORGEMENT_GAIN * engorgement)
+}
+
+/**
+ * 駆血帯がラインの接続より前に外されたか（接続していなければ null）
+ */
+export function releasedBeforeConnection(procedure: ProcedureState): boolean | null {
+    const connectedAt = eventTime(procedure, 'line-connection')
+    if (connectedAt === null) return null
+    const offAt = eventTime(procedure, 'tourniquet-off')
+    return isStepDone(procedure, 'tourniquet-on') && offAt !== null && offAt <= connectedAt
+}
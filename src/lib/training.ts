@@ -0,0 +1,198 @@
+import type { FailurePhase, Mode, Phase, TrainingMode } from '../types'
+import type { TissueReading } from './tissue'
+import type { GaugeId } from './gauges'
+import type { PatientId } from './patients'
+import type { SiteId } from './sites'
+import type { ScoreReport } from './scoring'
+import { canAdvanceCatheter } from './outcomes'
+import { isStepDone, isTourniquetOn, type ProcedureAction, type ProcedureState } from './procedure'
+
+/**
+ * 練習の形式（チュートリアル・練習・試験）
+ * 形式ごとに表示する補助と、チュートリアルの手順案内・操作のロック、試験の制限時間と結果を扱う
+ */
+
+export const TRAINING_MODES: TrainingMode[] = ['tutorial', 'practice', 'exam']
+
+// 形式ごとに表示する補助
+export interface TrainingAids {
+    guide: boolean           // 穿刺ターゲットのガイドリング
+    sectionViews: boolean    // 断面図・縦断図
+    seeThroughSkin: boolean  // 血管が透けて見える皮膚
+    ultrasound: boolean      // エコーガイド
+    tipView: boolean         // 針先を追う小窓
+}
+
+export const TRAINING_AIDS: Record<TrainingMode, TrainingAids> = {
+    'tutorial': { guide: true, sectionViews: true, seeThroughSkin: true, ultrasound: true, tipView: true },
+    'practice': { guide: true, sectionViews: true, seeThroughSkin: true, ultrasound: true, tipView: true },
+    'exam': { guide: false, sectionViews: false, seeThroughSkin: false, ultrasound: false, tipView: false },
+}
+
+/**
+ * 形式の補助のうち、シナリオでも許された補助だけを残す
+ */
+export function restrictAids(aids: TrainingAids, allowed: TrainingAids): TrainingAids {
+    return {
+        guide: aids.guide && allowed.guide,
+        sectionViews: aids.sectionViews && allowed.sectionViews,
+        seeThroughSkin: aids.seeThroughSkin && allowed.seeThroughSkin,
+        ultrasound: aids.ultrasound && allowed.ultrasound,
+        tipView: aids.tipView && allowed.tipView,
+    }
+}
+
+// 試験の制限時間（ms、手順の開始からラインの接続まで。シナリオで変えられる）
+export const EXAM_TIME_LIMIT = 180_000
+
+// ===== チュートリアル =====
+
+// チュートリアルで案内する手順
+export type TutorialStep =
+    | 'hand-hygiene'
+    | 'site-selection'
+    | 'tourniquet-on'
+    | 'disinfection'
+    | 'needle-mode'        // 穿刺モードに切り替える
+    | 'puncture'           // 刺入して逆血を確認する
+    | 'seat-bevel'         // 角度を下げ、刃面全体を血管内へ
+    | 'advance-catheter'
+    | 'tourniquet-off'
+    | 'stylet-withdrawal'
+    | 'line-connection'
+    | 'done'
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+    'hand-hygiene',
+    'site-selection',
+    'tourniquet-on',
+    'disinfection',
+    'needle-mode',
+    'puncture',
+    'seat-bevel',
+    'advance-catheter',
+    'tourniquet-off',
+    'stylet-withdrawal',
+    'line-connection',
+    'done',
+]
+
+/**
+ * 手順・フェーズ・操作モードから、チュートリアルでいま行う手順を決める
+ */
+export function currentTutorialStep(
+    procedure: ProcedureState,
+    phase: Phase,
+    mode: Mode,
+    tissue: TissueReading | null,
+): TutorialStep {
+    switch (phase) {
+        case 'pre-puncture':
+            if (!isStepDone(procedure, 'hand-hygiene')) return 'hand-hygiene'
+            if (!isStepDone(procedure, 'site-selection')) return 'site-selection'
+            if (!isStepDone(procedure, 'tourniquet-on')) return 'tourniquet-on'
+            if (!isStepDone(procedure, 'disinfection')) return 'disinfection'
+            return mode === 'needle' ? 'puncture' : 'needle-mode'
+        case 'punctured':
+            return canAdvanceCatheter(tissue) ? 'advance-catheter' : 'seat-bevel'
+        case 'advancing':
+            return isTourniquetOn(procedure) ? 'tourniquet-off' : 'stylet-withdrawal'
+        case 'completed':
+            return isStepDone(procedure, 'line-connection') ? 'done' : 'line-connection'
+        default:
+            return 'done'
+    }
+}
+
+// チュートリアルでロックする操作のまとまり
+export type TutorialControl =
+    | 'setup'     // 患者・ゲージ・部位の選択
+    | 'needle'    // 穿刺モードでの針の操作（位置・角度・向き、皮膚伸展、エコー）
+    | 'catheter'  // 外筒スライダー
+    | 'stylet'    // 内筒スライダー
+
+const TUTORIAL_CONTROLS: Record<TutorialStep, TutorialControl[]> = {
+    'hand-hygiene': ['setup'],
+    'site-selection': ['setup'],
+    'tourniquet-on': [],
+    'disinfection': [],
+    'needle-mode': ['needle'],
+    'puncture': ['needle'],
+    'seat-bevel': ['needle'],
+    'advance-catheter': ['catheter'],
+    'tourniquet-off': ['catheter'],
+    'stylet-withdrawal': ['catheter', 'stylet'],
+    'line-connection': [],
+    'done': [],
+}
+
+/**
+ * その操作を使えるか（チュートリアル以外では常に使える）
+ */
+export function isControlUnlocked(training: TrainingMode, step: TutorialStep, control: TutorialControl): boolean {
+    return training !== 'tutorial' || TUTORIAL_CONTROLS[step].includes(control)
+}
+
+/**
+ * 手順バーで行える操作（チュートリアルではいまの手順だけ、それ以外は制限しない）
+ */
+export function allowedProcedureActions(training: TrainingMode, step: TutorialStep): readonly ProcedureAction[] | undefined {
+    if (training !== 'tutorial') return undefined
+    switch (step) {
+        case 'hand-hygiene':
+        case 'site-selection':
+        case 'tourniquet-on':
+        case 'disinfection':
+        case 'tourniquet-off':
+        case 'line-connection':
+            return [step]
+        default:
+            return []
+    }
+}
+
+// ===== 試験 =====
+
+export interface ExamResult {
+    finishedAt: number            // 終了した日時（Date.now）
+    site: SiteId
+    patient: PatientId
+    gauge: GaugeId
+    total: number
+    max: number
+    passed: boolean
+    elapsed: number               // 開始から終了までの時間（ms）
+    failure: FailurePhase | null  // 失敗・時間切れで終わった場合のフェーズ
+}
+
+/**
+ * 試験の時間の表示（m:ss、端数は切り上げ）
+ */
+export function formatExamTime(ms: number): string {
+    const seconds = Math.max(0, Math.ceil(ms / 1000))
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * 試験の結果をまとめる（失敗・時間切れは0点で不合格）
+ */
+export function createExamResult(
+    report: ScoreReport,
+    failure: FailurePhase | null,
+    elapsed: number,
+    site: SiteId,
+    patient: PatientId,
+    gauge: GaugeId,
+): ExamResult {
+    return {
+        finishedAt: Date.now(),
+        site,
+        patient,
+        gauge,
+        total: failure === null ? report.total : 0,
+        max: report.max,
+        passed: failure === null && report.passed,
+        elapsed,
+        failure,
+    }
+}
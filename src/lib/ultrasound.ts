@@ -0,0 +1,190 @@
+import * as THREE from 'three'
+import { pointBelowSkin, skinDepth, skinSurfaceRadius, type ArmShape } from './anatomy'
+import { veinFrameAt, type VeinFrame } from './tissue'
+import { undeformOffset } from './veinMechanics'
+import type { SectionProbe } from './sectionViews'
+import type { PunctureSite } from './sites'
+
+/**
+ * エコーガイド下穿刺の超音波プローブと Bモード画像
+ * プローブの下の組織を切り出し、皮膚・皮下脂肪・静脈・筋膜・針をエコー輝度に置き換えて描く
+ * 短軸（腕を輪切り）と長軸（腕の軸に沿って縦切り）の2通りで見られる
+ */
+
+export type UltrasoundView = 'short-axis' | 'long-axis'
+
+export const ULTRASOUND_VIEWS: UltrasoundView[] = ['short-axis', 'long-axis']
+
+export interface UltrasoundProbe {
+    y: number              // プローブ中心の腕ローカルY
+    angle: number          // プローブを当てる腕断面上の方向（度、+X=0°、+Z=90°）
+    view: UltrasoundView
+    pressure: number       // プローブで押す強さ（0〜1）
+}
+
+// 探触子の幅（画像の横幅）と表示深度（腕ローカルの長さ）
+export const PROBE_WIDTH = 0.7
+export const IMAGE_DEPTH = 0.6
+
+// 穿刺ターゲットからプローブを置く位置（針が進んでいく肘側）と、動かせる範囲
+const PROBE_AHEAD = 0.35
+export const PROBE_Y_RANGE = 1.5
+export const PROBE_ANGLE_RANGE = 25
+
+// 最も強く押した時の静脈の扁平化（内腔がつぶれる割合）
+const MAX_PROBE_COMPRESSION = 0.85
+
+/**
+ * 穿刺部位に合わせたプローブの初期位置
+ */
+export function probeFor(site: PunctureSite, view: UltrasoundView = 'short-axis'): UltrasoundProbe {
+    return { y: site.target.y + PROBE_AHEAD, angle: site.target.angle, view, pressure: 0.2 }
+}
+
+/**
+ * プローブの圧迫による静脈の扁平化の度合い（0=円形）
+ */
+export function probeCompression(probe: UltrasoundProbe): number {
+    return MAX_PROBE_COMPRESSION * probe.pressure * probe.pressure
+}
+
+/**
+ * 画像の横位置 u（プローブ中心からの距離）にあたる皮膚表面の点
+ * 短軸では腕の周方向、長軸では腕の軸方向に並ぶ。探触子は皮膚に沿って密着しているものとする
+ */
+function beamSurface(probe: UltrasoundProbe, shape: ArmShape, u: number): THREE.Vector3 {
+    if (probe.view === 'long-axis') {
+        return new THREE.Vector3(...pointBelowSkin(probe.y + u, probe.angle, 0, shape))
+    }
+    const radius = skinSurfaceRadius(probe.y, THREE.MathUtils.degToRad(probe.angle), shape)
+    return new THREE.Vector3(...pointBelowSkin(probe.y, probe.angle + THREE.MathUtils.radToDeg(u / radius), 0, shape))
+}
+
+/**
+ * 再現性のある疑似乱数（組織の位置ごとに決まるスペックル）
+ */
+function hash(x: number, y: number, z: number): number {
+    const h = Math.sin(x * 127.1 + y * 311.7 + z * 74.7) * 43758.5453
+    return h - Math.floor(h)
+}
+
+// スペックルの粒の大きさ（腕ローカルの長さ）
+const SPECKLE_GRAIN = 0.006
+
+// 組織ごとのエコー輝度（0=無エコー 〜 1=高エコー）
+const ECHO_SKIN = 0.8
+const ECHO_FAT = 0.28
+const ECHO_SEPTUM = 0.6
+const ECHO_FASCIA = 0.9
+const ECHO_MUSCLE = 0.42
+const ECHO_VEIN_WALL = 0.75
+const ECHO_LUMEN = 0.03
+const ECHO_NEEDLE = 1.0
+
+// 深さによる減衰と、静脈の奥に出る後方エコー増強
+const ATTENUATION = 1.1
+const POSTERIOR_ENHANCEMENT = 1.35
+
+const point = new THREE.Vector3()
+const offset = new THREE.Vector3()
+const inward = new THREE.Vector3()
+const toTip = new THREE.Vector3()
+
+/**
+ * 点と針のシャフト（針先から shaftLength 手前まで）との距離
+ */
+function distanceToShaft(probe: SectionProbe, p: THREE.Vector3, shaftLength: number): number {
+    toTip.subVectors(p, probe.tip)
+    const along = THREE.MathUtils.clamp(-toTip.dot(probe.forward), 0, shaftLength)
+    return toTip.addScaledVector(probe.forward, along).length()
+}
+
+/**
+ * プローブの下の組織の Bモード画像を描く（RGBA、width × height）
+ * 画像の上端が皮膚表面、下端が IMAGE_DEPTH の深さ。time: スペックルのちらつき用
+ */
+export function renderBMode(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    probe: UltrasoundProbe,
+    section: SectionProbe,
+    time: number,
+) {
+    const { vein } = section
+    const compression = probeCompression(probe)
+    const innerRadius = vein.radius - vein.wallThickness
+    const tipUnderSkin = skinDepth(section.tip, vein.arm) > 0
+
+    // 筋膜（皮下脂肪と筋層の境界）は静脈より深い位置に置く
+    const centerFrame = veinFrameAt(vein, probe.y)
+    const veinDepth = centerFrame ? skinDepth(centerFrame.center, vein.arm) : 0.2
+    const fasciaDepth = Math.max(0.4, veinDepth + vein.radius * 1.8)
+    const flicker = Math.floor(time * 12)
+
+    for (let i = 0; i < width; i++) {
+        const u = (i / (width - 1) - 0.5) * PROBE_WIDTH
+        const surface = beamSurface(probe, vein.arm, u)
+        inward.set(-surface.x, 0, -surface.z).normalize()
+        const frame: VeinFrame | null = probe.view === 'long-axis' ? veinFrameAt(vein, surface.y) : centerFrame
+
+        let enhancement = 1
+        for (let j = 0; j < height; j++) {
+            const depth = (j / (height - 1)) * IMAGE_DEPTH
+            point.copy(surface).addScaledVector(inward, depth)
+
+            // 組織の層
+            const grain = hash(
+                Math.round(point.x / SPECKLE_GRAIN),
+                Math.round(point.y / SPECKLE_GRAIN),
+                Math.round(point.z / SPECKLE_GRAIN),
+            )
+            let echo: number
+            if (depth < vein.skinThickness) {
+                echo = ECHO_SKIN
+            } else if (Math.abs(depth - fasciaDepth) < 0.008) {
+                echo = ECHO_FASCIA
+            } else if (depth > fasciaDepth) {
+                // 筋層：筋線維に沿った縞
+                echo = ECHO_MUSCLE * (0.7 + 0.3 * Math.sin(point.y * 90 + depth * 30))
+            } else {
+                // 皮下脂肪：低エコーの小葉を高エコーの隔壁が区切る
+                echo = grain > 0.92 ? ECHO_SEPTUM : ECHO_FAT
+            }
+
+            // 静脈：プローブの圧迫で押す向き（皮膚側）に扁平化する
+            if (frame) {
+                offset.subVectors(point, frame.center)
+                const u0 = undeformOffset(vein.deformation, {
+                    y: frame.center.y,
+                    lateral: offset.dot(frame.lateral),
+                    outward: offset.dot(frame.outward),
+                    along: 0,
+                })
+                const distance = Math.hypot(u0.lateral, u0.outward / (1 - compression))
+                if (distance < innerRadius) {
+                    echo = ECHO_LUMEN
+                    enhancement = POSTERIOR_ENHANCEMENT
+                } else if (distance < vein.radius) {
+                    echo = ECHO_VEIN_WALL
+                }
+            }
+
+            // 針：ビームの面を横切るシャフトや針先が明るく写る
+            if (tipUnderSkin && distanceToShaft(section, point, IMAGE_DEPTH * 4) < section.needleRadius * 1.2) {
+                echo = ECHO_NEEDLE
+            }
+
+            const speckle = 0.55 + 0.9 * grain * (0.85 + 0.15 * hash(i, j, flicker))
+            const value = echo === ECHO_NEEDLE
+                ? 1
+                : echo * speckle * Math.exp(-depth * ATTENUATION) * (echo === ECHO_LUMEN ? 1 : enhancement)
+            const gray = Math.min(255, Math.round(value * 255))
+            const index = (j * width + i) * 4
+            pixels[index] = gray
+            pixels[index + 1] = gray
+            pixels[index + 2] = gray
+            pixels[index + 3] = 255
+        }
+    }
+}
@@ -0,0 +1,189 @@
+/**
+ * 針の接触による静脈の変形
+ * 中心を外れて当たると静脈が横に逃げ（ローリング）、ゆっくり押すと扁平につぶれる
+ * 皮膚を伸展（トラクション）して固定すると逃げにくくなる
+ */
+
+// 血管中心線から見た点の位置（腕ローカル座標の長さ）
+export interface VeinOffset {
+    y: number         // 最近傍の中心線上の点の腕ローカルY
+    lateral: number   // 走行と皮膚方向の両方に直交する横方向のずれ
+    outward: number   // 皮膚に向かう方向のずれ（正=浅い側）
+    along: number     // 走行方向のずれ
+}
+
+export interface VeinDeformation {
+    contact: boolean       // 針先が血管壁を押しているか
+    contactFrom: number    // 針が押しのけている範囲（腕ローカルY）
+    contactTo: number
+    pressAngle: number     // 針が押してくる向き（断面内の角度、0=皮膚側から、正=lateral 側から）
+    roll: number           // 押す向きに直交する方向への逃げ（変位）
+    compression: number    // 押す向きの扁平化の度合い（0=円形）
+}
+
+export function createVeinDeformation(): VeinDeformation {
+    return { contact: false, contactFrom: 0, contactTo: 0, pressAngle: 0, roll: 0, compression: 0 }
+}
+
+// 押しのけている範囲の外側に変形が及ぶ距離（血管の走行方向）
+const DEFORMATION_SPREAD = 0.8
+
+// 扁平化した時に横に広がる割合
+const COMPRESSION_WIDEN = 0.5
+
+// 針先が血管壁に触れているとみなす距離の余裕
+const CONTACT_MARGIN = 0.01
+
+// 中心からこの割合（半径比）以上ずれて当たると静脈が逃げる
+const ROLL_THRESHOLD = 0.45
+const ROLL_THRESHOLD_WITH_TRACTION = 0.7
+
+// 静脈が逃げられる最大距離（半径比）
+const MAX_ROLL = 1.6
+const MAX_ROLL_WITH_TRACTION = 0.4
+
+// これより遅く押し続けると扁平につぶれる（腕ローカル長さ/秒）
+const SLOW_PUSH_SPEED = 0.3
+const COMPRESSION_RATE = 0.8
+const MAX_COMPRESSION = 0.6
+
+// 針が離れた後に元の形に戻る時定数（秒）
+const RELAX_TIME = 0.4
+
+/**
+ * 押しのけている範囲からの距離に応じた変形の強さ（0〜1）
+ */
+export function deformationFalloff(deformation: VeinDeformation, y: number): number {
+    const outside = Math.max(deformation.contactFrom - y, y - deformation.contactTo, 0)
+    const d = outside / DEFORMATION_SPREAD
+    return Math.exp(-d * d)
+}
+
+/**
+ * 断面内の位置を、押す向きを基準にした座標（side: 押す向きに直交、press: 押してくる側が正）に回す
+ */
+function toPressFrame(angle: number, lateral: number, outward: number): { side: number; press: number } {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    return { side: lateral * cos - outward * sin, press: lateral * sin + outward * cos }
+}
+
+function fromPressFrame(angle: number, side: number, press: number): { lateral: number; outward: number } {
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    return { lateral: side * cos + press * sin, outward: -side * sin + press * cos }
+}
+
+/**
+ * 針の進行方向（断面に投影した lateral / outward 成分）から、針が押してくる向きの角度
+ * 針が血管とほぼ平行で向きが決まらなければ null
+ */
+export function pressAngleOf(forwardLateral: number, forwardOutward: number): number | null {
+    if (Math.hypot(forwardLateral, forwardOutward) < 1e-3) return null
+    return Math.atan2(-forwardLateral, -forwardOutward)
+}
+
+/**
+ * その位置での横への逃げ（lateral / outward 成分）
+ */
+export function rollDisplacement(deformation: VeinDeformation, y: number): { lateral: number; outward: number } {
+    return fromPressFrame(deformation.pressAngle, deformation.roll * deformationFalloff(deformation, y), 0)
+}
+
+/**
+ * 変形後の血管に対する位置を、変形前の円形断面の座標に戻す
+ * 戻り値の長さが血管半径より小さければ、変形した血管の内側にある
+ */
+export function undeformOffset(deformation: VeinDeformation | null, offset: VeinOffset): VeinOffset {
+    if (!deformation) return offset
+    const falloff = deformationFalloff(deformation, offset.y)
+    const compression = deformation.compression * falloff
+    const { side, press } = toPressFrame(deformation.pressAngle, offset.lateral, offset.outward)
+    const restored = fromPressFrame(
+        deformation.pressAngle,
+        (side - deformation.roll * falloff) / (1 + compression * COMPRESSION_WIDEN),
+        press / (1 - compression),
+    )
+    return { y: offset.y, ...restored, along: offset.along }
+}
+
+/**
+ * 変形後の断面上の点（変形前の円形断面の座標から）
+ */
+export function deformOffset(deformation: VeinDeformation, offset: VeinOffset): VeinOffset {
+    const falloff = deformationFalloff(deformation, offset.y)
+    const compression = deformation.compression * falloff
+    const { side, press } = toPressFrame(deformation.pressAngle, offset.lateral, offset.outward)
+    const deformed = fromPressFrame(
+        deformation.pressAngle,
+        side * (1 + compression * COMPRESSION_WIDEN) + deformation.roll * falloff,
+        press * (1 - compression),
+    )
+    return { y: offset.y, ...deformed, along: offset.along }
+}
+
+function extendContact(deformation: VeinDeformation, y: number) {
+    deformation.contactFrom = Math.min(deformation.contactFrom, y)
+    deformation.contactTo = Math.max(deformation.contactTo, y)
+}
+
+/**
+ * 針先の位置から静脈の変形を1フレーム分進める
+ * tip: 針先の血管中心線からの位置（皮膚の外なら null）、pressAngle: 針が押してくる向き（pressAngleOf）
+ * speed: 針先の移動速度、traction: 皮膚を伸展しているか
+ */
+export function stepVeinDeformation(
+    deformation: VeinDeformation,
+    tip: VeinOffset | null,
+    pressAngle: number | null,
+    radius: number,
+    wallThickness: number,
+    speed: number,
+    traction: boolean,
+    delta: number,
+) {
+    const u = tip ? undeformOffset(deformation, tip) : null
+    const distance = u ? Math.hypot(u.lateral, u.outward, u.along) : Infinity
+    const touching = tip !== null && u !== null && distance < radius + CONTACT_MARGIN && distance > radius - wallThickness
+
+    if (touching) {
+        // 触れ始めた向きを基準に変形させる（元に戻るまでは固定）
+        if (!deformation.contact && deformation.roll === 0 && deformation.compression === 0) {
+            deformation.contactFrom = deformation.contactTo = tip.y
+            deformation.pressAngle = pressAngle ?? Math.atan2(u.lateral, u.outward)
+        }
+        deformation.contact = true
+        extendContact(deformation, tip.y)
+
+        // 中心を外れて当たった：針先が壁に乗ったままになるよう静脈が横に逃げる
+        const { side } = toPressFrame(deformation.pressAngle, u.lateral, u.outward)
+        const threshold = traction ? ROLL_THRESHOLD_WITH_TRACTION : ROLL_THRESHOLD
+        if (Math.abs(side) / radius > threshold) {
+            const maxRoll = radius * (traction ? MAX_ROLL_WITH_TRACTION : MAX_ROLL)
+            const penetration = radius + CONTACT_MARGIN - distance
+            const falloff = Math.max(0.2, deformationFalloff(deformation, tip.y))
+            const roll = deformation.roll - (Math.sign(side) * penetration) / falloff
+            deformation.roll = Math.max(-maxRoll, Math.min(maxRoll, roll))
+        }
+
+        // ゆっくり押し続けると扁平につぶれる（素早い穿刺では壁を貫ける）
+        if (speed < SLOW_PUSH_SPEED) {
+            deformation.compression = Math.min(MAX_COMPRESSION, deformation.compression + delta * COMPRESSION_RATE)
+        }
+        return
+    }
+
+    deformation.contact = false
+    const relax = Math.exp(-delta / RELAX_TIME)
+    deformation.compression *= relax
+    // 針が皮膚に刺さっている間は、横に逃げた静脈は針に押しのけられたまま戻らない
+    if (tip) {
+        if (deformation.roll !== 0 && distance < radius * 3) extendContact(deformation, tip.y)
+    } else {
+        deformation.roll *= relax
+    }
+    if (Math.abs(deformation.roll) < 1e-4 && deformation.compression < 1e-3) {
+        deformation.roll = 0
+        deformation.compression = 0
+    }
+}
@@ -0,0 +1,526 @@
+import type { Messages } from './ja'
+
+/**
+ * English messages
+ */
+
+const en: Messages = {
+    app: {
+        title: 'IV Catheter Insertion Simulator',
+        subtitle: 'TERUMO SURFLO® — IV Catheter Insertion Simulator',
+        language: 'Language',
+    },
+
+    guide: {
+        camera: 'Drag to rotate ・ Pinch/scroll to zoom ・ Choose your view, then switch to needle mode',
+        needle: 'Drag to move ・ Pinch/scroll for depth ・ Check the position in the section views (bottom right)',
+    },
+
+    controls: {
+        camera: 'Camera',
+        needle: 'Needle',
+        traction: (on: boolean) => `Skin traction ${on ? 'ON' : 'OFF'}`,
+        echo: (on: boolean) => `Ultrasound ${on ? 'ON' : 'OFF'}`,
+        angle: 'Insertion angle',
+        yaw: 'Direction',
+        bevel: 'Bevel',
+        bevelUp: 'Bevel up',
+        bevelDown: 'Bevel down',
+        bevelTilted: 'Bevel tilted',
+        advanceNeedle: 'Advance\nneedle',
+        dragHint: 'Drag ↑↓',
+        modes: 'Control mode',
+        angleUp: 'Raise insertion angle',
+        angleDown: 'Lower insertion angle',
+        yawLeft: 'Turn needle left',
+        yawRight: 'Turn needle right',
+        rollLeft: 'Rotate bevel left',
+        rollRight: 'Rotate bevel right',
+        advancePad: 'Advance or pull back the needle (drag up and down)',
+        views: 'Views',
+        presets: {
+            'top-down': 'Top',
+            'cross-section': 'Section',
+            'operator': 'Operator',
+        },
+        presetLabels: {
+            'top-down': 'View: from above',
+            'cross-section': 'View: cross-section (from the side)',
+            'operator': "View: operator's eye",
+        },
+        tipView: 'Tip',
+        tipViewLabel: 'Needle-tip view (depth seen from the side)',
+    },
+
+    keyboard: {
+        title: 'Keyboard controls',
+        open: 'Show keyboard controls',
+        close: 'Close',
+        actions: {
+            'move-left': 'Move needle left (before puncture)',
+            'move-right': 'Move needle right (before puncture)',
+            'move-up': 'Move needle up (before puncture)',
+            'move-down': 'Move needle down (before puncture)',
+            'shallower': 'Depth: toward you',
+            'deeper': 'Depth: away from you',
+            'advance': 'Advance needle',
+            'retract': 'Pull back needle',
+            'angle-up': 'Raise insertion angle',
+            'angle-down': 'Lower insertion angle',
+            'yaw-left': 'Turn needle left',
+            'yaw-right': 'Turn needle right',
+            'roll-left': 'Rotate bevel left',
+            'roll-right': 'Rotate bevel right',
+            'catheter-forward': 'Advance catheter',
+            'catheter-back': 'Pull back catheter',
+            'stylet-withdraw': 'Withdraw needle stylet',
+            'stylet-insert': 'Push needle stylet back in',
+            'toggle-mode': 'Switch camera / needle mode',
+            'reset': 'Start over',
+            'view-top-down': 'View: top-down',
+            'view-cross-section': 'View: cross-section (side)',
+            'view-operator': "View: operator's eye",
+            'tip-view': 'Show or hide the needle-tip view',
+            'help': 'Show or hide this list',
+        },
+    },
+
+    sound: {
+        unmute: 'Turn sound and vibration on',
+        mute: 'Mute sound and vibration',
+        volumeLabel: 'Volume',
+        volume: (percent: number) => `Volume ${percent}%`,
+    },
+
+    pickers: {
+        site: 'Puncture site',
+        patient: 'Patient',
+        gauge: 'Gauge',
+        gaugeSpec: (outerDiameter: number, length: number, hubColor: string) =>
+            `OD ${outerDiameter}mm ・ Length ${length}mm ・ Hub ${hubColor}`,
+    },
+
+    sites: {
+        'basilic': {
+            name: 'Basilic vein',
+            description: 'Large vein on the ulnar side of the forearm. Slightly deep and mobile',
+        },
+        'cephalic': {
+            name: 'Cephalic vein',
+            description: 'Vein on the radial side of the forearm. Fairly straight and easy to anchor',
+        },
+        'median-cubital': {
+            name: 'Median cubital vein',
+            description: 'Large, shallow vein crossing the antecubital fossa. First choice for blood draws, but close to the joint',
+        },
+        'forearm': {
+            name: 'Median antebrachial vein',
+            description: 'Thin vein in the middle of the volar forearm. Away from joints and easy to secure',
+        },
+        'dorsal-hand': {
+            name: 'Dorsal hand vein',
+            description: 'Thin, shallow vein on the back of the hand. Easy to see but rolls easily, and puncture is painful',
+        },
+    },
+
+    patients: {
+        'adult': {
+            name: 'Standard adult',
+            description: 'Adult of average build. Veins of moderate size and depth — start here',
+        },
+        'child': {
+            name: 'Child',
+            description: 'Thin arm and small veins. Subcutaneous fat hides the veins, and a slight offset misses them',
+        },
+        'elderly': {
+            name: 'Elderly',
+            description: 'Thin skin with prominent veins, but the fragile vein wall makes it easy to pierce the back wall',
+        },
+        'obese': {
+            name: 'Obese',
+            description: 'Thick arm and subcutaneous fat. Veins are deep and hard to see, so you need a steeper angle and careful estimation',
+        },
+        'dehydrated': {
+            name: 'Dehydrated',
+            description: 'Thin, collapsible veins. The lumen is narrow and the window for flashback is small',
+        },
+    },
+
+    hubColors: {
+        '14G': 'orange',
+        '16G': 'grey',
+        '18G': 'green',
+        '20G': 'pink',
+        '22G': 'blue',
+        '24G': 'yellow',
+    },
+
+    procedure: {
+        steps: {
+            'hand-hygiene': 'Hand hygiene',
+            'site-selection': 'Site selection',
+            'tourniquet-on': 'Apply tourniquet',
+            'disinfection': 'Skin antisepsis',
+            'puncture': 'Puncture',
+            'flashback': 'Flashback',
+            'tourniquet-off': 'Release tourniquet',
+            'stylet-withdrawal': 'Remove needle stylet',
+            'line-connection': 'Connect line',
+        },
+        tourniquetTimer: (time: string) => `Tourniquet ${time}`,
+        outOfOrder: (step: string, missing: string[]) => `Out of order: ${missing.join(', ')} not done before ${step}`,
+    },
+
+    phases: {
+        'pre-puncture': 'Before puncture',
+        'punctured': 'Flashback',
+        'advancing': 'Advancing catheter',
+        'completed': 'Cannulated',
+        'through-and-through': 'Through and through',
+        'missed': 'Missed the vein',
+        'premature-advance': 'Premature advance',
+        'catheter-shear': 'Stylet reinserted',
+        'bevel-down': 'Bevel down',
+        'time-up': 'Time up',
+    },
+
+    tissueLayers: {
+        'air': 'Outside the skin',
+        'skin': 'Skin',
+        'subcutaneous': 'Subcutaneous tissue',
+        'anterior-wall': 'Anterior vein wall',
+        'lumen': 'Vein lumen',
+        'posterior-wall': 'Posterior vein wall',
+        'deep': 'Beyond the vein (transfixed)',
+    },
+
+    slider: {
+        posteriorWall: 'Needle tip is touching the back wall — do not advance the needle',
+        seatBevel: 'Flashback — lower the angle and advance a few mm until the whole bevel is in the vein',
+        crossing: 'The needle is crossing the vein at an angle — align the direction with the vein',
+        advanceCatheter: 'Flashback — advance the catheter',
+        withdrawStylet: 'Withdraw the needle stylet',
+        completed: 'Cannulation complete!',
+        connectLine: 'Cannulation complete — connect the line',
+        catheter: 'Catheter',
+        catheterNote: '(outer cannula)',
+        stylet: 'Stylet',
+        styletNote: '(metal needle)',
+        reset: 'Reset',
+        catheterSlider: 'Catheter advance',
+        styletSlider: 'Needle stylet withdrawal',
+        blocks: {
+            'kink': 'The catheter is kinking against the back wall — lower the angle before advancing',
+            'wall': 'The catheter is stuck against the vein wall — align the direction with the vein',
+        },
+    },
+
+    sections: {
+        tip: (layer: string) => `Tip: ${layer}`,
+        cross: 'Cross-section',
+        longitudinal: 'Longitudinal',
+        top: 'Top',
+        bottom: 'Bottom',
+        anteriorWall: 'Ant.',
+        posteriorWall: 'Post.',
+        skin: 'Skin',
+    },
+
+    ultrasound: {
+        title: 'Ultrasound (B-mode)',
+        views: {
+            'short-axis': 'Short axis',
+            'long-axis': 'Long axis',
+        },
+        axial: 'Position (along the arm)',
+        circumferential: 'Position (around the arm)',
+        pressure: (percent: number) => `Pressure ${percent}%`,
+        pressureWarning: 'Pressing too hard collapses the vein out of view',
+        image: 'Ultrasound B-mode image',
+        close: 'Close ultrasound',
+    },
+
+    replay: {
+        title: (phase: string) => `Replay — ${phase}`,
+        exit: 'Exit replay',
+        play: 'Play',
+        pause: 'Pause',
+        seek: 'Playback position',
+        position: (time: string, duration: string) => `${time} of ${duration}`,
+        marker: (phase: string, time: string) => `Jump to ${phase} at ${time}`,
+    },
+
+    debrief: {
+        title: 'Cannulation complete!',
+        passed: 'Pass',
+        failed: 'Fail',
+        checklist: 'Procedure checklist',
+        doneBefore: (missing: string[]) => `Done before ${missing.join(', ')}`,
+        replay: 'Replay',
+        again: 'Try again',
+    },
+
+    failure: {
+        label: 'Cannulation failed',
+        causes: 'Possible causes',
+        tips: 'Next time',
+        replay: 'Replay',
+        retry: 'Retry',
+        debriefs: {
+            'through-and-through': {
+                title: 'Through and through (back wall puncture)',
+                summary: 'The needle tip went through the back wall of the vein and out the other side.',
+                causes: [
+                    'Kept advancing at the same angle after seeing flashback',
+                    'The insertion angle was too steep',
+                ],
+                tips: [
+                    'After flashback, lower the angle and advance only a few mm',
+                    'Once the bevel is in the vein, stop advancing the stylet and advance only the catheter',
+                ],
+            },
+            'missed': {
+                title: 'Missed the vein',
+                summary: 'The needle tip passed deeper than the vein without entering it.',
+                causes: [
+                    'The entry point or needle direction was off the course of the vein',
+                    'Did not check the needle against the vein in the section views',
+                ],
+                tips: [
+                    'Before insertion, check the course and depth of the vein and aim from directly above it',
+                    'Without flashback, do not push deeper — pull back to the subcutaneous tissue and redirect',
+                ],
+            },
+            'premature-advance': {
+                title: 'Premature catheter advance',
+                summary: 'The catheter was advanced before the whole bevel was in the vein, so it was placed outside the vein.',
+                causes: [
+                    'Advanced the catheter right after flashback (only part of the bevel in the vein)',
+                ],
+                tips: [
+                    'After flashback, lower the angle and advance the whole needle a few mm to bring the entire bevel into the vein',
+                    'Remember that the catheter tip sits behind the tip of the needle stylet',
+                ],
+            },
+            'catheter-shear': {
+                title: 'Stylet reinserted (risk of catheter damage)',
+                summary: 'The withdrawn needle stylet was pushed back into the advanced catheter. The needle tip can cut or damage the catheter.',
+                causes: [
+                    'Pushed the needle stylet back in after withdrawing it',
+                ],
+                tips: [
+                    'Never reinsert the needle stylet once it has been withdrawn',
+                    'To try again, remove the whole catheter and puncture with a new IV catheter',
+                ],
+            },
+            'bevel-down': {
+                title: 'Inserted bevel down',
+                summary: 'The needle entered the vein with the bevel facing down, so the tip pointed at the back wall.',
+                causes: [
+                    'Did not check the bevel orientation before insertion',
+                    'Rotated the needle about its axis during puncture',
+                ],
+                tips: [
+                    'Always insert bevel up (hub marker facing up)',
+                    'With the bevel up, the tip catches the front wall even at a shallow angle and is less likely to damage the back wall',
+                ],
+            },
+            'time-up': {
+                title: 'Time up',
+                summary: 'The procedure was not finished up to connecting the line within the time limit.',
+                causes: [
+                    'Preparation and needle positioning took too long',
+                    'Repeated redirections',
+                ],
+                tips: [
+                    'Learn the flow of the procedure in practice mode before taking the exam',
+                    'Check the course and depth of the vein before insertion and reach it in a single pass',
+                ],
+            },
+        },
+    },
+
+    scoring: {
+        labels: {
+            'angle': 'Insertion angle',
+            'orientation': 'Bevel and crossing angle',
+            'target': 'Distance to target',
+            'redirections': 'Redirections',
+            'time': 'Time',
+            'catheter': 'Catheter advance',
+            'order': 'Step order',
+            'tourniquet': 'Tourniquet',
+        },
+        attemptSteps: {
+            'skin-entry': 'Skin entry',
+            'flashback': 'Flashback',
+            'angle-lowered': 'Lower the angle',
+            'bevel-seated': 'Bevel fully in the vein',
+            'catheter-advanced': 'Advance the catheter',
+            'stylet-withdrawn': 'Withdraw the needle stylet',
+        },
+        separator: ' / ',
+        noSkinEntry: 'No skin entry was recorded',
+        noVeinEntry: 'Reaching the vein was not recorded',
+        notMeasured: 'Not measured',
+        angleInRange: (min: number, max: number) => `Within the recommended range (${min}–${max}°)`,
+        angleOutOfRange: (min: number, max: number, off: number) => `${off}° outside the recommended range (${min}–${max}°)`,
+        bevelRotated: (degrees: number) => `Bevel rotated ${degrees}° from facing up`,
+        crossingAngle: (degrees: number) => `Inserted ${degrees}° across the course of the vein`,
+        orientationGood: 'Inserted bevel up along the course of the vein',
+        targetOnMarker: 'Reached the vein at the guide marker',
+        targetOffMarker: 'Reached the vein away from the guide marker',
+        redirectionCount: (count: number) => `${count}`,
+        noRedirections: 'Reached the vein in a single pass',
+        redirectionPenalty: (points: number) => `−${points} points per redirection`,
+        seconds: (seconds: number) => `${seconds}s`,
+        timeGood: (limit: number) => `Finished within ${limit}s`,
+        timeSlow: (limit: number, max: number) => `Points are deducted after ${limit}s (0 points at ${max}s)`,
+        catheterValue: (percent: number, inVein: number | null) =>
+            inVein === null ? `${percent}%` : `${percent}% / ${inVein}mm in vein`,
+        catheterNotFull: 'Advance the catheter all the way to the hub',
+        catheterShort: (length: number) => `Too little of the catheter (${length}mm long) is in the vein; it may dislodge easily`,
+        catheterGood: 'Catheter advanced into the vein all the way to the hub',
+        stepsMissing: (steps: string[]) => `Not done: ${steps.join(', ')}`,
+        stepsOutOfOrder: (count: number) => `Out of order: ${count}`,
+        orderGood: 'All steps done in the correct order',
+        noTourniquet: 'No tourniquet was used',
+        tourniquetNotReleased: 'Tourniquet was not released before connecting the line',
+        tourniquetGood: (limit: number) => `Released within ${limit}s`,
+        tourniquetLong: (limit: number, max: number) => `Tourniquet on too long (points deducted after ${limit}s, 0 points at ${max}s)`,
+    },
+
+    training: {
+        modes: {
+            'tutorial': 'Tutorial',
+            'practice': 'Practice',
+            'exam': 'Exam',
+        },
+        descriptions: {
+            'tutorial': 'Guides you one step at a time. Controls you do not need yet are locked',
+            'practice': 'Practice freely with the guide ring, section views and see-through skin',
+            'exam': 'No aids and a time limit; the whole procedure is scored',
+        },
+        remaining: (time: string) => `${time} left`,
+        best: (total: number, count: number) => `Best ${total} ・ ${count} tries`,
+        noRecords: 'No results yet',
+        examTime: (time: string) => `Exam ・ Time ${time}`,
+        examScore: (total: number, max: number, time: string) => `Exam ${total}/${max} ・ ${time}`,
+    },
+
+    history: {
+        title: 'Progress history',
+        open: 'Open progress history',
+        close: 'Close',
+        empty: 'No attempts yet. Finished attempts are saved automatically',
+        notSaved: 'History cannot be saved in this browser (it is lost when the page closes)',
+        attempts: 'Attempts',
+        successRate: 'Success rate',
+        averageAngle: 'Average angle',
+        averageTime: 'Average time',
+        curve: (window: number) => `Success rate (average of last ${window}) and score`,
+        curveSuccess: 'Success rate',
+        curveScore: 'Score',
+        failures: 'Common failures',
+        noFailures: 'No failures recorded',
+        count: (count: number) => `${count}×`,
+        bests: 'Personal bests by site',
+        bestScore: (total: number, max: number) => `${total}/${max}`,
+        bestTime: (time: string) => `fastest ${time}`,
+        export: 'Export',
+        clear: 'Clear history',
+        confirmClear: 'This deletes your whole progress history. Continue?',
+    },
+
+    scenario: {
+        title: 'Scenarios',
+        open: 'Choose a scenario',
+        close: 'Close',
+        library: 'Bundled scenarios',
+        loadFile: 'Load a JSON file',
+        free: 'No scenario (choose site and patient freely)',
+        active: (title: string) => `Scenario: ${title}`,
+        timeLimit: (time: string) => `limit ${time}`,
+        passScore: (score: number) => `pass ${score}`,
+        noRedirections: 'no redirection',
+        invalid: (name: string) => `Could not load ${name}`,
+        root: '(whole file)',
+        issues: {
+            read: (message: string) => `Could not read the file: ${message}`,
+            json: (message: string) => `Not valid JSON: ${message}`,
+            version: (found: string, supported: number) => `version is ${found} (supported: ${supported})`,
+            required: (path: string) => `${path} is missing`,
+            type: (path: string, expected: string) => `${path} must be a ${expected}`,
+            range: (path: string, min: number, max: number) => `${path} must be between ${min} and ${max}`,
+            choice: (path: string, choices: string[]) => `${path} must be one of ${choices.join(' / ')}`,
+            length: (path: string, min: number, exact: boolean) => `${path} needs ${exact ? 'exactly' : 'at least'} ${min} values`,
+            unknown: (path: string) => `${path} is not a known field (check the spelling)`,
+        },
+    },
+
+    share: {
+        button: 'Create a link to share this state',
+        copied: 'Link copied',
+        updated: 'The link in the address bar was updated (copy it to share)',
+        dismiss: 'Dismiss',
+        errors: {
+            unsupported: (version: number, supported: number) => `This link uses format version ${version} (this app opens up to version ${supported}). Update the app and open it again`,
+            invalid: 'The link is damaged and could not be opened (check that it was not cut off)',
+            unknownScenario: (id: string) => `The scenario "${id}" in the link is not included in this app`,
+            scenario: 'The scenario in the link has problems',
+        },
+    },
+
+    tutorial: {
+        'hand-hygiene': {
+            title: 'Hand hygiene',
+            text: 'Press "Hand hygiene" in the procedure bar above to clean your hands before the procedure',
+        },
+        'site-selection': {
+            title: 'Choose a site',
+            text: 'Pick a site in the left panel, then confirm with "Site selection" in the procedure bar. Large, straight veins are easier targets',
+        },
+        'tourniquet-on': {
+            title: 'Apply the tourniquet',
+            text: 'Press "Apply tourniquet". The vein distends and flashback becomes stronger',
+        },
+        'disinfection': {
+            title: 'Skin antisepsis',
+            text: 'Press "Skin antisepsis" to clean the insertion site from the center outward',
+        },
+        'needle-mode': {
+            title: 'Switch to needle mode',
+            text: 'Set up a camera view of the insertion site, then switch to needle mode with the "Needle" button on the right',
+        },
+        'puncture': {
+            title: 'Insert and watch for flashback',
+            text: 'With the bevel up, advance the needle at 15–30° toward the green ring. When the tip enters the vein, blood appears in the chamber',
+        },
+        'seat-bevel': {
+            title: 'Lower the angle and seat the bevel',
+            text: 'After flashback, lower the angle and advance just a few mm until the whole bevel is inside the vein',
+        },
+        'advance-catheter': {
+            title: 'Advance the catheter',
+            text: 'Keep the needle stylet still and slide only the catheter into the vein with the catheter slider below',
+        },
+        'tourniquet-off': {
+            title: 'Release the tourniquet',
+            text: 'Press "Release tourniquet" before removing the needle stylet. Removing it with the tourniquet on lets blood leak out',
+        },
+        'stylet-withdrawal': {
+            title: 'Remove the needle stylet',
+            text: 'Holding the catheter tip in place, pull the needle stylet out with the stylet slider. Never push it back in',
+        },
+        'line-connection': {
+            title: 'Connect the line',
+            text: 'Press "Connect line" to attach the infusion line to the catheter',
+        },
+        'done': {
+            title: 'Well done',
+            text: 'You have completed every step. Keep practicing in practice mode, then try the exam',
+        },
+    },
+}
+
+export default en
@@ -0,0 +1,551 @@
+import type { FailurePhase, Phase, TrainingMode } from '../types'
+import type { FailureDebrief } from '../lib/outcomes'
+import type { ProcedureStep } from '../lib/procedure'
+import type { AttemptStep, ScoreItem } from '../lib/scoring'
+import type { TissueLayer } from '../lib/tissue'
+import type { CatheterBlock } from '../lib/catheter'
+import type { UltrasoundView } from '../lib/ultrasound'
+import type { TutorialStep } from '../lib/training'
+import type { SiteId } from '../lib/sites'
+import type { PatientId } from '../lib/patients'
+import type { GaugeId } from '../lib/gauges'
+import type { KeyboardAction } from '../lib/keyboard'
+import type { CameraPreset } from '../lib/cameraPresets'
+
+/**
+ * 日本語の文言（基準のロケール。ほかの言語はこの形に合わせて訳す）
+ * 数値を埋め込む文言は関数にする
+ */
+
+const ja = {
+    app: {
+        title: '留置針穿刺シミュレーター',
+        subtitle: 'TERUMO SURFLO® — IV Catheter Insertion Simulator',
+        language: '表示言語',
+    },
+
+    // 穿刺前の操作ガイド
+    guide: {
+        camera: 'ドラッグで回転 ・ ピンチ/ホイールでズーム ・ アングルを決めて穿刺モードへ',
+        needle: 'ドラッグで移動 ・ ピンチ/ホイールで奥行き ・ 右下の断面図で位置確認',
+    },
+
+    // 右側のコントロールパネルと「針を進める」ボタン
+    controls: {
+        camera: 'カメラ',
+        needle: '穿刺',
+        traction: (on: boolean) => `皮膚伸展 ${on ? 'ON' : 'OFF'}`,
+        echo: (on: boolean) => `エコー ${on ? 'ON' : 'OFF'}`,
+        angle: '穿刺角度',
+        yaw: '振り角',
+        bevel: '刃面',
+        bevelUp: '刃面 上向き',
+        bevelDown: '刃面 下向き',
+        bevelTilted: '刃面 傾き',
+        advanceNeedle: '針を\n進める',
+        dragHint: 'ドラッグ↑↓',
+        modes: '操作モード',
+        angleUp: '穿刺角度を上げる',
+        angleDown: '穿刺角度を下げる',
+        yawLeft: '振り角を左へ',
+        yawRight: '振り角を右へ',
+        rollLeft: '刃面を左に回す',
+        rollRight: '刃面を右に回す',
+        advancePad: '針を進める・引く（上下にドラッグ）',
+        views: '視点',
+        presets: {
+            'top-down': '真上',
+            'cross-section': '断面',
+            'operator': '術者',
+        } satisfies Record<CameraPreset, string>,
+        presetLabels: {
+            'top-down': '視点：真上から',
+            'cross-section': '視点：断面（横から）',
+            'operator': '視点：術者の目線',
+        } satisfies Record<CameraPreset, string>,
+        tipView: '針先',
+        tipViewLabel: '針先を追う小窓（横から見た深さ）',
+    },
+
+    // キーボード操作の一覧
+    keyboard: {
+        title: 'キーボード操作',
+        open: 'キーボード操作の一覧',
+        close: '閉じる',
+        actions: {
+            'move-left': '針を左へ移動（穿刺前）',
+            'move-right': '針を右へ移動（穿刺前）',
+            'move-up': '針を上へ移動（穿刺前）',
+            'move-down': '針を下へ移動（穿刺前）',
+            'shallower': '奥行き：手前へ',
+            'deeper': '奥行き：奥へ',
+            'advance': '針を進める',
+            'retract': '針を引く',
+            'angle-up': '穿刺角度を上げる',
+            'angle-down': '穿刺角度を下げる',
+            'yaw-left': '振り角を左へ',
+            'yaw-right': '振り角を右へ',
+            'roll-left': '刃面を左に回す',
+            'roll-right': '刃面を右に回す',
+            'catheter-forward': '外筒を進める',
+            'catheter-back': '外筒を戻す',
+            'stylet-withdraw': '内筒を引き抜く',
+            'stylet-insert': '内筒を押し戻す',
+            'toggle-mode': 'カメラ・穿刺モードの切り替え',
+            'reset': 'やり直す',
+            'view-top-down': '視点：真上',
+            'view-cross-section': '視点：断面（横から）',
+            'view-operator': '視点：術者の目線',
+            'tip-view': '針先の小窓の表示・非表示',
+            'help': 'この一覧の表示・非表示',
+        } satisfies Record<KeyboardAction, string>,
+    },
+
+    sound: {
+        unmute: '音と振動をオンにする',
+        mute: '音と振動をミュート',
+        volumeLabel: '音量',
+        volume: (percent: number) => `音量 ${percent}%`,
+    },
+
+    pickers: {
+        site: '穿刺部位',
+        patient: '患者',
+        gauge: 'ゲージ',
+        gaugeSpec: (outerDiameter: number, length: number, hubColor: string) =>
+            `外径 ${outerDiameter}mm ・ 長さ ${length}mm ・ ハブ ${hubColor}`,
+    },
+
+    sites: {
+        'basilic': {
+            name: '尺側皮静脈',
+            description: '前腕尺側を走る太い静脈。やや深めで可動性がある',
+        },
+        'cephalic': {
+            name: '橈側皮静脈',
+            description: '前腕橈側を走る静脈。比較的まっすぐで固定されやすい',
+        },
+        'median-cubital': {
+            name: '肘正中皮静脈',
+            description: '肘窩を斜めに横切る太く浅い静脈。採血の第一選択だが関節に近い',
+        },
+        'forearm': {
+            name: '前腕正中皮静脈',
+            description: '前腕掌側中央の細い静脈。関節から離れており固定しやすい',
+        },
+        'dorsal-hand': {
+            name: '手背静脈',
+            description: '手背の細く浅い静脈。見えやすいが逃げやすく、穿刺時の痛みが強い',
+        },
+    } satisfies Record<SiteId, { name: string; description: string }>,
+
+    patients: {
+        'adult': {
+            name: '標準成人',
+            description: '標準的な体格の成人。血管は適度な太さと深さで、まずはここから練習する',
+        },
+        'child': {
+            name: '小児',
+            description: '腕が細く血管も細い。皮下脂肪で血管が見えにくく、わずかなズレで外れる',
+        },
+        'elderly': {
+            name: '高齢者',
+            description: '皮膚が薄く血管は浮き出て見えるが、血管壁がもろく後壁を貫きやすい',
+        },
+        'obese': {
+            name: '肥満',
+            description: '腕が太く皮下脂肪が厚い。血管が深く見えにくいため、深めの角度と位置の推定が必要',
+        },
+        'dehydrated': {
+            name: '脱水',
+            description: '血管が細く虚脱しやすい。内腔が狭く、逆血を得られる範囲がわずか',
+        },
+    } satisfies Record<PatientId, { name: string; description: string }>,
+
+    // ゲージごとのハブの色の名前
+    hubColors: {
+        '14G': 'オレンジ',
+        '16G': 'グレー',
+        '18G': 'グリーン',
+        '20G': 'ピンク',
+        '22G': 'ブルー',
+        '24G': 'イエロー',
+    } satisfies Record<GaugeId, string>,
+
+    procedure: {
+        steps: {
+            'hand-hygiene': '手指衛生',
+            'site-selection': '部位の選択',
+            'tourniquet-on': '駆血帯を巻く',
+            'disinfection': '皮膚の消毒',
+            'puncture': '穿刺',
+            'flashback': '逆血確認',
+            'tourniquet-off': '駆血帯を外す',
+            'stylet-withdrawal': '内筒の抜去',
+            'line-connection': 'ラインの接続',
+        } satisfies Record<ProcedureStep, string>,
+        tourniquetTimer: (time: string) => `駆血 ${time}`,
+        outOfOrder: (step: string, missing: string[]) => `順序違い: ${step}の前に${missing.join('・')}が済んでいません`,
+    },
+
+    phases: {
+        'pre-puncture': '穿刺前',
+        'punctured': '逆血確認',
+        'advancing': '外筒前進',
+        'completed': '留置完了',
+        'through-and-through': '血管貫通',
+        'missed': '血管に当たらず',
+        'premature-advance': '外筒の早期前進',
+        'catheter-shear': '内筒の再挿入',
+        'bevel-down': '刃面が下向き',
+        'time-up': '時間切れ',
+    } satisfies Record<Phase, string>,
+
+    tissueLayers: {
+        'air': '皮膚の外',
+        'skin': '皮膚',
+        'subcutaneous': '皮下組織',
+        'anterior-wall': '血管前壁',
+        'lumen': '血管内腔',
+        'posterior-wall': '血管後壁',
+        'deep': '血管の奥（貫通）',
+    } satisfies Record<TissueLayer, string>,
+
+    // 穿刺後のステータス表示とスライダー
+    slider: {
+        posteriorWall: '針先が血管後壁に接触 — 針を進めないでください',
+        seatBevel: '逆血確認 — 角度を下げ、刃面全体が血管に入るまで数mm進めてください',
+        crossing: '針が血管を斜めに横切っています — 振り角を血管の走行に合わせてください',
+        advanceCatheter: '逆血確認 — 外筒を進めてください',
+        withdrawStylet: '内筒を引き抜いてください',
+        completed: '留置完了！',
+        connectLine: '留置完了 — ラインを接続してください',
+        catheter: '外筒',
+        catheterNote: '（カテーテル）',
+        stylet: '内筒',
+        styletNote: '（金属針）',
+        reset: 'リセット',
+        catheterSlider: '外筒の前進量',
+        styletSlider: '内筒の引き抜き量',
+        blocks: {
+            'kink': '外筒が後壁に当たって折れ曲がっています — 角度を下げてから進めてください',
+            'wall': '外筒が血管壁に当たって進みません — 振り角を血管の走行に合わせてください',
+        } satisfies Record<CatheterBlock, string>,
+    },
+
+    sections: {
+        tip: (layer: string) => `先端: ${layer}`,
+        cross: '断面図',
+        longitudinal: '縦断図',
+        top: '上',
+        bottom: '下',
+        anteriorWall: '前壁',
+        posteriorWall: '後壁',
+        skin: '皮膚',
+    },
+
+    ultrasound: {
+        title: 'エコー（Bモード）',
+        views: {
+            'short-axis': '短軸',
+            'long-axis': '長軸',
+        } satisfies Record<UltrasoundView, string>,
+        axial: '位置（腕の軸方向）',
+        circumferential: '位置（腕の周方向）',
+        pressure: (percent: number) => `圧迫 ${percent}%`,
+        pressureWarning: '押しすぎると静脈がつぶれて見えなくなります',
+        image: 'エコーの Bモード画像',
+        close: 'エコーを閉じる',
+    },
+
+    replay: {
+        title: (phase: string) => `リプレイ — ${phase}`,
+        exit: 'リプレイを終了',
+        play: '再生',
+        pause: '一時停止',
+        seek: '再生位置',
+        position: (time: string, duration: string) => `${time} / ${duration}`,
+        marker: (phase: string, time: string) => `${time} の${phase}へ移動`,
+    },
+
+    // 留置完了後のデブリーフィング
+    debrief: {
+        title: '留置完了！',
+        passed: '合格',
+        failed: '不合格',
+        checklist: '手順チェックリスト',
+        doneBefore: (missing: string[]) => `${missing.join('・')}より先に実施`,
+        replay: 'リプレイ',
+        again: 'もう一度',
+    },
+
+    // 失敗時のデブリーフィング
+    failure: {
+        label: '穿刺失敗',
+        causes: '考えられる原因',
+        tips: '次回のポイント',
+        replay: 'リプレイ',
+        retry: 'やり直す',
+        debriefs: {
+            'through-and-through': {
+                title: '血管貫通（後壁穿刺）',
+                summary: '針先が血管の後壁を突き抜け、血管の奥に出てしまいました。',
+                causes: [
+                    '逆血確認後も同じ角度のまま針を進めた',
+                    '穿刺角度が深すぎた',
+                ],
+                tips: [
+                    '逆血を確認したら角度を下げ、針を数mmだけ進める',
+                    '刃面が血管内に入ったら、それ以上は内筒を進めず外筒だけを送り込む',
+                ],
+            },
+            'missed': {
+                title: '血管に当たらず通過',
+                summary: '針先が血管に当たらないまま、血管より深い位置まで進みました。',
+                causes: [
+                    '刺入点または針の向きが血管の走行からずれていた',
+                    '断面図で血管との位置関係を確認しなかった',
+                ],
+                tips: [
+                    '刺入前に血管の走行と深さを確認し、真上から狙う',
+                    '逆血がないまま深く進めず、一度皮下まで引き戻して方向を修正する',
+                ],
+            },
+            'premature-advance': {
+                title: '外筒の早期前進',
+                summary: '刃面が血管内に入りきる前に外筒を進めたため、外筒が血管外に留置されました。',
+                causes: [
+                    '逆血を確認した直後に外筒を進めた（刃面の一部のみ血管内）',
+                ],
+                tips: [
+                    '逆血確認後、角度を下げて内筒ごと数mm進め、刃面全体を血管内に入れる',
+                    '外筒の先端は内筒の針先より手前にあることを意識する',
+                ],
+            },
+            'catheter-shear': {
+                title: '内筒の再挿入（外筒損傷の危険）',
+                summary: '前進させた外筒に、引き抜いた内筒を押し戻しました。針先で外筒が切断・損傷する危険があります。',
+                causes: [
+                    '内筒を一度引き抜いた後に再び押し込んだ',
+                ],
+                tips: [
+                    '内筒は一度引き抜いたら絶対に再挿入しない',
+                    'やり直す場合は外筒ごと抜去し、新しい留置針で穿刺する',
+                ],
+            },
+            'bevel-down': {
+                title: '刃面が下向きのまま刺入',
+                summary: '刃面（ベベル）を下に向けたまま血管に刺入したため、刃先が血管の後壁に向いてしまいました。',
+                causes: [
+                    '刺入前に刃面の向きを確認しなかった',
+                    '穿刺中に針を軸まわりに回してしまった',
+                ],
+                tips: [
+                    '刃面は必ず上に向けて刺入する（ハブの目印が上）',
+                    '刃面が上なら浅い角度でも刃先が前壁に掛かり、後壁を傷つけにくい',
+                ],
+            },
+            'time-up': {
+                title: '時間切れ',
+                summary: '制限時間内に、ラインの接続まで終えられませんでした。',
+                causes: [
+                    '穿刺前の準備や針の位置合わせに時間が掛かった',
+                    '刺し直しを繰り返した',
+                ],
+                tips: [
+                    '練習モードで手順の流れを身につけてから試験に臨む',
+                    '刺入前に血管の走行と深さを確かめ、一度の刺入で血管に到達する',
+                ],
+            },
+        } satisfies Record<FailurePhase, FailureDebrief>,
+    },
+
+    // 採点項目の名前・計測値・評価の説明
+    scoring: {
+        labels: {
+            'angle': '刺入角度',
+            'orientation': '刃面の向き・交差角',
+            'target': 'ターゲットとの距離',
+            'redirections': '刺し直し',
+            'time': '所要時間',
+            'catheter': '外筒の前進量',
+            'order': '手順の順序',
+            'tourniquet': '駆血',
+        } satisfies Record<ScoreItem['key'], string>,
+        attemptSteps: {
+            'skin-entry': '皮膚への刺入',
+            'flashback': '逆血確認',
+            'angle-lowered': '角度を下げる',
+            'bevel-seated': '刃面全体を血管内へ',
+            'catheter-advanced': '外筒の前進',
+            'stylet-withdrawn': '内筒の引き抜き',
+        } satisfies Record<AttemptStep, string>,
+        separator: ' / ',
+        noSkinEntry: '皮膚への刺入が記録されていません',
+        noVeinEntry: '血管への到達が記録されていません',
+        notMeasured: '計測されていません',
+        angleInRange: (min: number, max: number) => `推奨範囲（${min}〜${max}°）内`,
+        angleOutOfRange: (min: number, max: number, off: number) => `推奨範囲（${min}〜${max}°）から${off}°外れています`,
+        bevelRotated: (degrees: number) => `刃面が上向きから${degrees}°回っています`,
+        crossingAngle: (degrees: number) => `血管の走行に対して${degrees}°斜めに刺入しています`,
+        orientationGood: '刃面を上に向け、血管の走行に沿って刺入',
+        targetOnMarker: 'ガイドマーカー上で血管に到達',
+        targetOffMarker: 'ガイドマーカーから離れた位置で血管に到達',
+        redirectionCount: (count: number) => `${count}回`,
+        noRedirections: '一度の刺入で血管に到達',
+        redirectionPenalty: (points: number) => `刺し直しは1回につき${points}点減点`,
+        seconds: (seconds: number) => `${seconds}秒`,
+        timeGood: (limit: number) => `${limit}秒以内に完了`,
+        timeSlow: (limit: number, max: number) => `${limit}秒を超えると減点（${max}秒で0点）`,
+        catheterValue: (percent: number, inVein: number | null) =>
+            inVein === null ? `${percent}%` : `${percent}% / 血管内${inVein}mm`,
+        catheterNotFull: '外筒を根元まで送り込んでください',
+        catheterShort: (length: number) => `血管内に入っている外筒が短く（全長${length}mm）、抜けやすい状態です`,
+        catheterGood: '外筒を根元まで血管内に送り込めています',
+        stepsMissing: (steps: string[]) => `未実施: ${steps.join('、')}`,
+        stepsOutOfOrder: (count: number) => `順序違い: ${count}件`,
+        orderGood: 'すべての手順を正しい順序で実施',
+        noTourniquet: '駆血帯を使用していません',
+        tourniquetNotReleased: 'ラインの接続前に駆血帯を外していません',
+        tourniquetGood: (limit: number) => `${limit}秒以内に解除`,
+        tourniquetLong: (limit: number, max: number) => `駆血が長すぎます（${limit}秒を超えると減点、${max}秒で0点）`,
+    },
+
+    training: {
+        modes: {
+            'tutorial': 'チュートリアル',
+            'practice': '練習',
+            'exam': '試験',
+        } satisfies Record<TrainingMode, string>,
+        descriptions: {
+            'tutorial': '手順を1つずつ案内します。まだ使わない操作はロックされます',
+            'practice': 'ガイドリング・断面図・透けた皮膚を使って自由に練習できます',
+            'exam': '補助なし・制限時間ありで、手技全体を採点します',
+        } satisfies Record<TrainingMode, string>,
+        remaining: (time: string) => `残り ${time}`,
+        best: (total: number, count: number) => `最高 ${total}点 ・ ${count}回`,
+        noRecords: '記録なし',
+        examTime: (time: string) => `試験 ・ 所要時間 ${time}`,
+        examScore: (total: number, max: number, time: string) => `試験 ${total}/${max}点 ・ ${time}`,
+    },
+
+    // 学習の記録のダッシュボード
+    history: {
+        title: '学習の記録',
+        open: '学習の記録を開く',
+        close: '閉じる',
+        empty: 'まだ記録がありません。試行を終えると自動で保存されます',
+        notSaved: 'この環境では記録を保存できません（ページを閉じると消えます）',
+        attempts: '試行',
+        successRate: '成功率',
+        averageAngle: '平均刺入角度',
+        averageTime: '平均所要時間',
+        curve: (window: number) => `成功率の推移（直近${window}回の平均）と得点`,
+        curveSuccess: '成功率',
+        curveScore: '得点',
+        failures: 'よくある失敗',
+        noFailures: '失敗の記録はありません',
+        count: (count: number) => `${count}回`,
+        bests: '部位ごとの自己ベスト',
+        bestScore: (total: number, max: number) => `${total}/${max}点`,
+        bestTime: (time: string) => `最短 ${time}`,
+        export: '書き出す',
+        clear: '記録を消す',
+        confirmClear: '学習の記録をすべて消します。よろしいですか？',
+    },
+
+    // シナリオ（教員が作る症例のファイル）
+    scenario: {
+        title: 'シナリオ',
+        open: 'シナリオを選ぶ',
+        close: '閉じる',
+        library: '同梱のシナリオ',
+        loadFile: 'JSON ファイルから読み込む',
+        free: 'シナリオを使わない（自由に部位・患者を選ぶ）',
+        active: (title: string) => `シナリオ: ${title}`,
+        timeLimit: (time: string) => `制限 ${time}`,
+        passScore: (score: number) => `合格 ${score}点`,
+        noRedirections: '刺し直し不可',
+        invalid: (name: string) => `${name} を読み込めませんでした`,
+        root: '（ファイル全体）',
+        issues: {
+            read: (message: string) => `ファイルを読み込めません: ${message}`,
+            json: (message: string) => `JSON として読めません: ${message}`,
+            version: (found: string, supported: number) => `version が ${found} です（対応しているのは ${supported}）`,
+            required: (path: string) => `${path} がありません`,
+            type: (path: string, expected: string) => `${path} は ${expected} で書いてください`,
+            range: (path: string, min: number, max: number) => `${path} は ${min}〜${max} の範囲で書いてください`,
+            choice: (path: string, choices: string[]) => `${path} は ${choices.join(' / ')} のどれかにしてください`,
+            length: (path: string, min: number, exact: boolean) => `${path} には${exact ? `ちょうど${min}個` : `${min}個以上`}の値が必要です`,
+            unknown: (path: string) => `${path} は使えない項目です（綴りを確認してください）`,
+        },
+    },
+
+    share: {
+        button: 'この状態を共有するリンクを作る',
+        copied: 'リンクをコピーしました',
+        updated: 'アドレスバーのリンクを更新しました（コピーして共有してください）',
+        dismiss: '閉じる',
+        errors: {
+            unsupported: (version: number, supported: number) => `このリンクは版 ${version} の形式です（このアプリが開けるのは版 ${supported} まで）。アプリを更新してから開いてください`,
+            invalid: 'リンクが壊れているため開けませんでした（途中で切れていないか確認してください）',
+            unknownScenario: (id: string) => `リンクのシナリオ「${id}」はこのアプリに入っていません`,
+            scenario: 'リンクに入っているシナリオに問題があります',
+        },
+    },
+
+    tutorial: {
+        'hand-hygiene': {
+            title: '手指衛生',
+            text: '上の手順バーの「手指衛生」を押して、処置の前に手指を消毒します',
+        },
+        'site-selection': {
+            title: '穿刺部位を選ぶ',
+            text: '左のパネルで部位を選び、手順バーの「部位の選択」で決定します。太くまっすぐな静脈が狙いやすい部位です',
+        },
+        'tourniquet-on': {
+            title: '駆血帯を巻く',
+            text: '「駆血帯を巻く」を押します。静脈が怒張して太くなり、逆血も強くなります',
+        },
+        'disinfection': {
+            title: '皮膚の消毒',
+            text: '「皮膚の消毒」を押して、刺入部位を中心から外側へ消毒します',
+        },
+        'needle-mode': {
+            title: '穿刺モードへ',
+            text: 'カメラで刺入部位が見やすい角度を決めたら、右の「穿刺」ボタンで穿刺モードに切り替えます',
+        },
+        'puncture': {
+            title: '刺入して逆血を確認',
+            text: '刃面を上に向け、15〜30°で緑のリングを狙って針を進めます。刃先が血管に入るとチャンバーに逆血が見えます',
+        },
+        'seat-bevel': {
+            title: '角度を下げて刃面を血管内へ',
+            text: '逆血を確認したら角度を下げ、刃面全体が血管に入るまで数mmだけ針を進めます',
+        },
+        'advance-catheter': {
+            title: '外筒を進める',
+            text: '内筒は動かさず、下の外筒スライダーで外筒だけを血管内に送り込みます',
+        },
+        'tourniquet-off': {
+            title: '駆血帯を外す',
+            text: '内筒を抜く前に「駆血帯を外す」を押します。駆血したまま抜くと血液が漏れ出します',
+        },
+        'stylet-withdrawal': {
+            title: '内筒を抜く',
+            text: '外筒の先端を押さえながら、内筒スライダーで内筒を引き抜きます。一度抜いた内筒は戻しません',
+        },
+        'line-connection': {
+            title: 'ラインの接続',
+            text: '「ラインの接続」を押して、輸液ラインを外筒につなぎます',
+        },
+        'done': {
+            title: 'お疲れさまでした',
+            text: 'すべての手順が終わりました。練習モードで繰り返し、試験モードにも挑戦してみましょう',
+        },
+    } satisfies Record<TutorialStep, { title: string; text: string }>,
+}
+
+export type Messages = typeof ja
+
+export default ja
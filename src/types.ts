@@ -0,0 +1,28 @@
+/**
+ * 穿刺手技のフェーズ
+ * 正常な流れ: 穿刺前 → 逆血確認 → 外筒前進 → 完了
+ */
+export type ProgressPhase = 'pre-puncture' | 'punctured' | 'advancing' | 'completed'
+
+/**
+ * 失敗で終了したフェーズ
+ * through-and-through: 血管を貫通（後壁穿刺）
+ * missed: 血管に当たらず通り過ぎた
+ * premature-advance: 刃面が血管内に入りきる前に外筒を進めた
+ * catheter-shear: 前進させた外筒に内筒を再挿入した（カテーテル損傷の危険）
+ * bevel-down: 刃面を下に向けたまま血管に刺入した
+ * time-up: 制限時間（試験、またはシナリオで決めた時間）内に終わらなかった
+ */
+export type FailurePhase = 'through-and-through' | 'missed' | 'premature-advance' | 'catheter-shear' | 'bevel-down' | 'time-up'
+
+export type Phase = ProgressPhase | FailurePhase
+
+export type Mode = 'camera' | 'needle'
+
+/**
+ * 練習の形式
+ * tutorial: 手順を1つずつ案内し、まだ使わない操作はロックする
+ * practice: ガイドリング・断面図・透けた皮膚などの補助をすべて使える
+ * exam: 補助なし・制限時間ありで採点する
+ */
+export type TrainingMode = 'tutorial' | 'practice' | 'exam'